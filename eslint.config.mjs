@@ -43,6 +43,8 @@ export default [
         clearImmediate: "readonly",
         URL: "readonly",
         URLSearchParams: "readonly",
+        AbortController: "readonly",
+        AbortSignal: "readonly",
         NodeJS: "readonly",
         Express: "readonly",
       },
@@ -0,0 +1,168 @@
+import { createHash } from "crypto";
+import { Readable } from "stream";
+
+interface FakeS3Options {
+  // Keep each bucket apart; by default every bucket shares `objects`
+  separateBuckets?: boolean;
+  // Keys per listing page, so callers have to follow continuation tokens
+  pageSize?: number;
+}
+
+interface FakeS3Command {
+  constructor: { name: string };
+  input: Record<string, any>;
+}
+
+async function readBody(body: unknown): Promise<Buffer> {
+  if (body instanceof Readable) {
+    const chunks: Buffer[] = [];
+    for await (const chunk of body) chunks.push(Buffer.from(chunk));
+    return Buffer.concat(chunks);
+  }
+  return Buffer.from(body as Uint8Array);
+}
+
+/**
+ * Stands in for an S3 client in tests. Objects are kept in memory by key; `failure` is thrown
+ * instead of answering, a `stalled` client only settles once the request is aborted, and keys in
+ * `locked` are refused by DeleteObjects.
+ */
+export function createFakeS3Client(options: FakeS3Options = {}) {
+  const missing = (name: string) => Object.assign(new Error(name), { name });
+  const uploads = new Map<
+    string,
+    { key: string; contentType?: string; parts: Map<number, Buffer> }
+  >();
+
+  const client = {
+    objects: new Map<string, Buffer>(),
+    buckets: new Map<string, Map<string, Buffer>>(),
+    contentTypes: new Map<string, string>(),
+    locked: new Set<string>(),
+    commands: [] as string[],
+    failure: null as Error | null,
+    stalled: false,
+    // What @aws-sdk/lib-storage reads from the client before uploading
+    config: {
+      requestChecksumCalculation: async () => "WHEN_REQUIRED",
+      endpoint: async () => ({ protocol: "https:", hostname: "s3.test", path: "/" }),
+      forcePathStyle: false,
+      requestHandler: {},
+    },
+    bucket(name: string) {
+      if (!options.separateBuckets) return client.objects;
+      if (!client.buckets.has(name)) client.buckets.set(name, new Map());
+      return client.buckets.get(name)!;
+    },
+    reset() {
+      client.objects.clear();
+      client.buckets.clear();
+      client.contentTypes.clear();
+      client.locked.clear();
+      client.commands.length = 0;
+      client.failure = null;
+      client.stalled = false;
+      uploads.clear();
+    },
+    async send(command: FakeS3Command, sendOptions?: { abortSignal?: AbortSignal }) {
+      client.commands.push(command.constructor.name);
+      if (client.stalled) {
+        await new Promise((_resolve, reject) =>
+          sendOptions?.abortSignal?.addEventListener("abort", () => reject(new Error("aborted")))
+        );
+      }
+      if (client.failure) throw client.failure;
+
+      const { Bucket, Key, Body, ContentType, UploadId, PartNumber, CopySource } = command.input;
+      const objects = client.bucket(Bucket);
+      switch (command.constructor.name) {
+        case "PutObjectCommand":
+          objects.set(Key, await readBody(Body));
+          if (ContentType) client.contentTypes.set(Key, ContentType);
+          return { ETag: '"etag"' };
+        case "CopyObjectCommand": {
+          const source = decodeURI(CopySource).replace(/^[^/]+\//, "");
+          if (!objects.has(source)) throw missing("NoSuchKey");
+          objects.set(Key, objects.get(source)!);
+          const contentType = ContentType || client.contentTypes.get(source);
+          if (contentType) client.contentTypes.set(Key, contentType);
+          return {};
+        }
+        case "HeadObjectCommand":
+          if (!objects.has(Key)) throw missing("NotFound");
+          return {
+            ContentLength: objects.get(Key)!.length,
+            ContentType: client.contentTypes.get(Key),
+          };
+        case "GetObjectCommand": {
+          const body = objects.get(Key);
+          if (!body) throw missing("NoSuchKey");
+          return {
+            Body: Readable.from([body]),
+            ContentType: client.contentTypes.get(Key),
+            ContentLength: body.length,
+          };
+        }
+        case "DeleteObjectCommand":
+          objects.delete(Key);
+          return {};
+        case "DeleteObjectsCommand": {
+          const Errors: Array<{ Key: string; Message: string }> = [];
+          for (const { Key: key } of command.input.Delete.Objects) {
+            if (client.locked.has(key)) Errors.push({ Key: key, Message: "Access Denied" });
+            else objects.delete(key);
+          }
+          return { Errors };
+        }
+        case "ListObjectsV2Command": {
+          const { Prefix = "", Delimiter, ContinuationToken } = command.input;
+          const keys = Array.from(objects.keys())
+            .filter((key) => key.startsWith(Prefix))
+            .sort();
+          if (Delimiter) {
+            const prefixes = new Set(keys.map((key) => `${key.split(Delimiter)[0]}${Delimiter}`));
+            return { CommonPrefixes: Array.from(prefixes).map((prefix) => ({ Prefix: prefix })) };
+          }
+          const start = Number(ContinuationToken) || 0;
+          const end = options.pageSize ? start + options.pageSize : keys.length;
+          return {
+            Contents: keys.slice(start, end).map((key) => ({
+              Key: key,
+              Size: objects.get(key)!.length,
+              ETag: `"${createHash("md5").update(objects.get(key)!).digest("hex")}"`,
+            })),
+            NextContinuationToken: end < keys.length ? String(end) : undefined,
+          };
+        }
+        case "CreateMultipartUploadCommand": {
+          const uploadId = `upload-${uploads.size + 1}`;
+          uploads.set(uploadId, { key: Key, contentType: ContentType, parts: new Map() });
+          return { UploadId: uploadId };
+        }
+        case "UploadPartCommand": {
+          const upload = uploads.get(UploadId);
+          if (!upload) throw missing("NoSuchUpload");
+          upload.parts.set(PartNumber, await readBody(Body));
+          return { ETag: `"part-${PartNumber}"` };
+        }
+        case "CompleteMultipartUploadCommand": {
+          const upload = uploads.get(UploadId);
+          if (!upload) throw missing("NoSuchUpload");
+          const partNumbers = Array.from(upload.parts.keys()).sort((a, b) => a - b);
+          objects.set(Key, Buffer.concat(partNumbers.map((number) => upload.parts.get(number)!)));
+          if (upload.contentType) client.contentTypes.set(Key, upload.contentType);
+          uploads.delete(UploadId);
+          return { ETag: '"etag"' };
+        }
+        case "AbortMultipartUploadCommand":
+          if (!uploads.delete(UploadId)) throw missing("NoSuchUpload");
+          return {};
+        default:
+          throw new Error(`Unexpected ${command.constructor.name}`);
+      }
+    },
+  };
+  return client;
+}
+
+export type FakeS3Client = ReturnType<typeof createFakeS3Client>;
@@ -7,11 +7,23 @@ import morgan from "morgan";
 dotenv.config();
 
 import { internalAuthMiddleware } from "./middleware/internalAuthMiddleware";
+import bucketReconcileRoutes from "./modules/bucket-reconcile/bucket-reconcile.routes";
+import fileCacheRoutes from "./modules/file-cache/file-cache.routes";
 import monetizeRoutes from "./modules/monetize/monetize.routes";
+import multipartUploadRoutes from "./modules/multipart-upload/multipart-upload.routes";
+import { multipartUploadService } from "./modules/multipart-upload/multipart-upload.service";
 import renameUserFilesRoutes from "./modules/rename-user-files/rename-user-files.routes";
+import replicationRoutes from "./modules/replication/replication.routes";
+import { replicationService } from "./modules/replication/replication.service";
 import s3Routes from "./modules/s3/s3.routes";
+import { s3Service } from "./modules/s3/s3.service";
 import s3PrivateRoutes from "./modules/s3-private/s3-private.routes";
+import { s3PrivateService } from "./modules/s3-private/s3-private.service";
 import storageRoutes from "./modules/storage/storage.routes";
+import { storageService } from "./modules/storage/storage.service";
+import tusRoutes from "./modules/tus/tus.routes";
+import { tusService } from "./modules/tus/tus.service";
+import { startDiskCache, stopDiskCache } from "./utils/diskCache";
 import { logger } from "./utils/logger";
 
 const app = express();
@@ -19,6 +31,8 @@ const PORT = process.env.PORT || 3003;
 
 // Middleware
 app.use(helmet());
+// tus answers OPTIONS itself (server discovery), so it is mounted ahead of the global CORS handler
+app.use("/api/s3/tus", tusRoutes);
 const allowedOrigins = [
   "https://korner.pro",
   "https://korner.lol",
@@ -49,6 +63,10 @@ app.get("/health", (req, res) => {
 // Routes
 app.use("/internal/monetize", internalAuthMiddleware, monetizeRoutes);
 app.use("/internal/rename-user-files", internalAuthMiddleware, renameUserFilesRoutes);
+app.use("/internal/file-cache", internalAuthMiddleware, fileCacheRoutes);
+app.use("/internal/replication", internalAuthMiddleware, replicationRoutes);
+app.use("/internal/bucket-reconcile", internalAuthMiddleware, bucketReconcileRoutes);
+app.use("/api/s3/multipart", multipartUploadRoutes);
 app.use("/api/s3", s3Routes);
 app.use("/api/s3-private", s3PrivateRoutes);
 app.use("/api/storage", storageRoutes);
@@ -69,8 +87,29 @@ const server = app.listen(Number(PORT), () => {
   logger.info(`korner-media-service running on port ${PORT}`);
 });
 
+const tusCleanupTimer = tusService.startCleanup();
+const privateUploadSweepTimer = s3PrivateService.startUnconfirmedUploadSweeper();
+const usageReconcileTimer = storageService.startUsageReconciler();
+const trashPurgeTimer = s3Service.startTrashPurge();
+const incomingSweepTimer = s3Service.startUnfinalizedUploadSweeper();
+const privateTrashPurgeTimer = s3PrivateService.startTrashPurge();
+const replicationTimer = replicationService.startWorker();
+const multipartSweepTimer = multipartUploadService.startExpiredUploadSweeper();
+startDiskCache().catch((error) => {
+  logger.error("Failed to start the disk cache", { error: String(error) });
+});
+
 const gracefulShutdown = (signal: string) => {
   logger.info(`${signal} received. Shutting down gracefully...`);
+  clearInterval(tusCleanupTimer);
+  clearInterval(privateUploadSweepTimer);
+  clearInterval(usageReconcileTimer);
+  clearInterval(trashPurgeTimer);
+  clearInterval(incomingSweepTimer);
+  clearInterval(privateTrashPurgeTimer);
+  clearInterval(replicationTimer);
+  clearInterval(multipartSweepTimer);
+  stopDiskCache();
   server.close(() => {
     logger.info("HTTP server closed");
     process.exit(0);
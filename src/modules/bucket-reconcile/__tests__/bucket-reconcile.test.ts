@@ -0,0 +1,158 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { FakeS3Client } from "../../../__tests__/helpers/fakeS3Client";
+import {
+  getReconcileStatus,
+  ReconcileInProgressError,
+  reconcileBuckets,
+  startReconcile,
+} from "../../../utils/bucketReconciler";
+import s3Client from "../../../utils/s3";
+import ys3Client from "../../../utils/ys3";
+
+const primary = s3Client as unknown as FakeS3Client;
+const yandex = ys3Client as unknown as FakeS3Client;
+
+const { locks, deleted, values } = vi.hoisted(() => ({
+  locks: new Set<string>(),
+  deleted: [] as string[],
+  values: new Map<string, string>(),
+}));
+
+vi.mock("../../../utils/s3", async () => {
+  const { createFakeS3Client } = await import("../../../__tests__/helpers/fakeS3Client");
+  return { default: createFakeS3Client({ separateBuckets: true, pageSize: 2 }) };
+});
+vi.mock("../../../utils/ys3", async () => {
+  const { createFakeS3Client } = await import("../../../__tests__/helpers/fakeS3Client");
+  return { default: createFakeS3Client({ separateBuckets: true, pageSize: 2 }) };
+});
+vi.mock("../../../utils/redis", () => ({
+  default: {
+    set: async (key: string) => (locks.has(key) ? null : (locks.add(key), "OK")),
+    del: async (keys: string | string[]) => {
+      if (Array.isArray(keys)) deleted.push(...keys);
+      else locks.delete(keys);
+      return 1;
+    },
+    expire: async (key: string) => (locks.has(key) ? 1 : 0),
+    exists: async (key: string) => (locks.has(key) ? 1 : 0),
+    get: async (key: string) => values.get(key) ?? null,
+    setex: async (key: string, _ttl: number, value: string) => values.set(key, value),
+    smembers: async () => [],
+    eval: async () => 0,
+  },
+}));
+
+const PUBLIC = "korner-lol";
+const PRIVATE = "korner-lol-private";
+
+function put(client: typeof primary, bucket: string, key: string, body: string) {
+  client.bucket(bucket).set(key, Buffer.from(body));
+}
+
+describe("bucket reconciler", () => {
+  beforeEach(() => {
+    primary.reset();
+    yandex.reset();
+    locks.clear();
+    deleted.length = 0;
+    values.clear();
+
+    for (const key of ["alice/a-0001.webp", "alice/a-0002.webp", "alice/a-0003.webp"]) {
+      put(primary, PUBLIC, key, key);
+    }
+    put(primary, PUBLIC, "bob/b-0001.webp", "bob");
+    put(primary, PRIVATE, "alice/secret.pdf", "secret");
+
+    put(yandex, PUBLIC, "alice/a-0001.webp", "alice/a-0001.webp");
+    put(yandex, PUBLIC, "alice/a-0002.webp", "alice/stale-0002");
+    put(yandex, PUBLIC, "bob/b-0001.webp", "bob");
+    put(yandex, PUBLIC, "carol/c-0001.webp", "orphan");
+    put(primary, PUBLIC, ".incoming/alice/a-0004.webp", "unfinalized");
+  });
+
+  it("reports missing, extra and mismatched objects per user", async () => {
+    const report = await reconcileBuckets();
+
+    expect(report.buckets).toEqual([
+      { name: "AWS S3 Public", objects: 4, bytes: 3 * 17 + 3 },
+      { name: "AWS S3 Private", objects: 1, bytes: 6 },
+      { name: "Yandex S3 Public", objects: 4, bytes: 17 + 16 + 3 + 6 },
+    ]);
+    expect(report.pairs).toHaveLength(1);
+    expect(report.pairs[0]).toMatchObject({
+      source: "AWS S3 Public",
+      replica: "Yandex S3 Public",
+      checkedUsers: 3,
+      checkedObjects: 5,
+      missing: 1,
+      extra: 1,
+      mismatched: 1,
+      repaired: 0,
+    });
+    expect(report.pairs[0].users).toEqual([
+      expect.objectContaining({
+        username: "alice",
+        missing: 1,
+        mismatched: 1,
+        objects: [
+          expect.objectContaining({ key: "alice/a-0002.webp", issue: "mismatch" }),
+          expect.objectContaining({ key: "alice/a-0003.webp", issue: "missing" }),
+        ],
+      }),
+      expect.objectContaining({ username: "carol", extra: 1 }),
+    ]);
+    expect(yandex.bucket(PUBLIC).has("carol/c-0001.webp")).toBe(true);
+    expect(report.errors).toEqual([]);
+  });
+
+  it("repairs the replica from AWS and evicts the cached copies", async () => {
+    const report = await reconcileBuckets({ repair: true });
+    expect(report.pairs[0].repaired).toBe(3);
+
+    expect(yandex.bucket(PUBLIC).has(".incoming/alice/a-0004.webp")).toBe(false);
+    primary.bucket(PUBLIC).delete(".incoming/alice/a-0004.webp");
+    expect(yandex.bucket(PUBLIC)).toEqual(primary.bucket(PUBLIC));
+    expect(deleted).toEqual(
+      expect.arrayContaining(["file:alice/a-0002.webp", "file:carol/c-0001.webp"])
+    );
+    await expect(reconcileBuckets()).resolves.toMatchObject({
+      pairs: [expect.objectContaining({ missing: 0, extra: 0, mismatched: 0, users: [] })],
+    });
+  });
+
+  it("only walks the requested users", async () => {
+    const report = await reconcileBuckets({ usernames: ["bob"], repair: true });
+
+    expect(report.pairs[0]).toMatchObject({ checkedUsers: 1, checkedObjects: 1, repaired: 0 });
+    expect(report.buckets[1]).toMatchObject({ objects: 0 });
+    expect(yandex.bucket(PUBLIC).has("carol/c-0001.webp")).toBe(true);
+  });
+
+  it("refuses to start while another run holds the lock", async () => {
+    locks.add("bucket-reconcile:lock");
+    await expect(reconcileBuckets()).rejects.toBeInstanceOf(ReconcileInProgressError);
+    await expect(startReconcile()).rejects.toBeInstanceOf(ReconcileInProgressError);
+  });
+
+  it("runs in the background and keeps the report for the status endpoint", async () => {
+    await expect(startReconcile({ repair: true })).resolves.toMatchObject({
+      state: "running",
+      repair: true,
+    });
+    await expect(getReconcileStatus()).resolves.toMatchObject({ state: "running" });
+
+    await vi.waitFor(() => expect(locks.size).toBe(0));
+    await expect(getReconcileStatus()).resolves.toMatchObject({
+      state: "finished",
+      report: { repair: true, pairs: [expect.objectContaining({ repaired: 3 })] },
+    });
+  });
+
+  it("reports a run whose instance went away as interrupted", async () => {
+    const status = { state: "running", repair: false, startedAt: Date.now() };
+    values.set("bucket-reconcile:status", JSON.stringify(status));
+    await expect(getReconcileStatus()).resolves.toMatchObject({ state: "interrupted" });
+  });
+});
@@ -0,0 +1,71 @@
+import { Request, Response } from "express";
+
+import {
+  getReconcileStatus as readReconcileStatus,
+  ReconcileInProgressError,
+  startReconcile,
+} from "../../utils/bucketReconciler";
+import { ERROR_CODES } from "../../utils/errorCodes";
+import { logger } from "../../utils/logger";
+
+export async function reconcileBuckets(req: Request, res: Response): Promise<void> {
+  try {
+    const { usernames, repair } = req.body || {};
+
+    if (
+      usernames !== undefined &&
+      (!Array.isArray(usernames) ||
+        usernames.length === 0 ||
+        usernames.some(
+          (username: unknown) =>
+            typeof username !== "string" || !username || username.startsWith(".")
+        ))
+    ) {
+      res.status(400).json({
+        error: {
+          code: ERROR_CODES.VALIDATION_ERROR,
+          message: "usernames must be a non-empty array of usernames",
+        },
+      });
+      return;
+    }
+
+    if (repair !== undefined && typeof repair !== "boolean") {
+      res.status(400).json({
+        error: { code: ERROR_CODES.VALIDATION_ERROR, message: "repair must be a boolean" },
+      });
+      return;
+    }
+
+    // The walk can take hours, so it runs in the background and is followed through /status
+    res.status(202).json(await startReconcile({ usernames, repair }));
+  } catch (error) {
+    if (error instanceof ReconcileInProgressError) {
+      res.status(409).json({
+        error: { code: ERROR_CODES.RECONCILE_IN_PROGRESS, message: error.message },
+      });
+      return;
+    }
+    logger.error("Error in bucket-reconcile controller", { error: String(error) });
+    res.status(500).json({ error: { code: ERROR_CODES.SERVER_ERROR, message: "Internal error" } });
+  }
+}
+
+export async function getReconcileStatus(_req: Request, res: Response): Promise<void> {
+  try {
+    const status = await readReconcileStatus();
+    if (!status) {
+      res.status(404).json({
+        error: {
+          code: ERROR_CODES.RECONCILE_NOT_FOUND,
+          message: "No reconciliation has run recently",
+        },
+      });
+      return;
+    }
+    res.status(200).json(status);
+  } catch (error) {
+    logger.error("Error reading bucket reconciliation status", { error: String(error) });
+    res.status(500).json({ error: { code: ERROR_CODES.SERVER_ERROR, message: "Internal error" } });
+  }
+}
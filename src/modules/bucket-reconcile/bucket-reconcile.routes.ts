@@ -0,0 +1,10 @@
+import { Router } from "express";
+
+import * as bucketReconcileController from "./bucket-reconcile.controller";
+
+const router = Router();
+
+router.post("/", bucketReconcileController.reconcileBuckets);
+router.get("/status", bucketReconcileController.getReconcileStatus);
+
+export default router;
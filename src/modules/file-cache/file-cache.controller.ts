@@ -0,0 +1,17 @@
+import { Request, Response } from "express";
+
+import { getDiskCacheStats } from "../../utils/diskCache";
+import { ERROR_CODES } from "../../utils/errorCodes";
+import { getFileCacheStats } from "../../utils/fileCache";
+import { logger } from "../../utils/logger";
+import { getStorageReadStats } from "../../utils/storageRead";
+
+export async function getStats(_req: Request, res: Response): Promise<void> {
+  try {
+    const [cache, storage] = await Promise.all([getFileCacheStats(), getStorageReadStats()]);
+    res.status(200).json({ ...cache, disk: getDiskCacheStats(), storage });
+  } catch (error) {
+    logger.error("Error reading file cache stats", { error: String(error) });
+    res.status(500).json({ error: { code: ERROR_CODES.SERVER_ERROR, message: "Internal error" } });
+  }
+}
@@ -0,0 +1,9 @@
+import { Router } from "express";
+
+import * as fileCacheController from "./file-cache.controller";
+
+const router = Router();
+
+router.get("/stats", fileCacheController.getStats);
+
+export default router;
@@ -0,0 +1,170 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { multipartUploadService } from "../multipart-upload.service";
+
+const { store, uploads, objects, enqueued, quota } = vi.hoisted(() => ({
+  store: new Map<string, string>(),
+  uploads: new Map<string, { key: string; parts: Map<number, Buffer>; initiated: Date }>(),
+  objects: new Map<string, Buffer>(),
+  enqueued: [] as Array<{ op: string; key: string }>,
+  quota: { allowed: true, message: undefined as string | undefined },
+}));
+
+vi.mock("../../../utils/redis", () => ({
+  default: {
+    get: async (key: string) => store.get(key) ?? null,
+    setex: async (key: string, _ttl: number, value: string) => store.set(key, value),
+    del: async (key: string) => (store.delete(key) ? 1 : 0),
+    eval: async () => 0,
+    xadd: async (_key: string, _id: string, ...fields: string[]) => {
+      enqueued.push({ op: fields[1], key: fields[3] });
+      return "1-0";
+    },
+  },
+}));
+
+// Stands in for S3's multipart API over the public bucket
+vi.mock("../../../utils/s3", () => ({
+  default: {
+    async send(command: { constructor: { name: string }; input: Record<string, any> }) {
+      const { Key, UploadId, Range, CopySource } = command.input;
+      const missing = () => Object.assign(new Error("NotFound"), { name: "NotFound" });
+      switch (command.constructor.name) {
+        case "CreateMultipartUploadCommand": {
+          const uploadId = `upload-${uploads.size + 1}`;
+          uploads.set(uploadId, { key: Key, parts: new Map(), initiated: new Date() });
+          return { UploadId: uploadId };
+        }
+        case "ListPartsCommand":
+          return {
+            Parts: Array.from(uploads.get(UploadId)!.parts).map(([partNumber, body]) => ({
+              PartNumber: partNumber,
+              ETag: `"part-${partNumber}"`,
+              Size: body.length,
+            })),
+          };
+        case "CompleteMultipartUploadCommand": {
+          const upload = uploads.get(UploadId)!;
+          objects.set(Key, Buffer.concat(Array.from(upload.parts.values())));
+          uploads.delete(UploadId);
+          return {};
+        }
+        case "AbortMultipartUploadCommand":
+          if (!uploads.delete(UploadId)) {
+            throw Object.assign(new Error("NoSuchUpload"), { name: "NoSuchUpload" });
+          }
+          return {};
+        case "ListMultipartUploadsCommand":
+          return {
+            Uploads: Array.from(uploads)
+              .filter(([, upload]) => upload.key.startsWith(command.input.Prefix))
+              .map(([uploadId, upload]) => ({
+                Key: upload.key,
+                UploadId: uploadId,
+                Initiated: upload.initiated,
+              })),
+          };
+        case "HeadObjectCommand":
+          if (!objects.has(Key)) throw missing();
+          return { ContentLength: objects.get(Key)!.length };
+        case "GetObjectCommand": {
+          if (!objects.has(Key)) throw missing();
+          const [start, end] = String(Range).slice("bytes=".length).split("-").map(Number);
+          const { Readable } = await import("stream");
+          return { Body: Readable.from([objects.get(Key)!.subarray(start, end + 1)]) };
+        }
+        case "CopyObjectCommand": {
+          const source = CopySource.replace(/^[^/]+\//, "");
+          if (!objects.has(source)) throw missing();
+          objects.set(Key, objects.get(source)!);
+          return {};
+        }
+        case "DeleteObjectCommand":
+          objects.delete(Key);
+          return {};
+        default:
+          throw new Error(`Unexpected ${command.constructor.name}`);
+      }
+    },
+  },
+}));
+vi.mock("../../../utils/storageQuota", () => ({
+  checkStorageQuota: async () => quota,
+}));
+
+const alice = { id: 1, username: "alice" };
+const DAY_MS = 24 * 60 * 60 * 1000;
+// ISO base media "ftyp" box, so content sniffing recognises the file as MP4
+const MP4_HEADER = Buffer.from("000000186674797069736f6d0000020069736f6d69736f32", "hex");
+
+async function uploadVideo(body: Buffer) {
+  const { uploadId, key } = await multipartUploadService.initiate(alice, {
+    filename: "clip.mp4",
+    mimetype: "video/mp4",
+    size: body.length,
+    kind: "video",
+  });
+  uploads.get(uploadId)!.parts.set(1, body);
+  return { uploadId, key };
+}
+
+describe("multipart upload completion", () => {
+  beforeEach(() => {
+    store.clear();
+    uploads.clear();
+    objects.clear();
+    enqueued.length = 0;
+    quota.allowed = true;
+    quota.message = undefined;
+    vi.restoreAllMocks();
+  });
+
+  it("stages the parts and publishes a file whose content matches the declared type", async () => {
+    const { uploadId, key } = await uploadVideo(Buffer.concat([MP4_HEADER, Buffer.alloc(64)]));
+    expect(uploads.get(uploadId)!.key).toBe(`.incoming/${key}`);
+
+    await expect(multipartUploadService.complete(alice, uploadId)).resolves.toMatchObject({
+      key,
+    });
+    expect(Array.from(objects.keys())).toEqual([key]);
+    expect(enqueued).toEqual([{ op: "put", key }]);
+  });
+
+  it("discards an assembled file whose content is not what was declared", async () => {
+    const { uploadId, key } = await uploadVideo(Buffer.from("<html>not a video</html>"));
+    const published = vi.spyOn(objects, "set");
+
+    await expect(multipartUploadService.complete(alice, uploadId)).rejects.toMatchObject({
+      code: "FILE_TYPE_MISMATCH",
+      statusCode: 400,
+    });
+    expect(published).not.toHaveBeenCalledWith(key, expect.anything());
+    expect(objects.size).toBe(0);
+    expect(enqueued).toEqual([]);
+    await expect(multipartUploadService.getStatus("alice", uploadId)).rejects.toMatchObject({
+      statusCode: 404,
+    });
+  });
+
+  it("aborts the upload when the quota ran out since it was initiated", async () => {
+    const { uploadId, key } = await uploadVideo(Buffer.concat([MP4_HEADER, Buffer.alloc(64)]));
+    quota.allowed = false;
+    quota.message = "Storage quota exceeded";
+
+    await expect(multipartUploadService.complete(alice, uploadId)).rejects.toMatchObject({
+      code: "STORAGE_QUOTA_EXCEEDED",
+      statusCode: 403,
+    });
+    expect(uploads.has(uploadId)).toBe(false);
+    expect(objects.has(key)).toBe(false);
+  });
+
+  it("aborts uploads that outlived their session and keeps recent ones", async () => {
+    const stale = await uploadVideo(MP4_HEADER);
+    uploads.get(stale.uploadId)!.initiated = new Date(Date.now() - DAY_MS - 1000);
+    const recent = await uploadVideo(MP4_HEADER);
+
+    await expect(multipartUploadService.sweepExpiredUploads()).resolves.toBe(1);
+    expect(Array.from(uploads.keys())).toEqual([recent.uploadId]);
+  });
+});
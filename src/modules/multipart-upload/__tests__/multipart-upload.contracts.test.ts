@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  initiateUploadResponse,
+  uploadStatusResponse,
+  presignPartsResponse,
+  completeUploadResponse,
+  abortUploadResponse,
+  multipartUploadErrorResponse,
+} from "../multipart-upload.validation";
+
+describe("multipart-upload response contracts", () => {
+  describe("initiateUploadResponse", () => {
+    it("accepts initiated upload", () => {
+      const valid = {
+        uploadId: "2~abcDEF123",
+        key: "user/lx3ab-1a2b3c4d-video.mp4",
+        partSize: 10485760,
+        partCount: 42,
+      };
+      expect(initiateUploadResponse.safeParse(valid).success).toBe(true);
+    });
+
+    it("rejects without uploadId", () => {
+      const invalid = { key: "user/f.mp4", partSize: 10485760, partCount: 1 };
+      expect(initiateUploadResponse.safeParse(invalid).success).toBe(false);
+    });
+  });
+
+  describe("uploadStatusResponse", () => {
+    it("accepts partially uploaded session", () => {
+      const valid = {
+        uploadId: "2~abcDEF123",
+        key: "user/f.mp4",
+        partSize: 10485760,
+        partCount: 3,
+        completed: false,
+        uploadedParts: [{ partNumber: 1, etag: '"etag-1"', size: 10485760 }],
+      };
+      expect(uploadStatusResponse.safeParse(valid).success).toBe(true);
+    });
+
+    it("rejects without uploadedParts", () => {
+      const invalid = {
+        uploadId: "2~abcDEF123",
+        key: "user/f.mp4",
+        partSize: 10485760,
+        partCount: 3,
+        completed: false,
+      };
+      expect(uploadStatusResponse.safeParse(invalid).success).toBe(false);
+    });
+  });
+
+  describe("presignPartsResponse", () => {
+    it("accepts presigned part urls", () => {
+      const valid = {
+        parts: [{ partNumber: 2, url: "https://s3.amazonaws.com/bucket/key?partNumber=2" }],
+        expiresIn: 3600,
+      };
+      expect(presignPartsResponse.safeParse(valid).success).toBe(true);
+    });
+
+    it("rejects part without url", () => {
+      const invalid = { parts: [{ partNumber: 2 }], expiresIn: 3600 };
+      expect(presignPartsResponse.safeParse(invalid).success).toBe(false);
+    });
+  });
+
+  describe("completeUploadResponse", () => {
+    it("accepts completed upload", () => {
+      const valid = {
+        message: "Video uploaded successfully",
+        url: "https://cdn.korner.lol/user/f.mp4",
+        key: "user/f.mp4",
+      };
+      expect(completeUploadResponse.safeParse(valid).success).toBe(true);
+    });
+
+    it("rejects without key", () => {
+      const invalid = { message: "done", url: "https://cdn.korner.lol/user/f.mp4" };
+      expect(completeUploadResponse.safeParse(invalid).success).toBe(false);
+    });
+  });
+
+  describe("abortUploadResponse", () => {
+    it("accepts aborted upload", () => {
+      const valid = { success: true, message: "Upload aborted successfully" };
+      expect(abortUploadResponse.safeParse(valid).success).toBe(true);
+    });
+  });
+
+  describe("multipartUploadErrorResponse", () => {
+    it("accepts standard error", () => {
+      const valid = { error: { code: "UPLOAD_INCOMPLETE", message: "Missing parts: 3" } };
+      expect(multipartUploadErrorResponse.safeParse(valid).success).toBe(true);
+    });
+
+    it("rejects flat error", () => {
+      expect(multipartUploadErrorResponse.safeParse({ error: "bad" }).success).toBe(false);
+    });
+  });
+});
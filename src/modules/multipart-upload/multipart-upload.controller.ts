@@ -0,0 +1,73 @@
+import { Response } from "express";
+
+import { MultipartUploadError, multipartUploadService } from "./multipart-upload.service";
+import { AuthenticatedRequest } from "../../middleware/subscription.middleware";
+import { ERROR_CODES } from "../../utils/errorCodes";
+import { logger } from "../../utils/logger";
+
+function handleError(error: unknown, res: Response, logPrefix: string) {
+  if (error instanceof MultipartUploadError) {
+    return res
+      .status(error.statusCode)
+      .json({ error: { code: error.code, message: error.message } });
+  }
+  logger.error(`${logPrefix}:`, { error: String(error) });
+  return res
+    .status(500)
+    .json({ error: { code: ERROR_CODES.SERVER_ERROR, message: "Internal server error" } });
+}
+
+export async function initiateUpload(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const { filename, mimetype, size, kind } = req.body;
+    const result = await multipartUploadService.initiate(req.user!, {
+      filename,
+      mimetype,
+      size,
+      kind,
+    });
+    res.status(200).json(result);
+  } catch (error) {
+    handleError(error, res, "Error initiating multipart upload");
+  }
+}
+
+export async function getUploadStatus(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const result = await multipartUploadService.getStatus(req.user!.username, req.params.uploadId);
+    res.status(200).json(result);
+  } catch (error) {
+    handleError(error, res, "Error retrieving multipart upload status");
+  }
+}
+
+export async function presignParts(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const result = await multipartUploadService.presignParts(
+      req.user!.username,
+      req.params.uploadId,
+      req.body.partNumbers
+    );
+    res.status(200).json(result);
+  } catch (error) {
+    handleError(error, res, "Error presigning multipart upload parts");
+  }
+}
+
+export async function completeUpload(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const result = await multipartUploadService.complete(req.user!, req.params.uploadId);
+    res.status(200).json(result);
+  } catch (error) {
+    handleError(error, res, "Error completing multipart upload");
+  }
+}
+
+export async function abortUpload(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const result = await multipartUploadService.abort(req.user!.username, req.params.uploadId);
+    res.status(200).json(result);
+  } catch (error) {
+    handleError(error, res, "Error aborting multipart upload");
+  }
+}
@@ -0,0 +1,70 @@
+import cors from "cors";
+import { Router } from "express";
+import rateLimit from "express-rate-limit";
+
+import * as multipartUploadController from "./multipart-upload.controller";
+import { authenticateUser } from "../../middleware/subscription.middleware";
+
+const router = Router();
+
+const allowedOrigins = ["https://korner.pro", "https://korner.lol", "http://localhost:6969"];
+
+const corsOptions = {
+  origin: (
+    origin: string | undefined,
+    callback: (_err: Error | null, _allow?: boolean) => void
+  ) => {
+    if (!origin || allowedOrigins.includes(origin)) {
+      callback(null, true);
+    } else {
+      callback(new Error("Not allowed by CORS"));
+    }
+  },
+  credentials: true,
+  methods: ["GET", "POST", "DELETE", "OPTIONS"],
+  allowedHeaders: ["Content-Type", "Authorization"],
+};
+
+const initiateLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  max: 20,
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: { error: { code: "RATE_LIMIT_EXCEEDED", message: "Too many uploads, try again later" } },
+});
+
+router.options("*", cors(corsOptions));
+
+router.post(
+  "/initiate",
+  cors(corsOptions),
+  initiateLimiter,
+  authenticateUser,
+  multipartUploadController.initiateUpload
+);
+router.get(
+  "/:uploadId",
+  cors(corsOptions),
+  authenticateUser,
+  multipartUploadController.getUploadStatus
+);
+router.post(
+  "/:uploadId/parts",
+  cors(corsOptions),
+  authenticateUser,
+  multipartUploadController.presignParts
+);
+router.post(
+  "/:uploadId/complete",
+  cors(corsOptions),
+  authenticateUser,
+  multipartUploadController.completeUpload
+);
+router.delete(
+  "/:uploadId",
+  cors(corsOptions),
+  authenticateUser,
+  multipartUploadController.abortUpload
+);
+
+export default router;
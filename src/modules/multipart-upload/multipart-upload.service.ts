@@ -0,0 +1,494 @@
+import {
+  AbortMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
+  CreateMultipartUploadCommand,
+  CopyObjectCommand,
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListMultipartUploadsCommand,
+  ListPartsCommand,
+  Part,
+  UploadPartCommand,
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { Readable } from "stream";
+
+import { cacheValues } from "../../utils/cache";
+import { ERROR_CODES } from "../../utils/errorCodes";
+import { generateSafeFilename } from "../../utils/file";
+import { resolveFileType, SNIFF_LENGTH } from "../../utils/fileType";
+import { logger } from "../../utils/logger";
+import redis from "../../utils/redis";
+import s3Client from "../../utils/s3";
+import { queueReplication, streamToBuffer } from "../../utils/s3.utils";
+import { checkStorageQuota, UploadOwner } from "../../utils/storageQuota";
+import { recordObjectStored } from "../../utils/storageUsage";
+import { MEDIA_UPLOAD_RULES } from "../s3/s3.service";
+
+export class MultipartUploadError extends Error {
+  code: string;
+  statusCode: number;
+
+  constructor(code: string, message: string, statusCode: number) {
+    super(message);
+    this.code = code;
+    this.statusCode = statusCode;
+  }
+}
+
+type MediaKind = "audio" | "video";
+
+interface MultipartSession {
+  uploadId: string;
+  username: string;
+  /** Where the parts are assembled; the file only reaches `key` once it has been checked. */
+  stagingKey: string;
+  key: string;
+  kind: MediaKind;
+  mimetype: string;
+  size: number;
+  partSize: number;
+  partCount: number;
+  createdAt: string;
+  /** The parts are assembled at the staging key and passed the checks. */
+  completed?: boolean;
+  /** The checked file has been copied to its final key. */
+  finalized?: boolean;
+}
+
+interface InitiateParams {
+  filename?: string;
+  mimetype?: string;
+  size?: number;
+  kind?: string;
+}
+
+const MB = 1024 * 1024;
+const DEFAULT_PART_SIZE = 10 * MB;
+const MAX_PARTS = 10000;
+const MAX_PARTS_PER_PRESIGN = 100;
+const PART_URL_EXPIRES_IN = 3600;
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+function getMaxSize(kind: MediaKind): number {
+  if (kind === "video") return Number(process.env.MULTIPART_MAX_VIDEO_SIZE) || 2048 * MB;
+  return Number(process.env.MULTIPART_MAX_AUDIO_SIZE) || 500 * MB;
+}
+
+function getPublicBucket(): string {
+  return process.env.ACTIVE_ENV === "prod" ? "korner-pro" : "korner-lol";
+}
+
+function getCdnDomain(): string {
+  return process.env.ACTIVE_ENV === "prod" ? "https://cdn.korner.pro" : "https://cdn.korner.lol";
+}
+
+function getSessionKey(uploadId: string): string {
+  return `multipart:${uploadId}`;
+}
+
+/**
+ * Parts must be at least 5 MB (except the last) and S3 allows at most 10,000 of them, so very
+ * large files get proportionally larger parts rounded up to a whole megabyte.
+ */
+function calculatePartSize(size: number): number {
+  const minimumForPartLimit = Math.ceil(size / MAX_PARTS / MB) * MB;
+  return Math.max(DEFAULT_PART_SIZE, minimumForPartLimit);
+}
+
+async function saveSession(session: MultipartSession): Promise<void> {
+  await redis.setex(getSessionKey(session.uploadId), cacheValues.day, JSON.stringify(session));
+}
+
+class MultipartUploadService {
+  async initiate(owner: UploadOwner, params: InitiateParams) {
+    const { filename, mimetype, kind } = params;
+    const size = Number(params.size);
+
+    if (!filename || !mimetype || !kind) {
+      throw new MultipartUploadError(
+        ERROR_CODES.BAD_REQUEST,
+        "filename, mimetype, size and kind are required",
+        400
+      );
+    }
+
+    if (kind !== "audio" && kind !== "video") {
+      throw new MultipartUploadError(ERROR_CODES.BAD_REQUEST, "kind must be audio or video", 400);
+    }
+
+    if (!MEDIA_UPLOAD_RULES[kind].allowedTypes.includes(mimetype)) {
+      throw new MultipartUploadError(
+        ERROR_CODES.BARS_INVALID_FILE_TYPE,
+        `Invalid ${kind} type. Allowed: ${MEDIA_UPLOAD_RULES[kind].label}`,
+        400
+      );
+    }
+
+    const maxSize = getMaxSize(kind);
+    if (!Number.isInteger(size) || size <= 0 || size > maxSize) {
+      throw new MultipartUploadError(
+        ERROR_CODES.BAD_REQUEST,
+        `${kind === "audio" ? "Audio" : "Video"} file size must be between 1 byte and ${Math.floor(maxSize / MB)} MB`,
+        400
+      );
+    }
+
+    const quota = await checkStorageQuota(owner, size);
+    if (!quota.allowed) {
+      throw new MultipartUploadError(ERROR_CODES.STORAGE_QUOTA_EXCEEDED, quota.message!, 403);
+    }
+
+    const { username } = owner;
+    const filenameInBucket = generateSafeFilename(filename, mimetype);
+    const key = `${username}/${filenameInBucket}`;
+    const stagingKey = `.incoming/${username}/${filenameInBucket}`;
+    const { UploadId } = await s3Client.send(
+      new CreateMultipartUploadCommand({
+        Bucket: getPublicBucket(),
+        Key: stagingKey,
+        ContentType: mimetype,
+        CacheControl: "public, max-age=31536000, immutable",
+      })
+    );
+
+    if (!UploadId) {
+      throw new Error(`CreateMultipartUpload returned no UploadId for ${key}`);
+    }
+
+    const partSize = calculatePartSize(size);
+    const session: MultipartSession = {
+      uploadId: UploadId,
+      username,
+      stagingKey,
+      key,
+      kind,
+      mimetype,
+      size,
+      partSize,
+      partCount: Math.ceil(size / partSize),
+      createdAt: new Date().toISOString(),
+    };
+    await saveSession(session);
+
+    return {
+      uploadId: session.uploadId,
+      key: session.key,
+      partSize: session.partSize,
+      partCount: session.partCount,
+    };
+  }
+
+  async getStatus(username: string, uploadId: string) {
+    const session = await this.getSession(username, uploadId);
+    const parts = session.completed ? [] : await this.listUploadedParts(session);
+
+    return {
+      uploadId: session.uploadId,
+      key: session.key,
+      partSize: session.partSize,
+      partCount: session.partCount,
+      completed: Boolean(session.completed),
+      uploadedParts: parts.map((part) => ({
+        partNumber: part.PartNumber!,
+        etag: part.ETag!,
+        size: part.Size!,
+      })),
+    };
+  }
+
+  async presignParts(username: string, uploadId: string, partNumbers: unknown) {
+    const session = await this.getSession(username, uploadId);
+
+    if (
+      !Array.isArray(partNumbers) ||
+      partNumbers.length === 0 ||
+      partNumbers.length > MAX_PARTS_PER_PRESIGN
+    ) {
+      throw new MultipartUploadError(
+        ERROR_CODES.BAD_REQUEST,
+        `partNumbers must be an array of 1 to ${MAX_PARTS_PER_PRESIGN} part numbers`,
+        400
+      );
+    }
+
+    const invalid = partNumbers.find(
+      (partNumber) =>
+        !Number.isInteger(partNumber) || partNumber < 1 || partNumber > session.partCount
+    );
+    if (invalid !== undefined) {
+      throw new MultipartUploadError(
+        ERROR_CODES.BAD_REQUEST,
+        `Part numbers must be integers between 1 and ${session.partCount}`,
+        400
+      );
+    }
+
+    const parts = await Promise.all(
+      (partNumbers as number[]).map(async (partNumber) => ({
+        partNumber,
+        url: await getSignedUrl(
+          s3Client,
+          new UploadPartCommand({
+            Bucket: getPublicBucket(),
+            Key: session.stagingKey,
+            UploadId: session.uploadId,
+            PartNumber: partNumber,
+          }),
+          { expiresIn: PART_URL_EXPIRES_IN }
+        ),
+      }))
+    );
+
+    return { parts, expiresIn: PART_URL_EXPIRES_IN };
+  }
+
+  /**
+   * Assembles the parts under `.incoming/` once all of them are uploaded, and copies the file
+   * to its public key only after the quota, size and content checks pass. A file that fails
+   * a check is discarded without ever being reachable.
+   */
+  async complete(owner: UploadOwner, uploadId: string) {
+    const session = await this.getSession(owner.username, uploadId);
+
+    // A previous attempt may have assembled and checked the file but failed to copy or queue it
+    if (!session.completed) {
+      const parts = await this.listUploadedParts(session);
+      const uploaded = new Set(parts.map((part) => part.PartNumber));
+      const missing: number[] = [];
+      for (let partNumber = 1; partNumber <= session.partCount; partNumber++) {
+        if (!uploaded.has(partNumber)) missing.push(partNumber);
+      }
+
+      if (missing.length > 0) {
+        throw new MultipartUploadError(
+          ERROR_CODES.UPLOAD_INCOMPLETE,
+          `Missing parts: ${missing.slice(0, 20).join(", ")}${missing.length > 20 ? ", ..." : ""}`,
+          409
+        );
+      }
+
+      const quota = await checkStorageQuota(owner, session.size);
+      if (!quota.allowed) {
+        await this.abortSession(session);
+        throw new MultipartUploadError(ERROR_CODES.STORAGE_QUOTA_EXCEEDED, quota.message!, 403);
+      }
+
+      await s3Client.send(
+        new CompleteMultipartUploadCommand({
+          Bucket: getPublicBucket(),
+          Key: session.stagingKey,
+          UploadId: session.uploadId,
+          MultipartUpload: {
+            Parts: parts.map((part) => ({ PartNumber: part.PartNumber, ETag: part.ETag })),
+          },
+        })
+      );
+
+      const head = await s3Client.send(
+        new HeadObjectCommand({ Bucket: getPublicBucket(), Key: session.stagingKey })
+      );
+      if (head.ContentLength !== session.size) {
+        await this.discardCompletedUpload(session);
+        throw new MultipartUploadError(
+          ERROR_CODES.BAD_REQUEST,
+          `Uploaded size ${head.ContentLength} does not match declared size ${session.size}`,
+          400
+        );
+      }
+
+      if (!(await this.contentMatches(session))) {
+        await this.discardCompletedUpload(session);
+        throw new MultipartUploadError(
+          ERROR_CODES.FILE_TYPE_MISMATCH,
+          `File content does not match declared type ${session.mimetype}`,
+          400
+        );
+      }
+
+      session.completed = true;
+      await saveSession(session);
+    }
+
+    if (!session.finalized) {
+      await s3Client.send(
+        new CopyObjectCommand({
+          Bucket: getPublicBucket(),
+          CopySource: `${getPublicBucket()}/${session.stagingKey}`,
+          Key: session.key,
+          ContentType: session.mimetype,
+          CacheControl: "public, max-age=31536000, immutable",
+          MetadataDirective: "REPLACE",
+        })
+      );
+      session.finalized = true;
+      await saveSession(session);
+      await s3Client.send(
+        new DeleteObjectCommand({ Bucket: getPublicBucket(), Key: session.stagingKey })
+      );
+    }
+
+    await queueReplication("put", session.key);
+    await redis.del(getSessionKey(session.uploadId));
+    await recordObjectStored(session.key, session.size);
+
+    logger.info(`[multipart] Completed upload ${session.key} (${session.size} bytes)`);
+
+    return {
+      message: `${session.kind === "audio" ? "Audio" : "Video"} uploaded successfully`,
+      url: `${getCdnDomain()}/${session.key}`,
+      key: session.key,
+    };
+  }
+
+  async abort(username: string, uploadId: string) {
+    const session = await this.getSession(username, uploadId);
+
+    if (session.completed) {
+      throw new MultipartUploadError(
+        ERROR_CODES.BAD_REQUEST,
+        "Upload is already completed and can no longer be aborted",
+        409
+      );
+    }
+
+    await this.abortSession(session);
+
+    return { success: true as const, message: "Upload aborted successfully" };
+  }
+
+  /**
+   * Aborts uploads started longer ago than a session lives, so parts of abandoned uploads stop
+   * taking up space. Works from S3's list of open uploads rather than the sessions, which have
+   * expired by then; another instance aborting the same upload first is not an error.
+   */
+  async sweepExpiredUploads(): Promise<number> {
+    const cutoff = Date.now() - cacheValues.day * 1000;
+    let keyMarker: string | undefined;
+    let uploadIdMarker: string | undefined;
+    let aborted = 0;
+
+    do {
+      const response = await s3Client.send(
+        new ListMultipartUploadsCommand({
+          Bucket: getPublicBucket(),
+          // tus stages its chunks under `.tus/` and cleans them up on its own expiry
+          Prefix: ".incoming/",
+          KeyMarker: keyMarker,
+          UploadIdMarker: uploadIdMarker,
+        })
+      );
+
+      for (const upload of response.Uploads || []) {
+        if (!upload.Initiated || upload.Initiated.getTime() > cutoff) continue;
+        try {
+          await s3Client.send(
+            new AbortMultipartUploadCommand({
+              Bucket: getPublicBucket(),
+              Key: upload.Key,
+              UploadId: upload.UploadId,
+            })
+          );
+          aborted++;
+        } catch (error: any) {
+          if (error.name !== "NoSuchUpload") throw error;
+        }
+      }
+
+      keyMarker = response.IsTruncated ? response.NextKeyMarker : undefined;
+      uploadIdMarker = response.IsTruncated ? response.NextUploadIdMarker : undefined;
+    } while (keyMarker);
+
+    return aborted;
+  }
+
+  startExpiredUploadSweeper(): NodeJS.Timeout {
+    const timer = setInterval(() => {
+      this.sweepExpiredUploads()
+        .then((aborted) => {
+          if (aborted > 0) logger.info(`[multipart] Aborted ${aborted} expired uploads`);
+        })
+        .catch((error) =>
+          logger.error("[multipart] Expired upload sweep failed:", { error: String(error) })
+        );
+    }, SWEEP_INTERVAL_MS);
+    timer.unref();
+    return timer;
+  }
+
+  private async abortSession(session: MultipartSession): Promise<void> {
+    await s3Client.send(
+      new AbortMultipartUploadCommand({
+        Bucket: getPublicBucket(),
+        Key: session.stagingKey,
+        UploadId: session.uploadId,
+      })
+    );
+    await redis.del(getSessionKey(session.uploadId));
+  }
+
+  private async discardCompletedUpload(session: MultipartSession): Promise<void> {
+    await s3Client.send(
+      new DeleteObjectCommand({ Bucket: getPublicBucket(), Key: session.stagingKey })
+    );
+    await redis.del(getSessionKey(session.uploadId));
+  }
+
+  private async contentMatches(session: MultipartSession): Promise<boolean> {
+    const response = await s3Client.send(
+      new GetObjectCommand({
+        Bucket: getPublicBucket(),
+        Key: session.stagingKey,
+        Range: `bytes=0-${SNIFF_LENGTH - 1}`,
+      })
+    );
+    const head = await streamToBuffer(response.Body as Readable);
+    return resolveFileType(head, session.mimetype) !== null;
+  }
+
+  private async getSession(username: string, uploadId: string): Promise<MultipartSession> {
+    const raw = uploadId ? await redis.get(getSessionKey(uploadId)) : null;
+    if (!raw) {
+      throw new MultipartUploadError(
+        ERROR_CODES.UPLOAD_SESSION_NOT_FOUND,
+        "Upload session not found or expired",
+        404
+      );
+    }
+
+    const session: MultipartSession = JSON.parse(raw);
+    if (session.username !== username) {
+      throw new MultipartUploadError(
+        ERROR_CODES.ACCESS_DENIED,
+        "You do not have permission to access this upload",
+        403
+      );
+    }
+
+    return session;
+  }
+
+  private async listUploadedParts(session: MultipartSession): Promise<Part[]> {
+    const parts: Part[] = [];
+    let partNumberMarker: string | undefined;
+
+    do {
+      const response = await s3Client.send(
+        new ListPartsCommand({
+          Bucket: getPublicBucket(),
+          Key: session.stagingKey,
+          UploadId: session.uploadId,
+          PartNumberMarker: partNumberMarker,
+        })
+      );
+
+      if (response.Parts) parts.push(...response.Parts);
+      partNumberMarker = response.IsTruncated ? response.NextPartNumberMarker : undefined;
+    } while (partNumberMarker);
+
+    return parts;
+  }
+}
+
+export const multipartUploadService = new MultipartUploadService();
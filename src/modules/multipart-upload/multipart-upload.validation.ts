@@ -0,0 +1,49 @@
+import { z } from "zod";
+
+import {
+  errorResponse,
+  messageUrlResponse,
+  successMessageResponse,
+} from "../../schemas/response.schema";
+
+// --- Response Schemas ---
+
+export const initiateUploadResponse = z.object({
+  uploadId: z.string(),
+  key: z.string(),
+  partSize: z.number(),
+  partCount: z.number(),
+});
+
+export const uploadStatusResponse = z.object({
+  uploadId: z.string(),
+  key: z.string(),
+  partSize: z.number(),
+  partCount: z.number(),
+  completed: z.boolean(),
+  uploadedParts: z.array(
+    z.object({
+      partNumber: z.number(),
+      etag: z.string(),
+      size: z.number(),
+    })
+  ),
+});
+
+export const presignPartsResponse = z.object({
+  parts: z.array(
+    z.object({
+      partNumber: z.number(),
+      url: z.string(),
+    })
+  ),
+  expiresIn: z.number(),
+});
+
+export const completeUploadResponse = messageUrlResponse.extend({
+  key: z.string(),
+});
+
+export const abortUploadResponse = successMessageResponse;
+
+export const multipartUploadErrorResponse = errorResponse;
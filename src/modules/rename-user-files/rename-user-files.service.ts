@@ -1,8 +1,18 @@
+import { invalidateDiskCachePrefix } from "../../utils/diskCache";
 import { renameUserFilesInAllBuckets, RenameResult } from "../../utils/renameUserFiles";
+import { invalidateStorageUsage } from "../../utils/storageUsage";
+import { renameTrashIndex } from "../../utils/trash";
 
 export async function renameUserFiles(
   oldUsername: string,
   newUsername: string
 ): Promise<RenameResult> {
-  return renameUserFilesInAllBuckets(oldUsername, newUsername);
+  const result = await renameUserFilesInAllBuckets(oldUsername, newUsername);
+  // Even a partial rename moves objects between prefixes, so both users recount on next read
+  await Promise.all([invalidateStorageUsage(oldUsername), invalidateStorageUsage(newUsername)]);
+  // Trashed files moved with the prefix, so the purge has to find them under the new name
+  if (result.filesRenamed > 0) await renameTrashIndex(oldUsername, newUsername);
+  // Cached copies would keep serving files under names that no longer exist
+  await invalidateDiskCachePrefix(`${oldUsername}/`);
+  return result;
 }
@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { FakeS3Client } from "../../../__tests__/helpers/fakeS3Client";
+import s3Client from "../../../utils/s3";
+import { deleteFromBothBuckets, uploadToBothBuckets } from "../../../utils/s3.utils";
+import ys3Client from "../../../utils/ys3";
+import { replicationService } from "../replication.service";
+
+const primary = s3Client as unknown as FakeS3Client;
+const yandex = ys3Client as unknown as FakeS3Client;
+
+// Just enough of a Redis stream with one consumer group for the outbox
+const { store } = vi.hoisted(() => ({
+  store: {
+    nextId: 0,
+    stream: [] as Array<{ id: string; fields: string[]; delivered: boolean }>,
+    retries: new Map<string, number>(),
+    deadLetters: [] as string[],
+  },
+}));
+
+vi.mock("../../../utils/s3", async () => {
+  const { createFakeS3Client } = await import("../../../__tests__/helpers/fakeS3Client");
+  return { default: createFakeS3Client() };
+});
+vi.mock("../../../utils/ys3", async () => {
+  const { createFakeS3Client } = await import("../../../__tests__/helpers/fakeS3Client");
+  return { default: createFakeS3Client() };
+});
+vi.mock("../../../utils/redis", () => {
+  const commands = {
+    xadd: async (_key: string, _id: string, ...fields: string[]) => {
+      const id = `${++store.nextId}-0`;
+      store.stream.push({ id, fields, delivered: false });
+      return id;
+    },
+    xgroup: async () => "OK",
+    xautoclaim: async () => ["0-0", []],
+    xreadgroup: async () => {
+      const entries = store.stream.filter((entry) => !entry.delivered);
+      entries.forEach((entry) => (entry.delivered = true));
+      return [["replication:outbox", entries.map((entry) => [entry.id, entry.fields])]];
+    },
+    xack: async () => 1,
+    xdel: async (_key: string, id: string) => {
+      store.stream = store.stream.filter((entry) => entry.id !== id);
+      return 1;
+    },
+    xlen: async () => store.stream.length,
+    zadd: async (_key: string, score: number, member: string) => store.retries.set(member, score),
+    zrangebyscore: async (_key: string, min: number, max: number) =>
+      Array.from(store.retries.keys()).filter((member) => {
+        const score = store.retries.get(member)!;
+        return score >= min && score <= max;
+      }),
+    zcard: async () => store.retries.size,
+    lpush: async (_key: string, value: string) => store.deadLetters.unshift(value),
+    lrange: async () => store.deadLetters.slice(),
+    llen: async () => store.deadLetters.length,
+    // The requeue scripts: remove the member from the retry set or dead-letter list, then XADD
+    eval: async (script: string, _keys: number, _from: string, _to: string, ...args: string[]) => {
+      if (!script.includes("XADD")) return 0;
+      const [member, ...fields] = args;
+      const removed = script.includes("ZREM")
+        ? store.retries.delete(member)
+        : store.deadLetters.indexOf(member) >= 0 &&
+          store.deadLetters.splice(store.deadLetters.indexOf(member), 1).length > 0;
+      if (!removed) return 0;
+      await commands.xadd("replication:outbox", "*", ...fields);
+      return 1;
+    },
+    smembers: async () => [],
+    del: async () => 0,
+  };
+  const multi = () => {
+    const queued: Array<() => Promise<unknown>> = [];
+    const transaction: Record<string, unknown> = {
+      exec: async () => {
+        for (const command of queued) await command();
+        return [];
+      },
+    };
+    for (const name of ["xack", "xdel", "zadd", "lpush"] as const) {
+      transaction[name] = (...args: unknown[]) => {
+        queued.push(() => (commands[name] as (..._args: unknown[]) => Promise<unknown>)(...args));
+        return transaction;
+      };
+    }
+    return transaction;
+  };
+  return { default: { ...commands, multi } };
+});
+
+const KEY = "alice/a-0001-image.webp";
+const BODY = Buffer.from("image-bytes");
+
+describe("replication outbox", () => {
+  beforeEach(() => {
+    primary.reset();
+    yandex.reset();
+    store.stream = [];
+    store.retries.clear();
+    store.deadLetters = [];
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    delete process.env.REPLICATION_MAX_ATTEMPTS;
+  });
+
+  it("accepts uploads while Yandex is down and copies them once it is back", async () => {
+    yandex.failure = new Error("ServiceUnavailable");
+    await expect(
+      uploadToBothBuckets("alice", BODY, "a-0001-image.webp", "image/webp")
+    ).resolves.toBe(`https://cdn.korner.lol/${KEY}`);
+    expect(primary.objects.get(KEY)).toEqual(BODY);
+
+    await expect(replicationService.processOutbox()).resolves.toBe(0);
+    await expect(replicationService.getStatus()).resolves.toEqual({
+      queued: 0,
+      retrying: 1,
+      deadLetters: 0,
+    });
+
+    yandex.failure = null;
+    const now = Date.now();
+    vi.spyOn(Date, "now").mockReturnValue(now + 5000);
+    await expect(replicationService.processOutbox()).resolves.toBe(1);
+    expect(yandex.objects.get(KEY)).toEqual(BODY);
+  });
+
+  it("dead-letters a task that keeps failing and replays it on request", async () => {
+    process.env.REPLICATION_MAX_ATTEMPTS = "1";
+    yandex.failure = new Error("AccessDenied");
+    await uploadToBothBuckets("alice", BODY, "a-0001-image.webp", "image/webp");
+    await replicationService.processOutbox();
+
+    const { deadLetters } = await replicationService.listDeadLetters();
+    expect(deadLetters).toEqual([
+      expect.objectContaining({ op: "put", key: KEY, attempts: 1, error: "AccessDenied" }),
+    ]);
+
+    yandex.failure = null;
+    await expect(replicationService.retryDeadLetters([deadLetters[0].id])).resolves.toEqual({
+      requeued: 1,
+    });
+    await expect(replicationService.processOutbox()).resolves.toBe(1);
+    expect(yandex.objects.get(KEY)).toEqual(BODY);
+  });
+
+  it("follows the primary's current state rather than the queued operation", async () => {
+    await uploadToBothBuckets("alice", BODY, "a-0001-image.webp", "image/webp");
+    await deleteFromBothBuckets("alice", KEY);
+    await uploadToBothBuckets("alice", Buffer.from("new-bytes"), "a-0001-image.webp", "image/webp");
+
+    await expect(replicationService.processOutbox()).resolves.toBe(3);
+    expect(yandex.objects.get(KEY)).toEqual(Buffer.from("new-bytes"));
+  });
+});
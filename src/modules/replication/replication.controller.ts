@@ -0,0 +1,44 @@
+import { Request, Response } from "express";
+
+import { replicationService } from "./replication.service";
+import { ERROR_CODES } from "../../utils/errorCodes";
+import { logger } from "../../utils/logger";
+
+function sendServerError(res: Response, message: string, error: unknown) {
+  logger.error(message, { error: String(error) });
+  res.status(500).json({ error: { code: ERROR_CODES.SERVER_ERROR, message: "Internal error" } });
+}
+
+export async function getStatus(_req: Request, res: Response): Promise<void> {
+  try {
+    res.status(200).json(await replicationService.getStatus());
+  } catch (error) {
+    sendServerError(res, "Error reading replication status", error);
+  }
+}
+
+export async function listDeadLetters(_req: Request, res: Response): Promise<void> {
+  try {
+    res.status(200).json(await replicationService.listDeadLetters());
+  } catch (error) {
+    sendServerError(res, "Error listing replication dead letters", error);
+  }
+}
+
+export async function retryDeadLetters(req: Request, res: Response): Promise<void> {
+  try {
+    const { ids } = req.body || {};
+    if (
+      ids !== undefined &&
+      (!Array.isArray(ids) || ids.some((id: unknown) => typeof id !== "string"))
+    ) {
+      res.status(400).json({
+        error: { code: ERROR_CODES.VALIDATION_ERROR, message: "ids must be an array of strings" },
+      });
+      return;
+    }
+    res.status(200).json(await replicationService.retryDeadLetters(ids));
+  } catch (error) {
+    sendServerError(res, "Error retrying replication dead letters", error);
+  }
+}
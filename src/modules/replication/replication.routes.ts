@@ -0,0 +1,11 @@
+import { Router } from "express";
+
+import * as replicationController from "./replication.controller";
+
+const router = Router();
+
+router.get("/status", replicationController.getStatus);
+router.get("/dead-letter", replicationController.listDeadLetters);
+router.post("/dead-letter/retry", replicationController.retryDeadLetters);
+
+export default router;
@@ -0,0 +1,76 @@
+import { logger } from "../../utils/logger";
+import {
+  claimReplicationTasks,
+  completeReplicationTask,
+  DeadLetter,
+  failReplicationTask,
+  getReplicationStatus,
+  listDeadLetters,
+  ReplicationStatus,
+  retryDeadLetters,
+} from "../../utils/replicationOutbox";
+import { syncToYandex } from "../../utils/s3.utils";
+
+const WORKER_INTERVAL_MS = 1000;
+const WORKER_BATCH_SIZE = 20;
+
+class ReplicationService {
+  private processing = false;
+
+  /**
+   * Applies a batch of queued tasks to Yandex. Resolves how many were replicated; failures are
+   * rescheduled or dead-lettered by the outbox.
+   */
+  async processOutbox(): Promise<number> {
+    const tasks = await claimReplicationTasks(WORKER_BATCH_SIZE);
+
+    let replicated = 0;
+    for (const task of tasks) {
+      try {
+        await syncToYandex(task.key);
+        await completeReplicationTask(task);
+        replicated++;
+      } catch (error) {
+        const deadLettered = await failReplicationTask(task, error);
+        const log = deadLettered ? logger.error : logger.warn;
+        log(`[replication] Failed to ${task.op} ${task.key} in Yandex`, {
+          attempt: task.attempts + 1,
+          deadLettered,
+          error: String(error),
+        });
+      }
+    }
+    return replicated;
+  }
+
+  startWorker(): NodeJS.Timeout {
+    const timer = setInterval(() => {
+      // A slow batch must not overlap the next tick, or both would claim the same retries
+      if (this.processing) return;
+      this.processing = true;
+      this.processOutbox()
+        .catch((error) =>
+          logger.error("[replication] Outbox processing failed:", { error: String(error) })
+        )
+        .finally(() => {
+          this.processing = false;
+        });
+    }, WORKER_INTERVAL_MS);
+    timer.unref();
+    return timer;
+  }
+
+  getStatus(): Promise<ReplicationStatus> {
+    return getReplicationStatus();
+  }
+
+  async listDeadLetters(): Promise<{ deadLetters: DeadLetter[] }> {
+    return { deadLetters: await listDeadLetters() };
+  }
+
+  async retryDeadLetters(ids?: string[]): Promise<{ requeued: number }> {
+    return { requeued: await retryDeadLetters(ids) };
+  }
+}
+
+export const replicationService = new ReplicationService();
@@ -2,9 +2,12 @@ import { describe, it, expect } from "vitest";
 
 import {
   generateUploadPresignedUrlResponse,
+  confirmUploadResponse,
   generateAccessPresignedUrlResponse,
   getFileMetadataResponse,
   deletePrivateFileResponse,
+  listPrivateTrashResponse,
+  restorePrivateFileResponse,
   s3PrivateErrorResponse,
 } from "../s3-private.validation";
 
@@ -25,6 +28,23 @@ describe("s3-private response contracts", () => {
     });
   });
 
+  describe("confirmUploadResponse", () => {
+    it("accepts confirmed upload", () => {
+      const valid = {
+        success: true,
+        key: "user/file.pdf",
+        size: 52341,
+        contentType: "application/pdf",
+      };
+      expect(confirmUploadResponse.safeParse(valid).success).toBe(true);
+    });
+
+    it("rejects without size", () => {
+      const invalid = { success: true, key: "user/file.pdf", contentType: "application/pdf" };
+      expect(confirmUploadResponse.safeParse(invalid).success).toBe(false);
+    });
+  });
+
   describe("generateAccessPresignedUrlResponse", () => {
     it("accepts valid access presigned url", () => {
       const valid = {
@@ -54,6 +74,31 @@ describe("s3-private response contracts", () => {
       expect(getFileMetadataResponse.safeParse(valid).success).toBe(true);
     });
 
+    it("accepts metadata with image placeholder", () => {
+      const valid = {
+        key: "user/file.webp",
+        metadata: {
+          contentType: "image/webp",
+          metadata: { blurhash: "LEHV6nWB2yk8pyo0adR*.7kCMdnj", "dominant-color": "#0898e8" },
+        },
+        placeholder: {
+          blurhash: "LEHV6nWB2yk8pyo0adR*.7kCMdnj",
+          lqip: "data:image/webp;base64,UklGRjIAAABXRUJQ",
+          dominantColor: "#0898e8",
+        },
+      };
+      expect(getFileMetadataResponse.safeParse(valid).success).toBe(true);
+    });
+
+    it("rejects incomplete image placeholder", () => {
+      const invalid = {
+        key: "user/file.webp",
+        metadata: {},
+        placeholder: { blurhash: "LEHV6nWB2yk8pyo0adR*.7kCMdnj" },
+      };
+      expect(getFileMetadataResponse.safeParse(invalid).success).toBe(false);
+    });
+
     it("accepts minimal metadata", () => {
       const valid = { key: "user/file.webp", metadata: {} };
       expect(getFileMetadataResponse.safeParse(valid).success).toBe(true);
@@ -66,7 +111,13 @@ describe("s3-private response contracts", () => {
 
   describe("deletePrivateFileResponse", () => {
     it("accepts valid delete response", () => {
-      const valid = { success: true, message: "File deleted successfully", key: "user/file.webp" };
+      const valid = {
+        success: true,
+        message: "File moved to trash",
+        key: "user/file.pdf",
+        trashKey: "user/.trash/1760000000000/file.pdf",
+        expiresAt: "2025-11-08T08:53:20.000Z",
+      };
       expect(deletePrivateFileResponse.safeParse(valid).success).toBe(true);
     });
 
@@ -77,6 +128,28 @@ describe("s3-private response contracts", () => {
     });
   });
 
+  describe("trash responses", () => {
+    it("accepts trash listing", () => {
+      const valid = {
+        files: [
+          {
+            key: "user/.trash/1760000000000/file.pdf",
+            originalKey: "user/file.pdf",
+            size: 4096,
+            deletedAt: "2025-10-09T08:53:20.000Z",
+            expiresAt: "2025-11-08T08:53:20.000Z",
+          },
+        ],
+      };
+      expect(listPrivateTrashResponse.safeParse(valid).success).toBe(true);
+    });
+
+    it("accepts restore response", () => {
+      const valid = { success: true, message: "File restored successfully", key: "user/file.pdf" };
+      expect(restorePrivateFileResponse.safeParse(valid).success).toBe(true);
+    });
+  });
+
   describe("s3PrivateErrorResponse", () => {
     it("accepts standard error", () => {
       const valid = { error: { code: "BAD_REQUEST", message: "File key is required" } };
@@ -0,0 +1,152 @@
+import { Readable } from "stream";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { s3PrivateService } from "../s3-private.service";
+
+const { store, pending, objects, deleted, quota } = vi.hoisted(() => ({
+  store: new Map<string, string>(),
+  pending: new Map<string, number>(),
+  objects: new Map<string, { body: Buffer; contentType: string }>(),
+  deleted: [] as string[],
+  quota: { allowed: true, message: undefined as string | undefined },
+}));
+
+vi.mock("../../../utils/redis", () => ({
+  default: {
+    get: async (key: string) => store.get(key) ?? null,
+    setex: async (key: string, _ttl: number, value: string) => store.set(key, value),
+    del: async (key: string) => (store.delete(key) ? 1 : 0),
+    eval: async () => 0,
+    zadd: async (_set: string, score: number, member: string) => pending.set(member, score),
+    zrem: async (_set: string, member: string) => (pending.delete(member) ? 1 : 0),
+    zrangebyscore: async (_set: string, min: number, max: number) =>
+      Array.from(pending.keys()).filter((member) => {
+        const score = pending.get(member)!;
+        return score >= min && score <= max;
+      }),
+  },
+}));
+
+vi.mock("../../../utils/s3", () => ({
+  default: {
+    async send(command: { constructor: { name: string }; input: Record<string, any> }) {
+      const { Key } = command.input;
+      switch (command.constructor.name) {
+        case "HeadObjectCommand": {
+          const object = objects.get(Key);
+          if (!object) throw Object.assign(new Error("NotFound"), { name: "NotFound" });
+          return { ContentLength: object.body.length, ContentType: object.contentType };
+        }
+        case "GetObjectCommand":
+          return { Body: Readable.from([objects.get(Key)!.body.subarray(0, 4100)]) };
+        case "DeleteObjectCommand":
+          deleted.push(Key);
+          objects.delete(Key);
+          return {};
+        default:
+          throw new Error(`Unexpected ${command.constructor.name}`);
+      }
+    },
+  },
+}));
+
+vi.mock("@aws-sdk/s3-request-presigner", () => ({
+  getSignedUrl: async () => "https://bucket.s3.test/presigned",
+}));
+
+vi.mock("../../../utils/storageQuota", () => ({
+  checkStorageQuota: async () => quota,
+}));
+
+const alice = { id: 1, username: "alice" };
+
+describe("private presigned upload confirmation", () => {
+  beforeEach(() => {
+    quota.allowed = true;
+    quota.message = undefined;
+    store.clear();
+    pending.clear();
+    objects.clear();
+    deleted.length = 0;
+  });
+
+  it("confirms an upload whose bytes match the declared type", async () => {
+    const { key } = await s3PrivateService.generateUploadPresignedUrl(
+      alice,
+      "report.pdf",
+      "application/pdf"
+    );
+    objects.set(key, { body: Buffer.from("%PDF-1.7\n..."), contentType: "application/pdf" });
+
+    await expect(s3PrivateService.confirmUpload(alice, key)).resolves.toMatchObject({
+      success: true,
+      size: 12,
+    });
+    expect(pending.has(key)).toBe(false);
+  });
+
+  it("deletes an upload whose bytes contradict the declared type", async () => {
+    const { key } = await s3PrivateService.generateUploadPresignedUrl(
+      alice,
+      "report.pdf",
+      "application/pdf"
+    );
+    objects.set(key, {
+      body: Buffer.from("MZ\x90\x00binary", "latin1"),
+      contentType: "application/pdf",
+    });
+
+    await expect(s3PrivateService.confirmUpload(alice, key)).rejects.toMatchObject({
+      code: "FILE_TYPE_MISMATCH",
+    });
+    expect(deleted).toEqual([key]);
+  });
+
+  it("deletes an upload that pushed the user over their storage quota", async () => {
+    const { key } = await s3PrivateService.generateUploadPresignedUrl(
+      alice,
+      "report.pdf",
+      "application/pdf"
+    );
+    objects.set(key, { body: Buffer.from("%PDF-1.7\n..."), contentType: "application/pdf" });
+    quota.allowed = false;
+    quota.message = "Storage quota exceeded";
+
+    await expect(s3PrivateService.confirmUpload(alice, key)).rejects.toMatchObject({
+      statusCode: 403,
+      code: "STORAGE_QUOTA_EXCEEDED",
+    });
+    expect(deleted).toEqual([key]);
+  });
+
+  it("reports uploads that have not arrived yet without discarding them", async () => {
+    const { key } = await s3PrivateService.generateUploadPresignedUrl(
+      alice,
+      "report.pdf",
+      "application/pdf"
+    );
+
+    await expect(s3PrivateService.confirmUpload(alice, key)).rejects.toMatchObject({
+      statusCode: 409,
+    });
+    expect(pending.has(key)).toBe(true);
+  });
+
+  it("sweeps stale unconfirmed uploads and leaves recent ones", async () => {
+    const stale = await s3PrivateService.generateUploadPresignedUrl(
+      alice,
+      "a.pdf",
+      "application/pdf"
+    );
+    const recent = await s3PrivateService.generateUploadPresignedUrl(
+      alice,
+      "b.pdf",
+      "application/pdf"
+    );
+    pending.set(stale.key, Date.now() - 25 * 60 * 60 * 1000);
+
+    await expect(s3PrivateService.sweepUnconfirmedUploads()).resolves.toBe(1);
+    expect(deleted).toEqual([stale.key]);
+    expect(pending.has(recent.key)).toBe(true);
+  });
+});
@@ -25,11 +25,12 @@ export async function generateUploadPresignedUrl(
   res: Response
 ): Promise<void> {
   try {
-    const { filename, mimetype } = req.body;
+    const { filename, mimetype, size } = req.body;
     const result = await s3PrivateService.generateUploadPresignedUrl(
-      req.user!.username,
+      req.user!,
       filename,
-      mimetype
+      mimetype,
+      size
     );
     res.status(200).json(result);
   } catch (error) {
@@ -37,6 +38,15 @@ export async function generateUploadPresignedUrl(
   }
 }
 
+export async function confirmUpload(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const result = await s3PrivateService.confirmUpload(req.user!, req.body?.key);
+    res.status(200).json(result);
+  } catch (error) {
+    handleError(error, res, "Error confirming upload");
+  }
+}
+
 export async function generateAccessPresignedUrl(
   req: AuthenticatedRequest,
   res: Response
@@ -69,3 +79,30 @@ export async function deletePrivateFile(req: AuthenticatedRequest, res: Response
     handleError(error, res, "Error deleting file");
   }
 }
+
+export async function listTrash(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const result = await s3PrivateService.listTrash(req.user!.username);
+    res.status(200).json(result);
+  } catch (error) {
+    handleError(error, res, "Error listing trash");
+  }
+}
+
+export async function restoreFromTrash(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const result = await s3PrivateService.restoreFromTrash(req.user!.username, req.body?.key);
+    res.status(200).json(result);
+  } catch (error) {
+    handleError(error, res, "Error restoring file from trash");
+  }
+}
+
+export async function purgeTrash(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const result = await s3PrivateService.purgeTrash(req.user!.username, req.body?.key);
+    res.status(200).json(result);
+  } catch (error) {
+    handleError(error, res, "Error purging trash");
+  }
+}
@@ -37,6 +37,12 @@ router.post(
   requireSubscription,
   s3PrivateController.generateUploadPresignedUrl
 );
+router.post(
+  "/upload/confirm",
+  cors(corsOptions),
+  authenticateUser,
+  s3PrivateController.confirmUpload
+);
 router.post(
   "/access/presigned-url",
   cors(corsOptions),
@@ -57,5 +63,13 @@ router.delete(
   authenticateUser,
   s3PrivateController.deletePrivateFile
 );
+router.get("/trash", cors(corsOptions), authenticateUser, s3PrivateController.listTrash);
+router.post(
+  "/trash/restore",
+  cors(corsOptions),
+  authenticateUser,
+  s3PrivateController.restoreFromTrash
+);
+router.post("/trash/purge", cors(corsOptions), authenticateUser, s3PrivateController.purgeTrash);
 
 export default router;
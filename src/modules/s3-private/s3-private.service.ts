@@ -1,14 +1,34 @@
 import {
+  CopyObjectCommand,
   DeleteObjectCommand,
   GetObjectCommand,
   HeadObjectCommand,
   PutObjectCommand,
 } from "@aws-sdk/client-s3";
 import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { Readable } from "stream";
 
+import { cacheValues } from "../../utils/cache";
 import { ERROR_CODES } from "../../utils/errorCodes";
 import { generateSafeFilename } from "../../utils/file";
+import { hasKnownSignature, resolveFileType, SNIFF_LENGTH } from "../../utils/fileType";
+import { logger } from "../../utils/logger";
+import redis from "../../utils/redis";
 import s3Client from "../../utils/s3";
+import { placeholderFromMetadata, streamToBuffer } from "../../utils/s3.utils";
+import { checkStorageQuota, UploadOwner } from "../../utils/storageQuota";
+import { recordObjectRemoved, recordObjectStored } from "../../utils/storageUsage";
+import {
+  addToTrashIndex,
+  getTrashKey,
+  getTrashRetentionMs,
+  isTrashKey,
+  listTrash,
+  parseTrashKey,
+  purgeExpiredTrashedFiles,
+  purgeTrashedFiles,
+  removeFromTrashIndex,
+} from "../../utils/trash";
 
 export class S3PrivateError extends Error {
   code: string;
@@ -31,12 +51,49 @@ function getCdnDomain(): string {
     : "https://cdn-private.korner.lol";
 }
 
+interface PendingUpload {
+  key: string;
+  username: string;
+  mimetype: string;
+  size?: number;
+  createdAt: number;
+  confirmed?: boolean;
+}
+
+const PENDING_UPLOADS_KEY = "private-uploads:pending";
+const SWEEP_INTERVAL_MS = 15 * 60 * 1000;
+const TRASH_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+function getConfirmWindowSeconds(): number {
+  return (Number(process.env.PRIVATE_UPLOAD_CONFIRM_HOURS) || 24) * 60 * 60;
+}
+
+function getPendingUploadKey(key: string): string {
+  return `private-upload:${key}`;
+}
+
 class S3PrivateService {
-  async generateUploadPresignedUrl(username: string, filename: string, mimetype: string) {
+  async generateUploadPresignedUrl(
+    owner: UploadOwner,
+    filename: string,
+    mimetype: string,
+    size?: number
+  ) {
     if (!filename || !mimetype) {
       throw new S3PrivateError(ERROR_CODES.BAD_REQUEST, "Filename and mimetype are required", 400);
     }
 
+    const declaredSize = size === undefined || size === null ? undefined : Number(size);
+    if (declaredSize !== undefined && (!Number.isInteger(declaredSize) || declaredSize <= 0)) {
+      throw new S3PrivateError(ERROR_CODES.BAD_REQUEST, "Size must be a positive integer", 400);
+    }
+
+    const quota = await checkStorageQuota(owner, declaredSize ?? 1);
+    if (!quota.allowed) {
+      throw new S3PrivateError(ERROR_CODES.STORAGE_QUOTA_EXCEEDED, quota.message!, 403);
+    }
+
+    const { username } = owner;
     const outputFilename = generateSafeFilename(filename, mimetype);
     const s3Key = `${username}/${outputFilename}`;
     const cdnDomain = getCdnDomain();
@@ -45,11 +102,28 @@ class S3PrivateService {
       Bucket: getPrivateBucket(),
       Key: s3Key,
       ContentType: mimetype,
+      ContentLength: declaredSize,
       CacheControl: "public, max-age=31536000, immutable",
     });
 
     const presignedUrl = await getSignedUrl(s3Client, command, { expiresIn: 3600 });
 
+    const pending: PendingUpload = {
+      key: s3Key,
+      username,
+      mimetype,
+      size: declaredSize,
+      createdAt: Date.now(),
+    };
+    await Promise.all([
+      redis.setex(
+        getPendingUploadKey(s3Key),
+        getConfirmWindowSeconds() * 2,
+        JSON.stringify(pending)
+      ),
+      redis.zadd(PENDING_UPLOADS_KEY, pending.createdAt, s3Key),
+    ]);
+
     return {
       presignedUrl,
       key: s3Key,
@@ -57,10 +131,149 @@ class S3PrivateService {
     };
   }
 
+  /**
+   * Checks that a presigned upload actually arrived and matches what was declared at presign
+   * time. Uploads that fail the check are deleted; uploads never confirmed are removed by
+   * sweepUnconfirmedUploads.
+   */
+  async confirmUpload(owner: UploadOwner, key: string) {
+    if (!key) {
+      throw new S3PrivateError(ERROR_CODES.BAD_REQUEST, "File key is required", 400);
+    }
+
+    const raw = await redis.get(getPendingUploadKey(key));
+    if (!raw) {
+      throw new S3PrivateError(
+        ERROR_CODES.UPLOAD_SESSION_NOT_FOUND,
+        "No pending upload for this key",
+        404
+      );
+    }
+
+    const pending: PendingUpload = JSON.parse(raw);
+    if (pending.username !== owner.username) {
+      throw new S3PrivateError(
+        ERROR_CODES.ACCESS_DENIED,
+        "You do not have permission to confirm this upload",
+        403
+      );
+    }
+
+    if (pending.confirmed) {
+      return { success: true as const, key, size: pending.size!, contentType: pending.mimetype };
+    }
+
+    let head;
+    try {
+      head = await s3Client.send(new HeadObjectCommand({ Bucket: getPrivateBucket(), Key: key }));
+    } catch (error: any) {
+      if (error.name === "NotFound" || error.$metadata?.httpStatusCode === 404) {
+        throw new S3PrivateError(
+          ERROR_CODES.UPLOAD_INCOMPLETE,
+          "File has not been uploaded yet",
+          409
+        );
+      }
+      throw error;
+    }
+
+    const size = head.ContentLength || 0;
+    if (size === 0 || (pending.size !== undefined && size !== pending.size)) {
+      await this.rejectUpload(key);
+      throw new S3PrivateError(
+        ERROR_CODES.BAD_REQUEST,
+        `Uploaded size ${size} does not match declared size ${pending.size ?? "(non-empty)"}`,
+        400
+      );
+    }
+
+    if (head.ContentType !== pending.mimetype || !(await this.contentMatches(key, pending))) {
+      await this.rejectUpload(key);
+      throw new S3PrivateError(
+        ERROR_CODES.FILE_TYPE_MISMATCH,
+        `File content does not match declared type ${pending.mimetype}`,
+        400
+      );
+    }
+
+    // The object is already stored, so this only asks whether usage is still within the plan
+    const quota = await checkStorageQuota(owner, 0, 0);
+    if (!quota.allowed) {
+      await this.rejectUpload(key);
+      throw new S3PrivateError(ERROR_CODES.STORAGE_QUOTA_EXCEEDED, quota.message!, 403);
+    }
+
+    const confirmed: PendingUpload = { ...pending, size, confirmed: true };
+    await Promise.all([
+      redis.setex(getPendingUploadKey(key), cacheValues.day, JSON.stringify(confirmed)),
+      redis.zrem(PENDING_UPLOADS_KEY, key),
+    ]);
+    await recordObjectStored(key, size, "private");
+
+    return { success: true as const, key, size, contentType: pending.mimetype };
+  }
+
+  /**
+   * Deletes uploads that were presigned but not confirmed within the confirmation window.
+   * ZREM decides which instance owns a key, so concurrent sweepers never double-delete.
+   */
+  async sweepUnconfirmedUploads(): Promise<number> {
+    const cutoff = Date.now() - getConfirmWindowSeconds() * 1000;
+    const keys = await redis.zrangebyscore(PENDING_UPLOADS_KEY, 0, cutoff, "LIMIT", 0, 500);
+
+    let removed = 0;
+    for (const key of keys) {
+      if ((await redis.zrem(PENDING_UPLOADS_KEY, key)) === 0) continue;
+
+      const raw = await redis.get(getPendingUploadKey(key));
+      if (raw && (JSON.parse(raw) as PendingUpload).confirmed) continue;
+
+      await this.rejectUpload(key);
+      removed++;
+    }
+    return removed;
+  }
+
+  startUnconfirmedUploadSweeper(): NodeJS.Timeout {
+    const timer = setInterval(() => {
+      this.sweepUnconfirmedUploads()
+        .then((removed) => {
+          if (removed > 0) logger.info(`[s3-private] Removed ${removed} unconfirmed uploads`);
+        })
+        .catch((error) =>
+          logger.error("[s3-private] Unconfirmed upload sweep failed:", { error: String(error) })
+        );
+    }, SWEEP_INTERVAL_MS);
+    timer.unref();
+    return timer;
+  }
+
+  private async contentMatches(key: string, pending: PendingUpload): Promise<boolean> {
+    if (!hasKnownSignature(pending.mimetype)) return true;
+
+    const response = await s3Client.send(
+      new GetObjectCommand({
+        Bucket: getPrivateBucket(),
+        Key: key,
+        Range: `bytes=0-${SNIFF_LENGTH - 1}`,
+      })
+    );
+    const head = await streamToBuffer(response.Body as Readable);
+    return resolveFileType(head, pending.mimetype) !== null;
+  }
+
+  private async rejectUpload(key: string): Promise<void> {
+    await s3Client.send(new DeleteObjectCommand({ Bucket: getPrivateBucket(), Key: key }));
+    await Promise.all([redis.del(getPendingUploadKey(key)), redis.zrem(PENDING_UPLOADS_KEY, key)]);
+  }
+
   async generateAccessPresignedUrl(key: string) {
     if (!key) {
       throw new S3PrivateError(ERROR_CODES.BAD_REQUEST, "File key is required", 400);
     }
+    if (isTrashKey(key)) {
+      throw new S3PrivateError(ERROR_CODES.BARS_FILE_NOT_FOUND, "File not found", 404);
+    }
 
     const command = new GetObjectCommand({ Bucket: getPrivateBucket(), Key: key });
     const presignedUrl = await getSignedUrl(s3Client, command, { expiresIn: 3600 });
@@ -79,6 +292,9 @@ class S3PrivateService {
     if (!key) {
       throw new S3PrivateError(ERROR_CODES.BAD_REQUEST, "File key is required", 400);
     }
+    if (isTrashKey(key)) {
+      throw new S3PrivateError(ERROR_CODES.BARS_FILE_NOT_FOUND, "File not found", 404);
+    }
 
     try {
       const command = new HeadObjectCommand({ Bucket: getPrivateBucket(), Key: key });
@@ -96,6 +312,7 @@ class S3PrivateService {
           contentDisposition: response.ContentDisposition,
           metadata: response.Metadata,
         },
+        placeholder: placeholderFromMetadata(response.Metadata),
       };
     } catch (error: any) {
       if (error.name === "NotFound" || error.$metadata?.httpStatusCode === 404) {
@@ -118,20 +335,144 @@ class S3PrivateService {
       );
     }
 
+    if (isTrashKey(key)) {
+      throw new S3PrivateError(ERROR_CODES.BAD_REQUEST, "File is already in the trash", 400);
+    }
+
+    // The trash stays in the user's prefix, so usage counters are unchanged until the purge
+    const deletedAt = Date.now();
+    const trashKey = getTrashKey(key, deletedAt);
+    if (!(await this.moveObject(key, trashKey))) {
+      throw new S3PrivateError(ERROR_CODES.FILE_NOT_FOUND, "File not found", 404);
+    }
+    await addToTrashIndex("private", trashKey, deletedAt);
+
+    return {
+      success: true,
+      message: "File moved to trash",
+      key,
+      trashKey,
+      expiresAt: new Date(deletedAt + getTrashRetentionMs()).toISOString(),
+    };
+  }
+
+  async listTrash(username: string) {
+    const files = await listTrash(username, getPrivateBucket());
+    return {
+      files: files.map((file) => ({
+        key: file.key,
+        originalKey: file.originalKey,
+        size: file.size,
+        deletedAt: new Date(file.deletedAt).toISOString(),
+        expiresAt: new Date(file.expiresAt).toISOString(),
+      })),
+    };
+  }
+
+  async restoreFromTrash(username: string, trashKey: string) {
+    const parsed = trashKey ? parseTrashKey(trashKey) : null;
+    if (!parsed) {
+      throw new S3PrivateError(ERROR_CODES.BAD_REQUEST, "A trash key is required", 400);
+    }
+    if (!trashKey.startsWith(`${username}/`)) {
+      throw new S3PrivateError(
+        ERROR_CODES.ACCESS_DENIED,
+        "You do not have permission to restore this file",
+        403
+      );
+    }
+
+    if (!(await this.moveObject(trashKey, parsed.originalKey))) {
+      throw new S3PrivateError(ERROR_CODES.FILE_NOT_FOUND, "File not found in trash", 404);
+    }
+    await removeFromTrashIndex("private", trashKey);
+
+    return { success: true, message: "File restored successfully", key: parsed.originalKey };
+  }
+
+  /** Permanently deletes the user's private trashed file at `trashKey`, or their whole trash. */
+  async purgeTrash(username: string, trashKey?: string) {
+    let keys: string[];
+    if (trashKey !== undefined) {
+      if (!trashKey || !parseTrashKey(trashKey)) {
+        throw new S3PrivateError(ERROR_CODES.BAD_REQUEST, "A trash key is required", 400);
+      }
+      if (!trashKey.startsWith(`${username}/`)) {
+        throw new S3PrivateError(
+          ERROR_CODES.ACCESS_DENIED,
+          "You do not have permission to delete this file",
+          403
+        );
+      }
+      keys = [trashKey];
+    } else {
+      keys = (await listTrash(username, getPrivateBucket())).map((file) => file.key);
+    }
+
+    const purged = await purgeTrashedFiles("private", keys, (key) => this.deleteTrashedFile(key));
+    if (trashKey !== undefined && purged === 0) {
+      throw new S3PrivateError(ERROR_CODES.FILE_NOT_FOUND, "File not found in trash", 404);
+    }
+    return { success: true, message: "Trash purged successfully", purged };
+  }
+
+  /** Deletes a trashed file and drops it from the usage counters. False if it was gone. */
+  private async deleteTrashedFile(trashKey: string): Promise<boolean> {
+    const size = await this.getObjectSize(trashKey);
+    if (size === null) return false;
+    await s3Client.send(new DeleteObjectCommand({ Bucket: getPrivateBucket(), Key: trashKey }));
+    await recordObjectRemoved(trashKey, size, "private");
+    return true;
+  }
+
+  /**
+   * Permanently deletes private files that have been in the trash past the retention period.
+   */
+  async purgeExpiredTrash(): Promise<number> {
+    return purgeExpiredTrashedFiles("private", (key) => this.deleteTrashedFile(key));
+  }
+
+  startTrashPurge(): NodeJS.Timeout {
+    const timer = setInterval(() => {
+      this.purgeExpiredTrash()
+        .then((purged) => {
+          if (purged > 0) logger.info(`[s3-private] Purged ${purged} files from the trash`);
+        })
+        .catch((error) =>
+          logger.error("[s3-private] Trash purge failed:", { error: String(error) })
+        );
+    }, TRASH_PURGE_INTERVAL_MS);
+    timer.unref();
+    return timer;
+  }
+
+  private async getObjectSize(key: string): Promise<number | null> {
     try {
       const headCommand = new HeadObjectCommand({ Bucket: getPrivateBucket(), Key: key });
-      await s3Client.send(headCommand);
+      return (await s3Client.send(headCommand)).ContentLength || 0;
     } catch (error: any) {
-      if (error.name === "NotFound" || error.$metadata?.httpStatusCode === 404) {
-        throw new S3PrivateError(ERROR_CODES.FILE_NOT_FOUND, "File not found", 404);
-      }
+      if (error.name === "NotFound" || error.$metadata?.httpStatusCode === 404) return null;
       throw error;
     }
+  }
 
-    const deleteCommand = new DeleteObjectCommand({ Bucket: getPrivateBucket(), Key: key });
-    await s3Client.send(deleteCommand);
-
-    return { success: true, message: "File deleted successfully", key };
+  /** Copies the object to a new key and deletes the original. Resolves false if it is missing. */
+  private async moveObject(fromKey: string, toKey: string): Promise<boolean> {
+    const bucket = getPrivateBucket();
+    try {
+      await s3Client.send(
+        new CopyObjectCommand({
+          Bucket: bucket,
+          CopySource: encodeURI(`${bucket}/${fromKey}`),
+          Key: toKey,
+        })
+      );
+    } catch (error: any) {
+      if (error.name === "NoSuchKey" || error.$metadata?.httpStatusCode === 404) return false;
+      throw error;
+    }
+    await s3Client.send(new DeleteObjectCommand({ Bucket: bucket, Key: fromKey }));
+    return true;
   }
 }
 
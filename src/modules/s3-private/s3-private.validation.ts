@@ -1,6 +1,6 @@
 import { z } from "zod";
 
-import { errorResponse } from "../../schemas/response.schema";
+import { errorResponse, imagePlaceholder } from "../../schemas/response.schema";
 
 // --- Response Schemas ---
 
@@ -10,6 +10,13 @@ export const generateUploadPresignedUrlResponse = z.object({
   url: z.string(),
 });
 
+export const confirmUploadResponse = z.object({
+  success: z.literal(true),
+  key: z.string(),
+  size: z.number(),
+  contentType: z.string(),
+});
+
 export const generateAccessPresignedUrlResponse = z.object({
   presignedUrl: z.string(),
   expiresIn: z.number(),
@@ -27,12 +34,33 @@ export const getFileMetadataResponse = z.object({
     contentDisposition: z.string().optional(),
     metadata: z.record(z.string()).optional(),
   }),
+  placeholder: imagePlaceholder.optional(),
 });
 
 export const deletePrivateFileResponse = z.object({
   success: z.literal(true),
   message: z.string(),
   key: z.string(),
+  trashKey: z.string(),
+  expiresAt: z.string(),
+});
+
+export const listPrivateTrashResponse = z.object({
+  files: z.array(
+    z.object({
+      key: z.string(),
+      originalKey: z.string(),
+      size: z.number(),
+      deletedAt: z.string(),
+      expiresAt: z.string(),
+    })
+  ),
+});
+
+export const restorePrivateFileResponse = z.object({
+  success: z.literal(true),
+  message: z.string(),
+  key: z.string(),
 });
 
 export const s3PrivateErrorResponse = errorResponse;
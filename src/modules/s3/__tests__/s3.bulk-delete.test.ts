@@ -0,0 +1,112 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { FakeS3Client } from "../../../__tests__/helpers/fakeS3Client";
+import s3Client from "../../../utils/s3";
+import ys3Client from "../../../utils/ys3";
+import { s3Service } from "../s3.service";
+
+const primary = s3Client as unknown as FakeS3Client;
+const yandex = ys3Client as unknown as FakeS3Client;
+
+const { cache, enqueued } = vi.hoisted(() => ({
+  cache: new Set<string>(),
+  enqueued: [] as Array<{ op: string; key: string }>,
+}));
+
+vi.mock("../../../utils/s3", async () => {
+  const { createFakeS3Client } = await import("../../../__tests__/helpers/fakeS3Client");
+  return { default: createFakeS3Client() };
+});
+vi.mock("../../../utils/ys3", async () => {
+  const { createFakeS3Client } = await import("../../../__tests__/helpers/fakeS3Client");
+  return { default: createFakeS3Client() };
+});
+vi.mock("../../../utils/redis", () => ({
+  default: {
+    smembers: async () => [],
+    del: async (keys: string[]) => {
+      keys.forEach((key) => cache.delete(key));
+      return keys.length;
+    },
+    zadd: async () => 1,
+    xadd: async (_key: string, _id: string, ...fields: string[]) => {
+      enqueued.push({ op: fields[1], key: fields[3] });
+      return `${enqueued.length}-0`;
+    },
+  },
+}));
+
+function store(key: string, size: number) {
+  primary.objects.set(key, Buffer.alloc(size));
+  yandex.objects.set(key, Buffer.alloc(size));
+}
+
+describe("s3 bulk delete", () => {
+  beforeEach(() => {
+    primary.reset();
+    yandex.reset();
+    cache.clear();
+    enqueued.length = 0;
+    store("alice/a-0001-image.webp", 1000);
+    store("alice/a-0001-image_thumb.webp", 40);
+    store("alice/b-0002-video.mp4", 5000);
+    store("bob/c-0003-file.pdf", 10);
+  });
+
+  it("moves owned files to the trash and reports every item", async () => {
+    cache.add("file:alice/b-0002-video.mp4");
+
+    const result = await s3Service.deleteFiles("alice", [
+      "https://cdn.korner.lol/alice/a-0001-image.webp",
+      "alice/b-0002-video.mp4",
+      "bob/c-0003-file.pdf",
+      "alice/missing.mp4",
+      "alice/b-0002-video.mp4",
+    ]);
+
+    expect(result).toMatchObject({ deleted: 2, failed: 3 });
+    expect(result.results.map((item) => ("error" in item ? item.error.code : "ok"))).toEqual([
+      "ok",
+      "ok",
+      "BARS_ACCESS_DENIED",
+      "FILE_NOT_FOUND",
+      "BARS_INVALID_INPUT",
+    ]);
+    expect(Array.from(primary.objects.keys()).filter((key) => !key.includes(".trash"))).toEqual([
+      "bob/c-0003-file.pdf",
+    ]);
+    expect(primary.commands.filter((name) => name === "DeleteObjectsCommand")).toHaveLength(1);
+    expect(yandex.commands).toEqual([]);
+    expect(enqueued.filter(({ op }) => op === "delete").map(({ key }) => key)).toEqual(
+      expect.arrayContaining([
+        "alice/a-0001-image.webp",
+        "alice/a-0001-image_thumb.webp",
+        "alice/b-0002-video.mp4",
+      ])
+    );
+    expect(result.results[1]).toMatchObject({
+      trashKey: expect.stringMatching(/^alice\/\.trash\/\d+\/b-0002-video\.mp4$/),
+    });
+    expect(Array.from(primary.objects.keys()).filter((key) => key.includes(".trash"))).toHaveLength(
+      3
+    );
+    expect(cache.size).toBe(0);
+  });
+
+  it("reports files AWS refused to delete as failed", async () => {
+    primary.locked.add("alice/b-0002-video.mp4");
+
+    const result = await s3Service.deleteFiles("alice", ["alice/b-0002-video.mp4"]);
+    expect(result.results[0]).toMatchObject({
+      success: false,
+      error: { code: "SERVER_ERROR" },
+    });
+  });
+
+  it("rejects empty and oversized batches", async () => {
+    await expect(s3Service.deleteFiles("alice", [])).rejects.toMatchObject({ statusCode: 400 });
+    await expect(
+      s3Service.deleteFiles("alice", new Array(501).fill("alice/x.mp4"))
+    ).rejects.toMatchObject({ statusCode: 400 });
+  });
+});
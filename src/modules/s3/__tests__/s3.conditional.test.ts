@@ -0,0 +1,129 @@
+import { Readable } from "stream";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { isNotModified } from "../../../utils/conditionalRequest";
+import { s3Service } from "../s3.service";
+
+const { buffers, hashes, calls } = vi.hoisted(() => ({
+  buffers: new Map<string, Buffer>(),
+  hashes: new Map<string, Record<string, string>>(),
+  calls: { storage: 0, bufferReads: 0 },
+}));
+
+const MODIFIED = new Date("2025-03-01T12:00:00Z");
+
+vi.mock("../../../utils/ys3", () => ({
+  default: {
+    async send() {
+      calls.storage++;
+      return {
+        Body: Readable.from([Buffer.from("track-bytes")]),
+        ContentType: "audio/mpeg",
+        ContentLength: 11,
+        ETag: '"abc123"',
+        LastModified: MODIFIED,
+      };
+    },
+  },
+}));
+vi.mock("../../../utils/redis", () => ({
+  default: {
+    getBuffer: async (key: string) => {
+      calls.bufferReads++;
+      return buffers.get(key) || null;
+    },
+    hgetall: async (key: string) => ({ ...(hashes.get(key) || {}) }),
+    setex: async (key: string, _ttl: number, value: Buffer) => buffers.set(key, value),
+    hset: async (key: string, values: Record<string, string>) => hashes.set(key, values),
+    expire: async () => 1,
+    eval: async () => [],
+    hincrby: async () => 1,
+    multi: () => ({
+      expire() {
+        return this;
+      },
+      zadd() {
+        return this;
+      },
+      exec: async () => [],
+    }),
+  },
+}));
+
+const TRACK = "alice/a-0001-audio.mp3";
+
+describe("conditional request evaluation", () => {
+  it("prefers If-None-Match over If-Modified-Since", () => {
+    const conditions = { ifNoneMatch: '"other"', ifModifiedSince: "Sat, 01 Mar 2025 13:00:00 GMT" };
+    expect(isNotModified(conditions, '"abc123"', MODIFIED)).toBe(false);
+  });
+
+  it("compares entity tags weakly and accepts lists", () => {
+    expect(isNotModified({ ifNoneMatch: 'W/"x", W/"abc123"' }, '"abc123"')).toBe(true);
+    expect(isNotModified({ ifNoneMatch: "*" }, undefined)).toBe(true);
+  });
+
+  it("compares dates to the second", () => {
+    const since = "Sat, 01 Mar 2025 12:00:00 GMT";
+    expect(
+      isNotModified({ ifModifiedSince: since }, undefined, new Date(MODIFIED.getTime() + 500))
+    ).toBe(true);
+    expect(isNotModified({ ifModifiedSince: since }, undefined, new Date("2025-03-02"))).toBe(
+      false
+    );
+    expect(isNotModified({ ifModifiedSince: "yesterday" }, undefined, MODIFIED)).toBe(false);
+  });
+});
+
+describe("s3 conditional downloads", () => {
+  beforeEach(() => {
+    buffers.clear();
+    hashes.clear();
+    calls.storage = 0;
+    calls.bufferReads = 0;
+  });
+
+  it("caches the ETag and answers a matching request from metadata alone", async () => {
+    const first = await s3Service.getFile(TRACK);
+    expect(first.metadata.ETag).toBe('"abc123"');
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(hashes.get(`metadata:${TRACK}`)).toMatchObject({ ETag: '"abc123"' });
+
+    calls.bufferReads = 0;
+    const second = await s3Service.getFile(TRACK, undefined, undefined, {
+      ifNoneMatch: '"abc123"',
+    });
+    expect(second).toMatchObject({ notModified: true, buffer: null });
+    expect(calls).toEqual({ storage: 1, bufferReads: 0 });
+  });
+
+  it("serves the body when the client's copy is older", async () => {
+    hashes.set(`metadata:${TRACK}`, {
+      ContentType: "audio/mpeg",
+      LastModified: MODIFIED.toUTCString(),
+      ETag: '"abc123"',
+    });
+    buffers.set(`file:${TRACK}`, Buffer.from("track-bytes"));
+
+    const stale = await s3Service.getFile(TRACK, undefined, undefined, {
+      ifModifiedSince: "Fri, 28 Feb 2025 00:00:00 GMT",
+    });
+    expect(stale.notModified).toBeUndefined();
+    expect(stale.buffer.toString()).toBe("track-bytes");
+    expect(calls.storage).toBe(0);
+  });
+
+  it("answers streamed downloads with 304 after checking storage on a miss", async () => {
+    const result = await s3Service.getFileByPath(
+      "alice",
+      "a-0001-audio.mp3",
+      undefined,
+      undefined,
+      {
+        ifNoneMatch: 'W/"abc123"',
+      }
+    );
+    expect(result).toMatchObject({ notModified: true, Body: null, ETag: '"abc123"' });
+    expect(calls.storage).toBe(1);
+  });
+});
@@ -6,6 +6,14 @@ import {
   uploadVideoResponse,
   uploadFileResponse,
   deleteFileResponse,
+  deleteFilesResponse,
+  listTrashResponse,
+  listVersionsResponse,
+  restoreFromTrashResponse,
+  restoreVersionResponse,
+  signTransformResponse,
+  presignedPostResponse,
+  finalizeUploadResponse,
   s3ErrorResponse,
 } from "../s3.validation";
 
@@ -15,10 +23,68 @@ describe("s3 response contracts", () => {
       const valid = {
         message: "Image uploaded successfully",
         url: "https://cdn.korner.lol/user/file.webp",
+        width: 1920,
+        height: 1080,
+        variants: {
+          thumb: { url: "https://cdn.korner.lol/user/file_thumb.webp", width: 160, height: 90 },
+          large: { url: "https://cdn.korner.lol/user/file_large.webp", width: 1280, height: 720 },
+        },
+        placeholder: {
+          blurhash: "LEHV6nWB2yk8pyo0adR*.7kCMdnj",
+          lqip: "data:image/webp;base64,UklGRjIAAABXRUJQVlA4ICYAAACQAQCdASoQAAsABUB8JaACdLoA",
+          dominantColor: "#0898e8",
+        },
       };
       expect(uploadImageResponse.safeParse(valid).success).toBe(true);
     });
 
+    it("accepts image upload response without variants for small images", () => {
+      const valid = {
+        message: "Image uploaded successfully",
+        url: "https://cdn.korner.lol/user/file.webp",
+        width: 120,
+        height: 120,
+        variants: {},
+        placeholder: {
+          blurhash: "LEHV6nWB2yk8pyo0adR*.7kCMdnj",
+          lqip: "data:image/webp;base64,UklGRjIAAABXRUJQVlA4ICYAAACQAQCdASoQAAsABUB8JaACdLoA",
+          dominantColor: "#0898e8",
+        },
+      };
+      expect(uploadImageResponse.safeParse(valid).success).toBe(true);
+    });
+
+    it("rejects image upload response without dimensions", () => {
+      const invalid = {
+        message: "Image uploaded successfully",
+        url: "https://cdn.korner.lol/user/file.webp",
+        variants: {},
+      };
+      expect(uploadImageResponse.safeParse(invalid).success).toBe(false);
+    });
+
+    it("rejects image upload response without placeholder", () => {
+      const invalid = {
+        message: "Image uploaded successfully",
+        url: "https://cdn.korner.lol/user/file.webp",
+        width: 120,
+        height: 120,
+        variants: {},
+      };
+      expect(uploadImageResponse.safeParse(invalid).success).toBe(false);
+    });
+
+    it("rejects unknown image variant names", () => {
+      const invalid = {
+        message: "Image uploaded successfully",
+        url: "https://cdn.korner.lol/user/file.webp",
+        width: 1920,
+        height: 1080,
+        variants: { huge: { url: "https://cdn.korner.lol/user/file_huge.webp", width: 4000 } },
+      };
+      expect(uploadImageResponse.safeParse(invalid).success).toBe(false);
+    });
+
     it("accepts audio upload response", () => {
       const valid = {
         message: "Audio uploaded successfully",
@@ -54,9 +120,62 @@ describe("s3 response contracts", () => {
     });
   });
 
+  describe("signTransformResponse", () => {
+    it("accepts signed transform url", () => {
+      const valid = { url: "/api/s3/transform/user/file.webp?fm=avif&w=320&sig=abc" };
+      expect(signTransformResponse.safeParse(valid).success).toBe(true);
+    });
+
+    it("rejects without url", () => {
+      expect(signTransformResponse.safeParse({}).success).toBe(false);
+    });
+  });
+
+  describe("presignedPostResponse", () => {
+    it("accepts presigned POST policy", () => {
+      const valid = {
+        url: "https://korner-lol.s3.eu-central-1.amazonaws.com/",
+        fields: {
+          key: ".incoming/user/file.mp4",
+          "Content-Type": "video/mp4",
+          Policy: "eyJleHBpcmF0aW9uIjoi",
+          "X-Amz-Signature": "abc",
+        },
+        key: ".incoming/user/file.mp4",
+        maxSize: 104857600,
+        expiresIn: 3600,
+      };
+      expect(presignedPostResponse.safeParse(valid).success).toBe(true);
+    });
+
+    it("rejects without fields", () => {
+      const invalid = { url: "https://bucket/", key: "k", maxSize: 1, expiresIn: 3600 };
+      expect(presignedPostResponse.safeParse(invalid).success).toBe(false);
+    });
+  });
+
+  describe("finalizeUploadResponse", () => {
+    it("accepts finalized media upload", () => {
+      const valid = {
+        message: "Video uploaded successfully",
+        url: "https://cdn.korner.lol/user/file.mp4",
+      };
+      expect(finalizeUploadResponse.safeParse(valid).success).toBe(true);
+    });
+
+    it("rejects without url", () => {
+      expect(finalizeUploadResponse.safeParse({ message: "ok" }).success).toBe(false);
+    });
+  });
+
   describe("deleteFileResponse", () => {
     it("accepts valid delete response", () => {
-      const valid = { message: "File deleted successfully", key: "user/file.webp" };
+      const valid = {
+        message: "File moved to trash",
+        key: "user/file.webp",
+        trashKey: "user/.trash/1760000000000/file.webp",
+        expiresAt: "2025-11-08T00:00:00.000Z",
+      };
       expect(deleteFileResponse.safeParse(valid).success).toBe(true);
     });
 
@@ -65,6 +184,115 @@ describe("s3 response contracts", () => {
     });
   });
 
+  describe("deleteFilesResponse", () => {
+    it("accepts per-item results", () => {
+      const valid = {
+        message: "1 of 2 files moved to trash",
+        deleted: 1,
+        failed: 1,
+        expiresAt: "2025-11-08T00:00:00.000Z",
+        results: [
+          {
+            file: "https://cdn.korner.lol/user/file.webp",
+            key: "user/file.webp",
+            success: true,
+            trashKey: "user/.trash/1760000000000/file.webp",
+          },
+          {
+            file: "other/file.webp",
+            key: "other/file.webp",
+            success: false,
+            error: { code: "BARS_ACCESS_DENIED", message: "You can only delete your own files" },
+          },
+        ],
+      };
+      expect(deleteFilesResponse.safeParse(valid).success).toBe(true);
+    });
+
+    it("rejects a failed item without an error", () => {
+      const invalid = {
+        message: "0 of 1 files moved to trash",
+        deleted: 0,
+        failed: 1,
+        expiresAt: "2025-11-08T00:00:00.000Z",
+        results: [{ file: "user/file.webp", success: false }],
+      };
+      expect(deleteFilesResponse.safeParse(invalid).success).toBe(false);
+    });
+  });
+
+  describe("version responses", () => {
+    it("accepts version listing", () => {
+      const valid = {
+        key: "user/file-image.webp",
+        versions: [
+          { versionId: "1760000000000", size: 2048, createdAt: "2025-10-09T08:53:20.000Z" },
+        ],
+      };
+      expect(listVersionsResponse.safeParse(valid).success).toBe(true);
+    });
+
+    it("accepts restore without a previous version", () => {
+      const valid = {
+        message: "Version restored successfully",
+        url: "https://cdn.korner.lol/user/file-image.webp",
+        key: "user/file-image.webp",
+        previousVersionId: null,
+      };
+      expect(restoreVersionResponse.safeParse(valid).success).toBe(true);
+    });
+
+    it("rejects restore without previousVersionId", () => {
+      const invalid = {
+        message: "Version restored successfully",
+        url: "https://cdn.korner.lol/user/file-image.webp",
+        key: "user/file-image.webp",
+      };
+      expect(restoreVersionResponse.safeParse(invalid).success).toBe(false);
+    });
+  });
+
+  describe("trash responses", () => {
+    it("accepts trash listing", () => {
+      const valid = {
+        files: [
+          {
+            key: "user/.trash/1760000000000/file.webp",
+            originalKey: "user/file.webp",
+            size: 2048,
+            deletedAt: "2025-10-09T08:53:20.000Z",
+            expiresAt: "2025-11-08T08:53:20.000Z",
+          },
+        ],
+      };
+      expect(listTrashResponse.safeParse(valid).success).toBe(true);
+    });
+
+    it("rejects trash listing with numeric timestamps", () => {
+      const invalid = {
+        files: [
+          {
+            key: "user/.trash/1/file.webp",
+            originalKey: "user/file.webp",
+            size: 1,
+            deletedAt: 1,
+            expiresAt: 2,
+          },
+        ],
+      };
+      expect(listTrashResponse.safeParse(invalid).success).toBe(false);
+    });
+
+    it("accepts restore response", () => {
+      const valid = {
+        message: "File restored successfully",
+        url: "https://cdn.korner.lol/user/file.webp",
+        key: "user/file.webp",
+      };
+      expect(restoreFromTrashResponse.safeParse(valid).success).toBe(true);
+    });
+  });
+
   describe("s3ErrorResponse", () => {
     it("accepts standard error", () => {
       const valid = { error: { code: "BAD_REQUEST", message: "No image file provided" } };
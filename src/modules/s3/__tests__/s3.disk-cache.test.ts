@@ -0,0 +1,145 @@
+import { createHash } from "crypto";
+import { mkdtempSync, readdirSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Readable } from "stream";
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { getDiskCacheStats, startDiskCache, stopDiskCache } from "../../../utils/diskCache";
+import { evictCachedFile, streamToBuffer } from "../../../utils/s3.utils";
+import { s3Service } from "../s3.service";
+
+const { objects, stalled, calls, published } = vi.hoisted(() => ({
+  objects: new Map<string, Buffer>(),
+  stalled: new Set<string>(),
+  calls: { storage: 0 },
+  published: [] as string[],
+}));
+
+vi.mock("../../../utils/ys3", () => ({
+  default: {
+    async send(command: { input: Record<string, any> }) {
+      calls.storage++;
+      const body = objects.get(command.input.Key);
+      if (!body) throw Object.assign(new Error("NotFound"), { name: "NotFound" });
+      const chunks = [body.subarray(0, 600), body.subarray(600)];
+      // A stalled download sends its first chunk and then nothing more
+      const stream = stalled.has(command.input.Key) ? new Readable({ read() {} }) : null;
+      stream?.push(chunks[0]);
+      return {
+        Body: stream || Readable.from(chunks),
+        ContentType: "video/mp4",
+        ContentLength: body.length,
+        ETag: '"v1"',
+      };
+    },
+  },
+}));
+vi.mock("../../../utils/redis", () => ({
+  default: {
+    get: async () => null,
+    hgetall: async () => ({}),
+    smembers: async () => [],
+    del: async () => 0,
+    eval: async () => 0,
+    hincrby: async () => 1,
+    publish: async (_channel: string, message: string) => published.push(message),
+    duplicate: () => ({
+      on() {},
+      subscribe: async () => 1,
+      disconnect() {},
+    }),
+  },
+}));
+
+const cacheDir = mkdtempSync(join(tmpdir(), "disk-cache-test-"));
+const FILES = ["a-0001-video.mp4", "a-0002-video.mp4", "a-0003-video.mp4"];
+
+async function download(filename: string, range?: string): Promise<Buffer> {
+  const result = await s3Service.getFileByPath("alice", filename, undefined, range);
+  return streamToBuffer(result.Body as Readable);
+}
+
+async function cached(filename: string): Promise<void> {
+  const entries = getDiskCacheStats().entries;
+  await download(filename);
+  await vi.waitFor(() => expect(getDiskCacheStats().entries).toBe(entries + 1));
+}
+
+describe("s3 disk cache", () => {
+  beforeEach(async () => {
+    process.env.DISK_CACHE_DIR = cacheDir;
+    process.env.DISK_CACHE_MAX_BYTES = "2500";
+    objects.clear();
+    stalled.clear();
+    published.length = 0;
+    calls.storage = 0;
+    FILES.forEach((filename, index) => objects.set(`alice/${filename}`, Buffer.alloc(1000, index)));
+    await startDiskCache();
+  });
+
+  afterEach(() => {
+    stopDiskCache();
+    rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  afterAll(() => {
+    delete process.env.DISK_CACHE_DIR;
+    delete process.env.DISK_CACHE_MAX_BYTES;
+  });
+
+  it("keeps a downloaded body on disk and serves later reads and ranges from it", async () => {
+    await cached(FILES[0]);
+    expect(calls.storage).toBe(1);
+
+    expect(await download(FILES[0])).toEqual(objects.get(`alice/${FILES[0]}`));
+    expect(await download(FILES[0], "bytes=990-")).toEqual(Buffer.alloc(10, 0));
+    expect(calls.storage).toBe(1);
+  });
+
+  it("leaves nothing behind when the client abandons the download", async () => {
+    stalled.add(`alice/${FILES[0]}`);
+    const result = await s3Service.getFileByPath("alice", FILES[0]);
+    const body = result.Body as Readable;
+    await new Promise((resolve) => body.once("data", resolve));
+    body.destroy();
+
+    await vi.waitFor(() => expect(readdirSync(join(cacheDir, ".tmp"))).toEqual([]));
+    expect(getDiskCacheStats().entries).toBe(0);
+  });
+
+  it("evicts the least recently read file past the budget", async () => {
+    await cached(FILES[0]);
+    await cached(FILES[1]);
+    await download(FILES[0]);
+    await download(FILES[2]);
+    const sidecar = `${createHash("sha256").update(`alice/${FILES[2]}`).digest("hex")}.json`;
+    await vi.waitFor(() => expect(readdirSync(cacheDir)).toContain(sidecar));
+    expect(getDiskCacheStats()).toMatchObject({ entries: 2, bytes: 2000 });
+
+    calls.storage = 0;
+    await download(FILES[0]);
+    expect(calls.storage).toBe(0);
+    await download(FILES[1]);
+    expect(calls.storage).toBe(1);
+  });
+
+  it("drops deleted files on every instance", async () => {
+    await cached(FILES[0]);
+    await evictCachedFile(`alice/${FILES[0]}`);
+
+    expect(getDiskCacheStats().entries).toBe(0);
+    expect(readdirSync(cacheDir)).toEqual([".tmp"]);
+    expect(published).toEqual([JSON.stringify({ keys: [`alice/${FILES[0]}`] })]);
+  });
+
+  it("reloads committed files on start and discards the rest", async () => {
+    await cached(FILES[0]);
+    stopDiskCache();
+    writeFileSync(join(cacheDir, "uncommitted"), "partial");
+
+    await startDiskCache();
+    expect(getDiskCacheStats()).toMatchObject({ entries: 1, bytes: 1000 });
+    expect(readdirSync(cacheDir)).toHaveLength(3);
+  });
+});
@@ -0,0 +1,123 @@
+import { Readable } from "stream";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { getFileCacheStats } from "../../../utils/fileCache";
+import { streamToBuffer } from "../../../utils/s3.utils";
+import { s3Service } from "../s3.service";
+
+const { objects, buffers, hashes, deleted, evictions } = vi.hoisted(() => ({
+  objects: new Map<string, Buffer>(),
+  buffers: new Map<string, Buffer>(),
+  hashes: new Map<string, Record<string, string>>(),
+  deleted: [] as string[],
+  evictions: [] as string[][],
+}));
+
+vi.mock("../../../utils/ys3", () => ({
+  default: {
+    async send(command: { input: Record<string, any> }) {
+      const body = objects.get(command.input.Key);
+      if (!body) throw Object.assign(new Error("NotFound"), { name: "NotFound" });
+      return { Body: Readable.from([body]), ContentType: "video/mp4", ContentLength: body.length };
+    },
+  },
+}));
+vi.mock("../../../utils/redis", () => ({
+  default: {
+    getBuffer: async (key: string) => buffers.get(key) || null,
+    hgetall: async (key: string) => ({ ...(hashes.get(key) || {}) }),
+    setex: async (key: string, _ttl: number, value: Buffer) => buffers.set(key, value),
+    hset: async (key: string, values: Record<string, string>) => hashes.set(key, values),
+    expire: async () => 1,
+    del: async (keys: string[]) => deleted.push(...keys),
+    // Stands in for the accounting script: hands back whatever the test queued for eviction
+    eval: async () => evictions.shift() || [],
+    hincrby: async (key: string, field: string, by: number) => {
+      const hash = hashes.get(key) || {};
+      hash[field] = String((Number(hash[field]) || 0) + by);
+      hashes.set(key, hash);
+      return Number(hash[field]);
+    },
+    get: async () => "50",
+    zcard: async () => 1,
+    multi: () => ({
+      expire() {
+        return this;
+      },
+      zadd() {
+        return this;
+      },
+      exec: async () => [],
+    }),
+  },
+}));
+
+const SMALL = "alice/a-0001-video.mp4";
+const LARGE = "alice/a-0002-video.mp4";
+
+async function settle() {
+  await new Promise((resolve) => setImmediate(resolve));
+}
+
+describe("s3 file cache", () => {
+  beforeEach(() => {
+    process.env.FILE_CACHE_MAX_OBJECT_BYTES = "100";
+    objects.clear();
+    buffers.clear();
+    hashes.clear();
+    deleted.length = 0;
+    evictions.length = 0;
+    objects.set(SMALL, Buffer.alloc(50, 1));
+    objects.set(LARGE, Buffer.alloc(500, 2));
+  });
+
+  afterEach(() => {
+    delete process.env.FILE_CACHE_MAX_OBJECT_BYTES;
+  });
+
+  it("streams objects over the size limit without caching them", async () => {
+    const result = await s3Service.getFile(LARGE);
+    expect(result.buffer).toBeNull();
+    expect((await streamToBuffer(result.stream)).length).toBe(500);
+    await settle();
+    expect(buffers.size).toBe(0);
+  });
+
+  it("caches small objects and serves the next read from Redis", async () => {
+    const first = await s3Service.getFile(SMALL);
+    expect(first.fromCache).toBe(false);
+    expect(first.buffer).toHaveLength(50);
+    await settle();
+    expect(buffers.get(`file:${SMALL}`)).toHaveLength(50);
+
+    const second = await s3Service.getFile(SMALL);
+    expect(second.fromCache).toBe(true);
+    expect(second.buffer).toHaveLength(50);
+  });
+
+  it("deletes the entries evicted to stay within the budget", async () => {
+    evictions.push(["alice/old.mp4"]);
+    await s3Service.getFile(SMALL);
+    await settle();
+    expect(deleted).toEqual(["file:alice/old.mp4", "metadata:alice/old.mp4"]);
+  });
+
+  it("counts hits, misses and bypasses", async () => {
+    await s3Service.getFile(SMALL);
+    await settle();
+    await s3Service.getFile(SMALL);
+    await s3Service.getFile(LARGE);
+    await settle();
+
+    await expect(getFileCacheStats()).resolves.toEqual({
+      hits: 1,
+      diskHits: 0,
+      misses: 1,
+      bypasses: 1,
+      entries: 1,
+      bytes: 50,
+      maxBytes: 512 * 1024 * 1024,
+      maxObjectBytes: 100,
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { Readable } from "stream";
+import { describe, expect, it } from "vitest";
+
+import { generateSafeFilename } from "../../../utils/file";
+import { detectFileType, peekStream, resolveFileType } from "../../../utils/fileType";
+
+const hex = (value: string) => Buffer.from(value.replace(/ /g, ""), "hex");
+
+const samples: Array<[string, Buffer]> = [
+  ["image/jpeg", readFileSync(join(__dirname, "fixtures", "gps-exif-photo.jpg"))],
+  ["image/png", hex("89504e470d0a1a0a 0000000d49484452")],
+  ["image/gif", Buffer.from("GIF89a\x01\x00\x01\x00", "latin1")],
+  ["image/webp", Buffer.from("RIFF\x24\x00\x00\x00WEBPVP8 ", "latin1")],
+  ["audio/mpeg", Buffer.from("ID3\x04\x00\x00\x00\x00\x00\x00", "latin1")],
+  ["audio/mpeg", hex("fffb9064 00000000")],
+  ["audio/wav", Buffer.from("RIFF\x24\x00\x00\x00WAVEfmt ", "latin1")],
+  ["video/mp4", hex("00000018 66747970 69736f6d 00000200")],
+  ["video/webm", hex("1a45dfa3 9f4286810142f7810142f2810442f381084282847765626d")],
+  ["application/pdf", Buffer.from("%PDF-1.7\n")],
+  [
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    Buffer.concat([hex("504b0304"), Buffer.alloc(26), Buffer.from("xl/workbook.xml")]),
+  ],
+  ["text/plain", Buffer.from("name,amount\nalice,10\n")],
+  // "Имя,Сумма" and "Алиса,10" in cp1251, as older spreadsheet exports save CSV
+  [
+    "text/plain",
+    Buffer.from("\xc8\xec\xff,\xd1\xf3\xec\xec\xe0\n\xc0\xeb\xe8\xf1\xe0,10\n", "latin1"),
+  ],
+];
+
+describe("content sniffing", () => {
+  it.each(samples)("detects %s from its signature", (type, head) => {
+    expect(detectFileType(head)).toBe(type);
+  });
+
+  it("accepts matching and aliased declarations", () => {
+    expect(resolveFileType(hex("ffd8ffe0"), "image/jpeg")).toBe("image/jpeg");
+    expect(resolveFileType(Buffer.from("RIFF\0\0\0\0WAVE", "latin1"), "audio/wave")).toBe(
+      "audio/wav"
+    );
+    expect(resolveFileType(Buffer.from("a,b\n1,2\n"), "text/csv")).toBe("text/csv");
+  });
+
+  it("rejects content that does not match the declared type", () => {
+    expect(resolveFileType(hex("89504e470d0a1a0a"), "image/jpeg")).toBeNull();
+    expect(resolveFileType(Buffer.from("<svg></svg>"), "image/png")).toBeNull();
+    expect(resolveFileType(Buffer.from("%PDF-1.4"), "video/mp4")).toBeNull();
+    expect(resolveFileType(hex("00010203"), "text/csv")).toBeNull();
+    expect(resolveFileType(hex("7f454c46 02010103 fffe0102 03040506"), "text/csv")).toBeNull();
+  });
+
+  it("names files after the detected type rather than the client's extension", () => {
+    expect(generateSafeFilename("invoice.exe", "application/pdf")).toMatch(/\.pdf$/);
+    expect(generateSafeFilename("clip.MOV", "video/mp4")).toMatch(/\.mp4$/);
+  });
+
+  it("replays the sniffed bytes when peeking at a stream", async () => {
+    const source = Readable.from([Buffer.from("%PDF"), Buffer.from("-1.7\n"), Buffer.from("rest")]);
+    const { head, stream } = await peekStream(source, 6);
+
+    expect(head.toString()).toBe("%PDF-1");
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) chunks.push(chunk);
+    expect(Buffer.concat(chunks).toString()).toBe("%PDF-1.7\nrest");
+  });
+});
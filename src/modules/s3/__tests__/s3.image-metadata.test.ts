@@ -0,0 +1,100 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import sharp from "sharp";
+import { describe, it, expect } from "vitest";
+
+import {
+  compressImage,
+  generateAvif,
+  generateImageVariants,
+  sanitizeImage,
+} from "../../../utils/imageCompressor";
+
+const GPS_INFO_TAG = 0x8825;
+
+// 64x32 JPEG with EXIF orientation 6, camera make/model, GPS coordinates and a P3 ICC profile
+const fixture = readFileSync(join(__dirname, "fixtures", "gps-exif-photo.jpg"));
+
+function readIfd0Tags(exif: Buffer): number[] {
+  const tiff = exif.subarray(exif.indexOf("Exif\0\0") + 6);
+  const littleEndian = tiff.toString("ascii", 0, 2) === "II";
+  const readUInt16 = (offset: number) =>
+    littleEndian ? tiff.readUInt16LE(offset) : tiff.readUInt16BE(offset);
+  const readUInt32 = (offset: number) =>
+    littleEndian ? tiff.readUInt32LE(offset) : tiff.readUInt32BE(offset);
+
+  const ifdOffset = readUInt32(4);
+  const entryCount = readUInt16(ifdOffset);
+  const tags: number[] = [];
+  for (let i = 0; i < entryCount; i++) {
+    tags.push(readUInt16(ifdOffset + 2 + i * 12));
+  }
+  return tags;
+}
+
+async function expectStripped(buffer: Buffer) {
+  const metadata = await sharp(buffer).metadata();
+  expect(metadata.exif).toBeUndefined();
+  expect(metadata.xmp).toBeUndefined();
+  expect(metadata.iptc).toBeUndefined();
+  expect(metadata.orientation).toBeUndefined();
+  return metadata;
+}
+
+describe("image metadata sanitization", () => {
+  it("fixture carries GPS tags and a rotated orientation", async () => {
+    const metadata = await sharp(fixture).metadata();
+    expect(metadata.orientation).toBe(6);
+    expect(metadata.icc).toBeDefined();
+    expect(readIfd0Tags(metadata.exif!)).toContain(GPS_INFO_TAG);
+  });
+
+  it("strips GPS and auto-orients converted uploads", async () => {
+    const result = await compressImage({
+      buffer: fixture,
+      filename: "photo.jpg",
+      mimetype: "image/jpeg",
+    });
+
+    const metadata = await expectStripped(result.buffer);
+    expect(metadata.icc).toBeDefined();
+    expect([metadata.width, metadata.height]).toEqual([32, 64]);
+    expect([result.width, result.height]).toEqual([32, 64]);
+  });
+
+  it("strips GPS from uploads that skip WebP conversion", async () => {
+    const buffer = await sanitizeImage(fixture, "image/jpeg");
+
+    const metadata = await expectStripped(buffer);
+    expect(metadata.format).toBe("jpeg");
+    expect(metadata.icc).toBeDefined();
+    expect([metadata.width, metadata.height]).toEqual([32, 64]);
+  });
+
+  it("strips metadata from GIF uploads", async () => {
+    const gif = await sharp(fixture).gif().toBuffer();
+    const buffer = await sanitizeImage(gif, "image/gif");
+
+    const metadata = await expectStripped(buffer);
+    expect(metadata.format).toBe("gif");
+  });
+
+  it("strips GPS from AVIF renditions and width variants", async () => {
+    const large = await sharp(fixture)
+      .resize({ width: 400 })
+      .withMetadata()
+      .withExif({ IFD3: { GPSLatitudeRef: "N", GPSLatitude: "43/1 15/1 0/1" } })
+      .toBuffer();
+    expect(readIfd0Tags((await sharp(large).metadata()).exif!)).toContain(GPS_INFO_TAG);
+
+    const avif = await generateAvif(large, "image/jpeg");
+    await expectStripped(avif!);
+
+    const variants = await generateImageVariants(large, "image/jpeg");
+    expect(variants.length).toBeGreaterThan(0);
+    for (const variant of variants) {
+      await expectStripped(variant.buffer);
+      await expectStripped(variant.avifBuffer!);
+    }
+  });
+});
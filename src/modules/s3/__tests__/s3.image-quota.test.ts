@@ -0,0 +1,89 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { FakeS3Client } from "../../../__tests__/helpers/fakeS3Client";
+import s3Client from "../../../utils/s3";
+import ys3Client from "../../../utils/ys3";
+import { s3Service } from "../s3.service";
+
+const primary = s3Client as unknown as FakeS3Client;
+const yandex = ys3Client as unknown as FakeS3Client;
+
+const { quota } = vi.hoisted(() => ({
+  quota: { checked: [] as number[], remaining: Infinity },
+}));
+
+vi.mock("../../../utils/s3", async () => {
+  const { createFakeS3Client } = await import("../../../__tests__/helpers/fakeS3Client");
+  return { default: createFakeS3Client() };
+});
+vi.mock("../../../utils/ys3", async () => {
+  const { createFakeS3Client } = await import("../../../__tests__/helpers/fakeS3Client");
+  return { default: createFakeS3Client() };
+});
+vi.mock("../../../utils/redis", () => ({
+  default: {
+    smembers: async () => [],
+    del: async () => 0,
+    eval: async () => 0,
+    setex: async () => "OK",
+    xadd: async () => "1-0",
+  },
+}));
+vi.mock("../../../utils/storageQuota", () => ({
+  checkStorageQuota: async (_owner: unknown, size: number) => {
+    quota.checked.push(size);
+    return size <= quota.remaining
+      ? { allowed: true }
+      : { allowed: false, message: "Storage quota exceeded" };
+  },
+}));
+
+// 64x32 JPEG, small enough that no width variants are generated
+const photo = readFileSync(join(__dirname, "fixtures", "gps-exif-photo.jpg"));
+const alice = { id: 1, username: "alice" };
+
+function uploadPhoto() {
+  return s3Service.uploadImage(alice, {
+    originalname: "photo.jpg",
+    mimetype: "image/jpeg",
+    size: photo.length,
+    buffer: photo,
+  });
+}
+
+describe("s3 image upload quota", () => {
+  beforeEach(() => {
+    primary.reset();
+    yandex.reset();
+    quota.checked.length = 0;
+    quota.remaining = Infinity;
+  });
+
+  it("checks the quota against every rendition it writes", async () => {
+    await uploadPhoto();
+
+    const written = Array.from(primary.objects.values()).reduce(
+      (sum, body) => sum + body.length,
+      0
+    );
+    expect(quota.checked).toEqual([photo.length, written]);
+  });
+
+  it("writes nothing when the renditions would not fit", async () => {
+    await uploadPhoto();
+    const written = quota.checked[1];
+    primary.reset();
+    quota.checked.length = 0;
+    quota.remaining = written - 1;
+
+    await expect(uploadPhoto()).rejects.toMatchObject({
+      code: "STORAGE_QUOTA_EXCEEDED",
+      statusCode: 403,
+    });
+    // The original alone fits; only the full set of renditions does not
+    expect(quota.checked).toEqual([photo.length, written]);
+    expect(primary.objects.size).toBe(0);
+  });
+});
@@ -0,0 +1,77 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { s3Service } from "../s3.service";
+
+const { objects, sessions } = vi.hoisted(() => ({
+  objects: new Map<string, Date>(),
+  sessions: new Set<string>(),
+}));
+
+// Lists the bucket a key a page, so the sweep has to follow continuation tokens
+vi.mock("../../../utils/s3", () => ({
+  default: {
+    async send(command: { constructor: { name: string }; input: Record<string, any> }) {
+      const { Key, Prefix, ContinuationToken } = command.input;
+      switch (command.constructor.name) {
+        case "ListObjectsV2Command": {
+          const keys = Array.from(objects.keys())
+            .filter((key) => key.startsWith(Prefix))
+            .sort();
+          const start = Number(ContinuationToken) || 0;
+          return {
+            Contents: keys
+              .slice(start, start + 1)
+              .map((key) => ({ Key: key, Size: 10, LastModified: objects.get(key) })),
+            NextContinuationToken: start + 1 < keys.length ? String(start + 1) : undefined,
+          };
+        }
+        case "DeleteObjectCommand":
+          objects.delete(Key);
+          return {};
+        default:
+          throw new Error(`Unexpected ${command.constructor.name}`);
+      }
+    },
+  },
+}));
+vi.mock("../../../utils/redis", () => ({
+  default: {
+    exists: async (key: string) => (sessions.has(key) ? 1 : 0),
+  },
+}));
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe("s3 presigned uploads", () => {
+  beforeEach(() => {
+    objects.clear();
+    sessions.clear();
+  });
+
+  it("never serves an incoming upload before it is finalized", async () => {
+    objects.set(".incoming/alice/a-0001-image.webp", new Date());
+
+    for (const key of [
+      ".incoming/alice/a-0001-image.webp",
+      ".incoming%2Falice%2Fa-0001-image.webp",
+    ]) {
+      await expect(s3Service.getFile(key)).rejects.toMatchObject({ statusCode: 404 });
+    }
+  });
+
+  it("sweeps incoming uploads whose session has expired", async () => {
+    const old = new Date(Date.now() - DAY - 60 * 1000);
+    objects.set(".incoming/alice/a-0001-image.webp", old);
+    objects.set(".incoming/alice/a-0002-audio.mp3", old);
+    objects.set(".incoming/bob/b-0001-image.webp", new Date());
+    objects.set("alice/a-0000-image.webp", old);
+    sessions.add("presigned-upload:.incoming/alice/a-0002-audio.mp3");
+
+    await expect(s3Service.sweepUnfinalizedUploads()).resolves.toBe(1);
+    expect(Array.from(objects.keys()).sort()).toEqual([
+      ".incoming/alice/a-0002-audio.mp3",
+      ".incoming/bob/b-0001-image.webp",
+      "alice/a-0000-image.webp",
+    ]);
+  });
+});
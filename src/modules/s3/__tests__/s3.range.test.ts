@@ -0,0 +1,154 @@
+import { Readable } from "stream";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { parseRangeHeader, resolveByteRange } from "../../../utils/byteRange";
+import { streamToBuffer } from "../../../utils/s3.utils";
+import { RangeNotSatisfiableError, s3Service } from "../s3.service";
+
+const { objects, cache, requests } = vi.hoisted(() => ({
+  objects: new Map<string, Buffer>(),
+  cache: new Map<string, Buffer>(),
+  requests: [] as Array<string | undefined>,
+}));
+
+// Serves ranged GETs the way S3 does: a partial body with Content-Range, or InvalidRange
+vi.mock("../../../utils/ys3", () => ({
+  default: {
+    async send(command: { constructor: { name: string }; input: Record<string, any> }) {
+      const { Key, Range } = command.input;
+      const body = objects.get(Key);
+      if (!body) throw Object.assign(new Error("NotFound"), { name: "NotFound" });
+      if (command.constructor.name === "HeadObjectCommand") return { ContentLength: body.length };
+
+      requests.push(Range);
+      const match = Range ? /^bytes=(\d*)-(\d*)$/.exec(Range) : null;
+      if (!match) {
+        return {
+          Body: Readable.from([body]),
+          ContentType: "audio/mpeg",
+          ContentLength: body.length,
+        };
+      }
+      const start = match[1] ? Number(match[1]) : body.length - Number(match[2]);
+      const end =
+        match[1] && match[2] ? Math.min(Number(match[2]), body.length - 1) : body.length - 1;
+      if (start >= body.length) {
+        throw Object.assign(new Error("InvalidRange"), {
+          name: "InvalidRange",
+          $metadata: { httpStatusCode: 416 },
+        });
+      }
+      return {
+        Body: Readable.from([body.subarray(start, end + 1)]),
+        ContentType: "audio/mpeg",
+        ContentLength: end - start + 1,
+        ContentRange: `bytes ${start}-${end}/${body.length}`,
+      };
+    },
+  },
+}));
+vi.mock("../../../utils/redis", () => ({
+  default: {
+    getBuffer: async (key: string) => cache.get(key) || null,
+    hgetall: async () => ({ ContentType: "audio/mpeg", ContentLength: "1000" }),
+    setex: async (key: string, _ttl: number, value: Buffer) => cache.set(key, value),
+    hset: async () => 1,
+    expire: async () => 1,
+    eval: async () => [],
+    hincrby: async () => 1,
+    multi: () => ({
+      expire() {
+        return this;
+      },
+      zadd() {
+        return this;
+      },
+      exec: async () => [],
+    }),
+  },
+}));
+
+const TRACK = "alice/a-0001-audio.mp3";
+const body = Buffer.from(Array.from({ length: 1000 }, (_, index) => index % 256));
+
+describe("byte range parsing", () => {
+  it("reads single, open-ended, suffix and multiple ranges", () => {
+    expect(parseRangeHeader("bytes=0-99")).toEqual([{ start: 0, end: 99 }]);
+    expect(parseRangeHeader("bytes=500-")).toEqual([{ start: 500, end: undefined }]);
+    expect(parseRangeHeader("bytes=-200")).toEqual([{ suffix: 200 }]);
+    expect(parseRangeHeader("bytes=0-1, 5-6")).toHaveLength(2);
+  });
+
+  it("ignores headers it does not understand", () => {
+    expect(parseRangeHeader(undefined)).toBeNull();
+    expect(parseRangeHeader("items=0-5")).toBeNull();
+    expect(parseRangeHeader("bytes=9-3")).toBeNull();
+    expect(parseRangeHeader("bytes=-")).toBeNull();
+  });
+
+  it("clamps ranges to the file size", () => {
+    expect(resolveByteRange({ start: 900, end: 5000 }, 1000)).toEqual({
+      start: 900,
+      end: 999,
+      size: 1000,
+    });
+    expect(resolveByteRange({ suffix: 5000 }, 1000)).toMatchObject({ start: 0, end: 999 });
+    expect(resolveByteRange({ start: 1000 }, 1000)).toBeNull();
+  });
+});
+
+describe("s3 range requests", () => {
+  beforeEach(() => {
+    objects.clear();
+    cache.clear();
+    requests.length = 0;
+    objects.set(TRACK, body);
+  });
+
+  it("streams the range from storage on a cache miss and does not cache the part", async () => {
+    const result = await s3Service.getFile(TRACK, undefined, "bytes=100-199");
+    expect(requests).toEqual(["bytes=100-199"]);
+    expect(result.range).toEqual({ start: 100, end: 199, size: 1000 });
+    expect(result.buffer).toBeNull();
+    expect((await streamToBuffer(result.stream)).equals(body.subarray(100, 200))).toBe(true);
+    expect(cache.size).toBe(0);
+  });
+
+  it("slices the cached copy on a hit", async () => {
+    cache.set(`file:${TRACK}`, body);
+    const result = await s3Service.getFile(TRACK, undefined, "bytes=-10");
+    expect(requests).toHaveLength(0);
+    expect(result.range).toEqual({ start: 990, end: 999, size: 1000 });
+    expect(result.buffer.equals(body.subarray(990))).toBe(true);
+  });
+
+  it("answers ranges past the end with the full length", async () => {
+    await expect(s3Service.getFile(TRACK, undefined, "bytes=5000-")).rejects.toMatchObject({
+      statusCode: 416,
+      size: 1000,
+    });
+
+    cache.set(`file:${TRACK}`, body);
+    await expect(s3Service.getFile(TRACK, undefined, "bytes=1000-")).rejects.toBeInstanceOf(
+      RangeNotSatisfiableError
+    );
+  });
+
+  it("rejects multiple ranges", async () => {
+    await expect(
+      s3Service.getFileByPath("alice", "a-0001-audio.mp3", undefined, "bytes=0-1,5-6")
+    ).rejects.toMatchObject({ statusCode: 416, size: 1000 });
+    expect(requests).toHaveLength(0);
+  });
+
+  it("streams the requested range by path", async () => {
+    const result = await s3Service.getFileByPath(
+      "alice",
+      "a-0001-audio.mp3",
+      undefined,
+      "bytes=0-9"
+    );
+    expect(result.range).toEqual({ start: 0, end: 9, size: 1000 });
+    expect(result.ContentLength).toBe(10);
+  });
+});
@@ -0,0 +1,110 @@
+import { Readable } from "stream";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { FakeS3Client } from "../../../__tests__/helpers/fakeS3Client";
+import s3Client from "../../../utils/s3";
+import { streamToBuffer } from "../../../utils/s3.utils";
+import { getStorageReadStats } from "../../../utils/storageRead";
+import ys3Client from "../../../utils/ys3";
+import { s3Service } from "../s3.service";
+
+const primary = s3Client as unknown as FakeS3Client;
+const yandex = ys3Client as unknown as FakeS3Client;
+
+const { counters } = vi.hoisted(() => ({
+  counters: new Map<string, number>(),
+}));
+
+vi.mock("../../../utils/s3", async () => {
+  const { createFakeS3Client } = await import("../../../__tests__/helpers/fakeS3Client");
+  return { default: createFakeS3Client() };
+});
+vi.mock("../../../utils/ys3", async () => {
+  const { createFakeS3Client } = await import("../../../__tests__/helpers/fakeS3Client");
+  return { default: createFakeS3Client() };
+});
+vi.mock("../../../utils/redis", () => ({
+  default: {
+    hgetall: async (key: string) =>
+      key === "storage-reads:stats"
+        ? Object.fromEntries(Array.from(counters.entries()).map(([k, v]) => [k, String(v)]))
+        : {},
+    hincrby: async (_key: string, field: string, by: number) => {
+      counters.set(field, (counters.get(field) || 0) + by);
+      return counters.get(field);
+    },
+    set: async () => "OK",
+    get: async () => null,
+    setex: async () => "OK",
+  },
+}));
+
+const FILE = "a-0001-video.mp4";
+const KEY = `alice/${FILE}`;
+const BODY = Buffer.from("video-bytes");
+
+async function download(): Promise<Buffer> {
+  const result = await s3Service.getFileByPath("alice", FILE);
+  return streamToBuffer(result.Body as Readable);
+}
+
+describe("s3 read failover", () => {
+  beforeEach(() => {
+    primary.reset();
+    yandex.reset();
+    counters.clear();
+    primary.objects.set(KEY, BODY);
+    yandex.objects.set(KEY, BODY);
+  });
+
+  afterEach(() => {
+    delete process.env.READ_PROVIDER_TIMEOUT_MS;
+    delete process.env.READ_REPAIR_ENABLED;
+  });
+
+  it("reads from Yandex while it answers", async () => {
+    expect(await download()).toEqual(BODY);
+    await expect(getStorageReadStats()).resolves.toMatchObject({ yandex: 1, aws: 0, failovers: 0 });
+  });
+
+  it("serves from AWS and repairs Yandex when the object is missing there", async () => {
+    process.env.READ_REPAIR_ENABLED = "true";
+    yandex.objects.clear();
+
+    expect(await download()).toEqual(BODY);
+    await vi.waitFor(() => expect(yandex.objects.get(KEY)).toEqual(BODY));
+    await expect(getStorageReadStats()).resolves.toEqual({
+      yandex: 0,
+      aws: 1,
+      failovers: 1,
+      repairs: 1,
+    });
+  });
+
+  it("falls back to AWS once Yandex exceeds the timeout", async () => {
+    process.env.READ_PROVIDER_TIMEOUT_MS = "20";
+    yandex.stalled = true;
+
+    expect(await download()).toEqual(BODY);
+    await expect(getStorageReadStats()).resolves.toMatchObject({ aws: 1, failovers: 1 });
+  });
+
+  it("negotiates AVIF through AWS while Yandex is down", async () => {
+    const avif = Buffer.from("avif-bytes");
+    primary.objects.set("alice/a-0002-image.webp", Buffer.from("webp-bytes"));
+    primary.objects.set("alice/a-0002-image.avif", avif);
+    yandex.failure = new Error("ServiceUnavailable");
+
+    const result = await s3Service.getFileByPath("alice", "a-0002-image.webp", "image/avif");
+    expect(await streamToBuffer(result.Body as Readable)).toEqual(avif);
+  });
+
+  it("only reports a missing file when neither provider has it", async () => {
+    primary.objects.clear();
+    yandex.objects.clear();
+    await expect(download()).rejects.toMatchObject({ statusCode: 404 });
+
+    yandex.failure = new Error("ServiceUnavailable");
+    await expect(download()).rejects.toThrow("ServiceUnavailable");
+  });
+});
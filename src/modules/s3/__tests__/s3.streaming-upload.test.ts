@@ -0,0 +1,190 @@
+import { Request } from "express";
+import { Readable } from "stream";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { FakeS3Client } from "../../../__tests__/helpers/fakeS3Client";
+import s3Client from "../../../utils/s3";
+import { receiveFileStream } from "../../../utils/uploadStream";
+import ys3Client from "../../../utils/ys3";
+import { s3Service } from "../s3.service";
+
+const primary = s3Client as unknown as FakeS3Client;
+const yandex = ys3Client as unknown as FakeS3Client;
+
+const { enqueued } = vi.hoisted(() => ({
+  enqueued: [] as Array<{ op: string; key: string }>,
+}));
+
+vi.mock("../../../utils/s3", async () => {
+  const { createFakeS3Client } = await import("../../../__tests__/helpers/fakeS3Client");
+  return { default: createFakeS3Client() };
+});
+vi.mock("../../../utils/ys3", async () => {
+  const { createFakeS3Client } = await import("../../../__tests__/helpers/fakeS3Client");
+  return { default: createFakeS3Client() };
+});
+vi.mock("../../../utils/redis", () => ({
+  default: {
+    smembers: async () => [],
+    del: async () => 0,
+    eval: async () => 0,
+    xadd: async (_key: string, _id: string, ...fields: string[]) => {
+      enqueued.push({ op: fields[1], key: fields[3] });
+      return `${enqueued.length}-0`;
+    },
+  },
+}));
+
+vi.mock("../../../utils/storageQuota", () => ({
+  checkStorageQuota: async () => ({ allowed: true }),
+}));
+
+const alice = { id: 1, username: "alice" };
+const MB = 1024 * 1024;
+const CHUNK = Buffer.alloc(64 * 1024, 7);
+// ISO base media "ftyp" box, so content sniffing recognises the stream as MP4
+const MP4_HEADER = Buffer.from("000000186674797069736f6d0000020069736f6d69736f32", "hex");
+
+// Bytes read from the generated sources that S3 has not accepted yet: everything the upload
+// path is holding, from stream buffers to parts waiting on a slow request
+const readAhead = { current: 0, peak: 0 };
+
+function delayUploads(client: FakeS3Client) {
+  const send = client.send;
+  vi.spyOn(client, "send").mockImplementation(async (command, options) => {
+    await new Promise((resolve) => setTimeout(resolve, 1));
+    const result = await send(command, options);
+    readAhead.current -= (command.input.Body as Uint8Array | undefined)?.byteLength || 0;
+    return result;
+  });
+}
+
+function generateStream(size: number): Readable {
+  let remaining = size;
+  let first = true;
+  return new Readable({
+    read() {
+      if (remaining <= 0) {
+        this.push(null);
+        return;
+      }
+      const length = Math.min(remaining, CHUNK.length);
+      remaining -= length;
+      const chunk = first ? Buffer.concat([MP4_HEADER, CHUNK]) : CHUNK;
+      first = false;
+      readAhead.current += length;
+      readAhead.peak = Math.max(readAhead.peak, readAhead.current);
+      this.push(chunk.subarray(0, length));
+    },
+  });
+}
+
+describe("streaming uploads", () => {
+  beforeEach(() => {
+    primary.reset();
+    yandex.reset();
+    enqueued.length = 0;
+    readAhead.current = 0;
+    readAhead.peak = 0;
+    vi.restoreAllMocks();
+  });
+
+  it("reads each stream at most a few parts ahead of what S3 has accepted", async () => {
+    const fileSize = 40 * MB;
+    const fileCount = 3;
+    delayUploads(primary);
+
+    const results = await Promise.all(
+      Array.from({ length: fileCount }, (_, i) =>
+        s3Service.uploadVideo(alice, {
+          originalname: `clip-${i}.mp4`,
+          mimetype: "video/mp4",
+          stream: generateStream(fileSize),
+        })
+      )
+    );
+    expect(results.every((result) => result.url.includes("/alice/"))).toBe(true);
+
+    expect(primary.objects.size).toBe(fileCount);
+    for (const body of primary.objects.values()) expect(body.length).toBe(fileSize);
+
+    // Buffering would read all 120 MB before sending; streaming holds the two 5 MB parts in
+    // flight and the one being filled, plus stream buffers, per file
+    expect(readAhead.peak).toBeLessThanOrEqual(fileCount * (3 * 5 * MB + MB));
+  }, 60000);
+
+  it("writes to AWS only and queues the Yandex copy", async () => {
+    const result = await s3Service.uploadVideo(alice, {
+      originalname: "clip.mp4",
+      mimetype: "video/mp4",
+      stream: generateStream(MB),
+    });
+
+    const key = result.url.split("/").slice(-2).join("/");
+    expect(primary.objects.get(key)!.length).toBe(MB);
+    expect(yandex.commands).toEqual([]);
+    expect(enqueued).toEqual([{ op: "put", key }]);
+  });
+
+  it("aborts the upload once a stream passes the size limit", async () => {
+    await expect(
+      s3Service.uploadVideo(alice, {
+        originalname: "huge.mp4",
+        mimetype: "video/mp4",
+        stream: generateStream(101 * MB),
+      })
+    ).rejects.toMatchObject({ statusCode: 400, message: "Video file size exceeds 100 MB limit" });
+
+    expect(primary.commands).toContain("AbortMultipartUploadCommand");
+    expect(primary.commands).not.toContain("CompleteMultipartUploadCommand");
+    expect(yandex.commands).toEqual([]);
+    expect(enqueued).toEqual([]);
+  }, 60000);
+
+  it("rejects a stream whose content does not match the declared type", async () => {
+    await expect(
+      s3Service.uploadAudio(alice, {
+        originalname: "song.mp3",
+        mimetype: "audio/mpeg",
+        stream: generateStream(MB),
+      })
+    ).rejects.toMatchObject({ statusCode: 400, code: "FILE_TYPE_MISMATCH" });
+
+    expect(primary.commands).toEqual([]);
+    expect(yandex.commands).toEqual([]);
+    expect(enqueued).toEqual([]);
+  });
+
+  it("drains the body of a request it cannot take a file from", async () => {
+    const req = Object.assign(Readable.from([Buffer.alloc(MB)]), {
+      headers: { "content-type": "application/octet-stream" },
+      complete: false,
+    });
+
+    await expect(receiveFileStream(req as unknown as Request, "audio")).resolves.toBeNull();
+    await vi.waitFor(() => expect(req.readableEnded).toBe(true));
+  });
+
+  it("hands over the multipart file field without buffering the form", async () => {
+    const boundary = "----korner";
+    const body = Buffer.from(
+      `--${boundary}\r\n` +
+        'Content-Disposition: form-data; name="audio"; filename="song.mp3"\r\n' +
+        "Content-Type: audio/mpeg\r\n\r\n" +
+        "ID3-audio-bytes\r\n" +
+        `--${boundary}--\r\n`
+    );
+    const req = Object.assign(Readable.from([body]), {
+      headers: { "content-type": `multipart/form-data; boundary=${boundary}` },
+      complete: true,
+    });
+
+    const file = await receiveFileStream(req as unknown as Request, "audio");
+    expect(file).toMatchObject({ originalname: "song.mp3", mimetype: "audio/mpeg" });
+
+    const result = await s3Service.uploadAudio(alice, file!);
+    expect(result.message).toBe("Audio uploaded successfully");
+    expect(Array.from(primary.objects.values())).toEqual([Buffer.from("ID3-audio-bytes")]);
+    expect(enqueued).toEqual([{ op: "put", key: Array.from(primary.objects.keys())[0] }]);
+  });
+});
@@ -0,0 +1,143 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { FakeS3Client } from "../../../__tests__/helpers/fakeS3Client";
+import s3Client from "../../../utils/s3";
+import ys3Client from "../../../utils/ys3";
+import { s3Service } from "../s3.service";
+
+const primary = s3Client as unknown as FakeS3Client;
+const yandex = ys3Client as unknown as FakeS3Client;
+
+const { trashIndex, enqueued } = vi.hoisted(() => ({
+  trashIndex: new Map<string, number>(),
+  enqueued: [] as Array<{ op: string; key: string }>,
+}));
+
+vi.mock("../../../utils/s3", async () => {
+  const { createFakeS3Client } = await import("../../../__tests__/helpers/fakeS3Client");
+  return { default: createFakeS3Client() };
+});
+vi.mock("../../../utils/ys3", async () => {
+  const { createFakeS3Client } = await import("../../../__tests__/helpers/fakeS3Client");
+  return { default: createFakeS3Client() };
+});
+vi.mock("../../../utils/redis", () => ({
+  default: {
+    smembers: async () => [],
+    del: async () => 0,
+    eval: async () => 0,
+    hincrby: async () => 1,
+    xadd: async (_key: string, _id: string, ...fields: string[]) => {
+      enqueued.push({ op: fields[1], key: fields[3] });
+      return `${enqueued.length}-0`;
+    },
+    zadd: async (_set: string, score: number, member: string) => {
+      trashIndex.set(member, score);
+      return 1;
+    },
+    zrem: async (_set: string, member: string) => (trashIndex.delete(member) ? 1 : 0),
+    zrangebyscore: async (_set: string, min: number, max: number) =>
+      Array.from(trashIndex.keys()).filter((member) => {
+        const score = trashIndex.get(member)!;
+        return score >= min && score <= max;
+      }),
+  },
+}));
+
+const IMAGE = "alice/a1b2-0001-image.webp";
+const DAY = 24 * 60 * 60 * 1000;
+
+function store(key: string, size: number) {
+  primary.objects.set(key, Buffer.alloc(size));
+  yandex.objects.set(key, Buffer.alloc(size));
+}
+
+describe("s3 trash", () => {
+  beforeEach(() => {
+    primary.reset();
+    yandex.reset();
+    trashIndex.clear();
+    enqueued.length = 0;
+    vi.restoreAllMocks();
+    store(IMAGE, 1000);
+    store("alice/a1b2-0001-image.avif", 600);
+    store("alice/a1b2-0001-image_thumb.webp", 40);
+  });
+
+  it("moves a deleted image and its renditions to the trash and restores them", async () => {
+    const deleted = await s3Service.deleteFile("alice", `https://cdn.korner.lol/${IMAGE}`);
+    expect(deleted.trashKey).toMatch(/^alice\/\.trash\/\d+\/a1b2-0001-image\.webp$/);
+    expect(Array.from(primary.objects.keys()).every((key) => key.startsWith("alice/.trash/"))).toBe(
+      true
+    );
+    expect(enqueued).toEqual(
+      expect.arrayContaining([
+        { op: "put", key: deleted.trashKey },
+        { op: "delete", key: IMAGE },
+      ])
+    );
+    await expect(s3Service.getFile(encodeURIComponent(deleted.trashKey))).rejects.toMatchObject({
+      statusCode: 404,
+    });
+
+    const trash = await s3Service.listTrash("alice");
+    expect(trash.files).toEqual([
+      expect.objectContaining({ key: deleted.trashKey, originalKey: IMAGE, size: 1000 }),
+    ]);
+
+    await expect(s3Service.restoreFromTrash("alice", deleted.trashKey)).resolves.toMatchObject({
+      key: IMAGE,
+    });
+    expect(Array.from(primary.objects.keys()).sort()).toEqual([
+      "alice/a1b2-0001-image.avif",
+      IMAGE,
+      "alice/a1b2-0001-image_thumb.webp",
+    ]);
+    expect(trashIndex.size).toBe(0);
+  });
+
+  it("refuses to restore from another user's trash", async () => {
+    const deleted = await s3Service.deleteFile("alice", `https://cdn.korner.lol/${IMAGE}`);
+    await expect(s3Service.restoreFromTrash("bob", deleted.trashKey)).rejects.toMatchObject({
+      statusCode: 403,
+    });
+  });
+
+  it("purges the trash on request, one file or all of them", async () => {
+    const image = await s3Service.deleteFile("alice", `https://cdn.korner.lol/${IMAGE}`);
+    store("alice/b-0002-file.pdf", 50);
+    const file = await s3Service.deleteFile(
+      "alice",
+      "https://cdn.korner.lol/alice/b-0002-file.pdf"
+    );
+
+    await expect(s3Service.purgeTrash("bob", file.trashKey)).rejects.toMatchObject({
+      statusCode: 403,
+    });
+    await expect(s3Service.purgeTrash("alice", file.trashKey)).resolves.toMatchObject({
+      purged: 1,
+    });
+    expect(primary.objects.has(file.trashKey)).toBe(false);
+    expect(primary.objects.has(image.trashKey)).toBe(true);
+    await expect(s3Service.purgeTrash("alice", file.trashKey)).rejects.toMatchObject({
+      statusCode: 404,
+    });
+
+    await expect(s3Service.purgeTrash("alice")).resolves.toMatchObject({ purged: 1 });
+    expect(primary.objects.size).toBe(0);
+    expect(trashIndex.size).toBe(0);
+  });
+
+  it("purges files only once the retention period has passed", async () => {
+    const deletedAt = Date.now();
+    const deleted = await s3Service.deleteFile("alice", `https://cdn.korner.lol/${IMAGE}`);
+
+    vi.spyOn(Date, "now").mockReturnValue(deletedAt + 29 * DAY);
+    await expect(s3Service.purgeExpiredTrash()).resolves.toBe(0);
+
+    vi.spyOn(Date, "now").mockReturnValue(deletedAt + 31 * DAY);
+    await expect(s3Service.purgeExpiredTrash()).resolves.toBe(1);
+    expect(primary.objects.size).toBe(0);
+    expect(enqueued).toContainEqual({ op: "delete", key: deleted.trashKey });
+  });
+});
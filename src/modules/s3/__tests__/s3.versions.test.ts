@@ -0,0 +1,143 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { FakeS3Client } from "../../../__tests__/helpers/fakeS3Client";
+import s3Client from "../../../utils/s3";
+import ys3Client from "../../../utils/ys3";
+import { s3Service } from "../s3.service";
+
+const primary = s3Client as unknown as FakeS3Client;
+const yandex = ys3Client as unknown as FakeS3Client;
+
+const { enqueued } = vi.hoisted(() => ({
+  enqueued: [] as Array<{ op: string; key: string }>,
+}));
+
+vi.mock("../../../utils/s3", async () => {
+  const { createFakeS3Client } = await import("../../../__tests__/helpers/fakeS3Client");
+  return { default: createFakeS3Client() };
+});
+vi.mock("../../../utils/ys3", async () => {
+  const { createFakeS3Client } = await import("../../../__tests__/helpers/fakeS3Client");
+  return { default: createFakeS3Client() };
+});
+vi.mock("../../../utils/redis", () => ({
+  default: {
+    smembers: async () => [],
+    del: async () => 0,
+    eval: async () => 0,
+    setex: async () => "OK",
+    xadd: async (_key: string, _id: string, ...fields: string[]) => {
+      enqueued.push({ op: fields[1], key: fields[3] });
+      return `${enqueued.length}-0`;
+    },
+  },
+}));
+vi.mock("../../../utils/storageQuota", () => ({
+  checkStorageQuota: async () => ({ allowed: true }),
+}));
+
+// 64x32 JPEG, small enough that no width variants are generated
+const photo = readFileSync(join(__dirname, "fixtures", "gps-exif-photo.jpg"));
+const alice = { id: 1, username: "alice" };
+const COVER = "alice/a-0001-image.webp";
+
+function store(key: string, size: number) {
+  primary.objects.set(key, Buffer.alloc(size));
+  yandex.objects.set(key, Buffer.alloc(size));
+}
+
+function replaceCover() {
+  return s3Service.uploadImage(
+    alice,
+    { originalname: "cover.jpg", mimetype: "image/jpeg", size: photo.length, buffer: photo },
+    { replace: `https://cdn.korner.lol/${COVER}` }
+  );
+}
+
+describe("s3 file versions", () => {
+  beforeEach(() => {
+    primary.reset();
+    yandex.reset();
+    enqueued.length = 0;
+    delete process.env.MAX_FILE_VERSIONS;
+    store(COVER, 111);
+    store("alice/a-0001-image_thumb.webp", 11);
+  });
+
+  it("keeps the replaced image and its renditions as a version", async () => {
+    const result = await replaceCover();
+    expect(result.url).toBe(`https://cdn.korner.lol/${COVER}`);
+    expect(primary.objects.get(COVER)!.length).not.toBe(111);
+    expect(primary.objects.has("alice/a-0001-image_thumb.webp")).toBe(false);
+
+    const { versions } = await s3Service.listVersions("alice", COVER);
+    expect(versions).toEqual([expect.objectContaining({ size: 111 })]);
+    expect(
+      primary.objects.has(
+        `alice/.versions/a-0001-image.webp/${versions[0].versionId}/a-0001-image_thumb.webp`
+      )
+    ).toBe(true);
+  });
+
+  it("restores a version and keeps the replaced content as a new one", async () => {
+    await replaceCover();
+    const uploadedSize = primary.objects.get(COVER)!.length;
+    const [version] = (await s3Service.listVersions("alice", COVER)).versions;
+
+    const restored = await s3Service.restoreVersion("alice", COVER, version.versionId);
+    expect(restored.previousVersionId).not.toBeNull();
+    expect(primary.objects.get(COVER)!.length).toBe(111);
+    expect(enqueued).toContainEqual({ op: "put", key: "alice/a-0001-image_thumb.webp" });
+
+    const { versions } = await s3Service.listVersions("alice", COVER);
+    expect(versions).toEqual([
+      expect.objectContaining({ versionId: restored.previousVersionId, size: uploadedSize }),
+    ]);
+  });
+
+  it("trims versions to the cap after a restore", async () => {
+    process.env.MAX_FILE_VERSIONS = "2";
+    store("alice/.versions/a-0001-image.webp/1000/a-0001-image.webp", 1);
+    store("alice/.versions/b-0002-audio.mp3/2000/b-0002-audio.mp3", 2);
+    store("alice/.versions/a-0001-image.webp/3000/a-0001-image.webp", 3);
+
+    const restored = await s3Service.restoreVersion("alice", COVER, "3000");
+    expect(primary.objects.get(COVER)!.length).toBe(3);
+    const { versions } = await s3Service.listVersions("alice", COVER);
+    expect(versions.map((version) => version.versionId)).toEqual([restored.previousVersionId]);
+    expect(primary.objects.has("alice/.versions/b-0002-audio.mp3/2000/b-0002-audio.mp3")).toBe(
+      true
+    );
+  });
+
+  it("only replaces a file with the same type of content", async () => {
+    store("alice/b-0002-audio.mp3", 500);
+    await expect(
+      s3Service.uploadImage(
+        alice,
+        { originalname: "cover.jpg", mimetype: "image/jpeg", size: photo.length, buffer: photo },
+        { replace: "alice/b-0002-audio.mp3" }
+      )
+    ).rejects.toMatchObject({ statusCode: 400 });
+    expect(primary.objects.get("alice/b-0002-audio.mp3")!.length).toBe(500);
+  });
+
+  it("drops the user's oldest versions beyond the cap", async () => {
+    process.env.MAX_FILE_VERSIONS = "2";
+    store("alice/.versions/a-0001-image.webp/1000/a-0001-image.webp", 1);
+    store("alice/.versions/a-0001-image.webp/1000/a-0001-image.avif", 1);
+    store("alice/.versions/b-0002-audio.mp3/2000/b-0002-audio.mp3", 2);
+    store("alice/.versions/a-0001-image.webp/3000/a-0001-image.webp", 3);
+
+    await expect(s3Service.pruneVersions("alice")).resolves.toBe(1);
+    expect(Array.from(primary.objects.keys()).filter((key) => key.includes("/1000/"))).toHaveLength(
+      0
+    );
+    expect(enqueued.map(({ key }) => key).sort()).toEqual([
+      "alice/.versions/a-0001-image.webp/1000/a-0001-image.avif",
+      "alice/.versions/a-0001-image.webp/1000/a-0001-image.webp",
+    ]);
+  });
+});
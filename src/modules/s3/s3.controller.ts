@@ -1,8 +1,19 @@
 import { Request, Response } from "express";
+import { pipeline } from "stream";
 
-import { S3Error, authorizeAndGetUsername, s3Service } from "./s3.service";
+import {
+  RangeNotSatisfiableError,
+  S3Error,
+  UploadOptions,
+  authorizeAndGetUsername,
+  s3Service,
+} from "./s3.service";
+import { formatContentRange } from "../../utils/byteRange";
+import { ConditionalHeaders } from "../../utils/conditionalRequest";
 import { ERROR_CODES } from "../../utils/errorCodes";
 import { logger } from "../../utils/logger";
+import { UploadOwner } from "../../utils/storageQuota";
+import { discardRequestBody, receiveFileStream } from "../../utils/uploadStream";
 
 interface MulterRequest extends Request {
   file?: Express.Multer.File;
@@ -20,6 +31,18 @@ function handleError(error: unknown, res: Response, logPrefix: string) {
     .json({ error: { code: ERROR_CODES.SERVER_ERROR, message: "Internal server error" } });
 }
 
+function getConditionalHeaders(req: Request): ConditionalHeaders {
+  return {
+    ifNoneMatch: req.headers["if-none-match"],
+    ifModifiedSince: req.headers["if-modified-since"],
+  };
+}
+
+function sendRangeNotSatisfiable(res: Response, error: RangeNotSatisfiableError) {
+  res.setHeader("Content-Range", `bytes */${error.size}`);
+  res.status(416).json({ error: { code: error.code, message: error.message } });
+}
+
 async function getAuthorizedUsername(req: Request, res: Response): Promise<string | null> {
   const token = req.headers.authorization?.split(" ")[1];
   const authResult = await authorizeAndGetUsername(token);
@@ -31,10 +54,26 @@ async function getAuthorizedUsername(req: Request, res: Response): Promise<strin
   return authResult.username!;
 }
 
+function getUploadOptions(req: Request): UploadOptions {
+  const { replace } = req.query;
+  return typeof replace === "string" ? { replace } : {};
+}
+
+async function getAuthorizedOwner(req: Request, res: Response): Promise<UploadOwner | null> {
+  const token = req.headers.authorization?.split(" ")[1];
+  const authResult = await authorizeAndGetUsername(token);
+  if (authResult.error) {
+    const statusCode = authResult.error.code.startsWith("AUTH") ? 401 : 404;
+    res.status(statusCode).json({ error: authResult.error });
+    return null;
+  }
+  return { id: authResult.userId!, username: authResult.username! };
+}
+
 export async function uploadImage(req: MulterRequest, res: Response): Promise<void> {
   try {
-    const username = await getAuthorizedUsername(req, res);
-    if (!username) return;
+    const owner = await getAuthorizedOwner(req, res);
+    if (!owner) return;
 
     if (!req.file) {
       res
@@ -43,66 +82,73 @@ export async function uploadImage(req: MulterRequest, res: Response): Promise<vo
       return;
     }
 
-    const result = await s3Service.uploadImage(username, req.file);
+    const result = await s3Service.uploadImage(owner, req.file, getUploadOptions(req));
     res.status(200).json(result);
   } catch (error) {
     handleError(error, res, "Error processing image");
   }
 }
 
-export async function uploadAudio(req: MulterRequest, res: Response): Promise<void> {
+export async function uploadAudio(req: Request, res: Response): Promise<void> {
   try {
-    const username = await getAuthorizedUsername(req, res);
-    if (!username) return;
+    const owner = await getAuthorizedOwner(req, res);
+    if (!owner) return;
 
-    if (!req.file) {
+    const file = await receiveFileStream(req, "audio");
+    if (!file) {
       res
         .status(400)
         .json({ error: { code: ERROR_CODES.BAD_REQUEST, message: "No audio file provided" } });
       return;
     }
 
-    const result = await s3Service.uploadAudio(username, req.file);
+    const result = await s3Service.uploadAudio(owner, file, getUploadOptions(req));
     res.status(200).json(result);
   } catch (error) {
+    // Whatever the upload did not consume is still arriving
+    discardRequestBody(req);
     handleError(error, res, "Error processing audio");
   }
 }
 
-export async function uploadVideo(req: MulterRequest, res: Response): Promise<void> {
+export async function uploadVideo(req: Request, res: Response): Promise<void> {
   try {
-    const username = await getAuthorizedUsername(req, res);
-    if (!username) return;
+    const owner = await getAuthorizedOwner(req, res);
+    if (!owner) return;
 
-    if (!req.file) {
+    const file = await receiveFileStream(req, "video");
+    if (!file) {
       res
         .status(400)
         .json({ error: { code: ERROR_CODES.BAD_REQUEST, message: "No video file provided" } });
       return;
     }
 
-    const result = await s3Service.uploadVideo(username, req.file);
+    const result = await s3Service.uploadVideo(owner, file, getUploadOptions(req));
     res.status(200).json(result);
   } catch (error) {
+    discardRequestBody(req);
     handleError(error, res, "Error processing video");
   }
 }
 
-export async function uploadFile(req: MulterRequest, res: Response): Promise<void> {
+export async function uploadFile(req: Request, res: Response): Promise<void> {
   try {
-    const username = await getAuthorizedUsername(req, res);
-    if (!username) return;
+    const owner = await getAuthorizedOwner(req, res);
+    if (!owner) return;
 
-    if (!req.file) {
+    const file = await receiveFileStream(req, "file");
+    if (!file) {
       res
         .status(400)
         .json({ error: { code: ERROR_CODES.BAD_REQUEST, message: "No file provided" } });
       return;
     }
 
-    const result = await s3Service.uploadFile(username, req.file);
+    const result = await s3Service.uploadFile(owner, file, getUploadOptions(req));
     res.status(200).json(result);
   } catch (error) {
+    discardRequestBody(req);
     handleError(error, res, "Error processing file");
   }
 }
@@ -110,16 +156,49 @@ export async function uploadFile(req: MulterRequest, res: Response): Promise<voi
 export async function getFile(req: Request, res: Response): Promise<void> {
   try {
     const { key } = req.params;
-    const result = await s3Service.getFile(key);
+    const result = await s3Service.getFile(
+      key,
+      req.headers.accept,
+      req.headers.range,
+      getConditionalHeaders(req)
+    );
 
+    if (result.negotiable) res.setHeader("Vary", "Accept");
+    if (result.metadata.ETag) res.setHeader("ETag", result.metadata.ETag as string);
+    if (result.notModified) {
+      if (result.metadata.LastModified)
+        res.setHeader("Last-Modified", result.metadata.LastModified as string);
+      res.setHeader("Cache-Control", "public, max-age=31536000");
+      res.status(304).end();
+      return;
+    }
+    res.setHeader("Accept-Ranges", "bytes");
     res.setHeader("Content-Type", result.metadata.ContentType as string);
-    if (result.metadata.ContentLength)
+    if (result.range) {
+      res.status(206);
+      res.setHeader("Content-Range", formatContentRange(result.range));
+      res.setHeader("Content-Length", (result.range.end - result.range.start + 1).toString());
+    } else if (result.metadata.ContentLength) {
       res.setHeader("Content-Length", result.metadata.ContentLength as string);
+    }
     if (result.metadata.LastModified)
       res.setHeader("Last-Modified", result.metadata.LastModified as string);
     res.setHeader("Cache-Control", "public, max-age=31536000");
+    if (result.stream) {
+      pipeline(result.stream, res, (error: NodeJS.ErrnoException | null) => {
+        // Clients going away mid-download are routine, e.g. when seeking through a video
+        if (error && error.code !== "ERR_STREAM_PREMATURE_CLOSE") {
+          logger.error("Error streaming file:", { error: String(error) });
+        }
+      });
+      return;
+    }
     res.end(result.buffer);
   } catch (error) {
+    if (error instanceof RangeNotSatisfiableError) {
+      sendRangeNotSatisfiable(res, error);
+      return;
+    }
     if (error instanceof S3Error && error.statusCode === 404) {
       res.status(404).json({ error: "File not found" });
       return;
@@ -135,18 +214,100 @@ export async function getFileByPath(
 ): Promise<void> {
   try {
     const { username, filename } = req.params;
-    const result = await s3Service.getFileByPath(username, filename);
+    const result = await s3Service.getFileByPath(
+      username,
+      filename,
+      req.headers.accept,
+      req.headers.range,
+      getConditionalHeaders(req)
+    );
 
+    if (result.negotiable) res.setHeader("Vary", "Accept");
+    if (result.ETag) res.setHeader("ETag", result.ETag);
+    if (result.notModified) {
+      if (result.LastModified) res.setHeader("Last-Modified", result.LastModified.toUTCString());
+      res.setHeader("Cache-Control", "public, max-age=31536000");
+      res.status(304).end();
+      return;
+    }
+    res.setHeader("Accept-Ranges", "bytes");
+    if (result.range) {
+      res.status(206);
+      res.setHeader("Content-Range", formatContentRange(result.range));
+    }
     res.setHeader("Content-Type", result.ContentType || "application/octet-stream");
     if (result.ContentLength) res.setHeader("Content-Length", result.ContentLength.toString());
     if (result.LastModified) res.setHeader("Last-Modified", result.LastModified.toUTCString());
     res.setHeader("Cache-Control", "public, max-age=31536000");
     (result.Body as any).pipe(res);
   } catch (error) {
+    if (error instanceof RangeNotSatisfiableError) {
+      sendRangeNotSatisfiable(res, error);
+      return;
+    }
     handleError(error, res, "Error streaming file");
   }
 }
 
+export async function getTransformedFile(
+  req: Request<{ username: string; filename: string }>,
+  res: Response
+): Promise<void> {
+  try {
+    const { username, filename } = req.params;
+    const result = await s3Service.getTransformedFile(
+      username,
+      filename,
+      req.query as Record<string, unknown>
+    );
+
+    res.setHeader("Content-Type", result.contentType);
+    res.setHeader("Content-Length", result.buffer.length.toString());
+    res.setHeader("Cache-Control", "public, max-age=31536000, immutable");
+    res.end(result.buffer);
+  } catch (error) {
+    handleError(error, res, "Error transforming image");
+  }
+}
+
+export async function signTransform(req: Request, res: Response): Promise<void> {
+  try {
+    const username = await getAuthorizedUsername(req, res);
+    if (!username) return;
+
+    const { key, ...params } = req.body || {};
+    const result = s3Service.signTransform(username, key, params);
+    res.status(200).json(result);
+  } catch (error) {
+    handleError(error, res, "Error signing image transform");
+  }
+}
+
+export async function createPresignedUpload(req: Request, res: Response): Promise<void> {
+  try {
+    const owner = await getAuthorizedOwner(req, res);
+    if (!owner) return;
+
+    const { filename, mimetype, size } = req.body || {};
+    const result = await s3Service.createPresignedUpload(owner, { filename, mimetype, size });
+    res.status(200).json(result);
+  } catch (error) {
+    handleError(error, res, "Error creating presigned upload");
+  }
+}
+
+export async function finalizePresignedUpload(req: Request, res: Response): Promise<void> {
+  try {
+    const owner = await getAuthorizedOwner(req, res);
+    if (!owner) return;
+
+    const result = await s3Service.finalizePresignedUpload(owner, req.body?.key);
+    res.status(200).json(result);
+  } catch (error) {
+    handleError(error, res, "Error finalizing presigned upload");
+  }
+}
+
 export async function deleteFile(
   req: Request<{}, {}, { url: string }>,
   res: Response
@@ -161,3 +322,79 @@ export async function deleteFile(
     handleError(error, res, "Error deleting file");
   }
 }
+
+export async function deleteFiles(
+  req: Request<{}, {}, { files: unknown }>,
+  res: Response
+): Promise<void> {
+  try {
+    const username = await getAuthorizedUsername(req, res);
+    if (!username) return;
+
+    const result = await s3Service.deleteFiles(username, req.body?.files);
+    res.status(200).json(result);
+  } catch (error) {
+    handleError(error, res, "Error deleting files");
+  }
+}
+
+export async function listVersions(req: Request, res: Response): Promise<void> {
+  try {
+    const username = await getAuthorizedUsername(req, res);
+    if (!username) return;
+
+    const result = await s3Service.listVersions(username, req.query.key);
+    res.status(200).json(result);
+  } catch (error) {
+    handleError(error, res, "Error listing file versions");
+  }
+}
+
+export async function restoreVersion(req: Request, res: Response): Promise<void> {
+  try {
+    const username = await getAuthorizedUsername(req, res);
+    if (!username) return;
+
+    const { key, versionId } = req.body || {};
+    const result = await s3Service.restoreVersion(username, key, versionId);
+    res.status(200).json(result);
+  } catch (error) {
+    handleError(error, res, "Error restoring file version");
+  }
+}
+
+export async function listTrash(req: Request, res: Response): Promise<void> {
+  try {
+    const username = await getAuthorizedUsername(req, res);
+    if (!username) return;
+
+    const result = await s3Service.listTrash(username);
+    res.status(200).json(result);
+  } catch (error) {
+    handleError(error, res, "Error listing trash");
+  }
+}
+
+export async function restoreFromTrash(req: Request, res: Response): Promise<void> {
+  try {
+    const username = await getAuthorizedUsername(req, res);
+    if (!username) return;
+
+    const result = await s3Service.restoreFromTrash(username, req.body?.key);
+    res.status(200).json(result);
+  } catch (error) {
+    handleError(error, res, "Error restoring file from trash");
+  }
+}
+
+export async function purgeTrash(req: Request, res: Response): Promise<void> {
+  try {
+    const username = await getAuthorizedUsername(req, res);
+    if (!username) return;
+
+    const result = await s3Service.purgeTrash(username, req.body?.key);
+    res.status(200).json(result);
+  } catch (error) {
+    handleError(error, res, "Error purging trash");
+  }
+}
@@ -25,9 +25,10 @@ const corsOptions = {
   allowedHeaders: ["Content-Type", "Authorization"],
 };
 
+// Only images are buffered (sharp needs the whole file); other uploads stream to S3
 const upload = multer({
   storage: multer.memoryStorage(),
-  limits: { fileSize: 100 * 1024 * 1024 },
+  limits: { fileSize: 15 * 1024 * 1024 },
 });
 
 const uploadLimiter = rateLimit({
@@ -47,27 +48,23 @@ router.post(
   upload.single("image"),
   s3Controller.uploadImage
 );
+router.post("/upload/audio", cors(corsOptions), uploadLimiter, s3Controller.uploadAudio);
+router.post("/upload/video", cors(corsOptions), uploadLimiter, s3Controller.uploadVideo);
+router.post("/upload/file", cors(corsOptions), uploadLimiter, s3Controller.uploadFile);
 router.post(
-  "/upload/audio",
+  "/upload/presigned-post",
   cors(corsOptions),
   uploadLimiter,
-  upload.single("audio"),
-  s3Controller.uploadAudio
-);
-router.post(
-  "/upload/video",
-  cors(corsOptions),
-  uploadLimiter,
-  upload.single("video"),
-  s3Controller.uploadVideo
-);
-router.post(
-  "/upload/file",
-  cors(corsOptions),
-  uploadLimiter,
-  upload.single("file"),
-  s3Controller.uploadFile
+  s3Controller.createPresignedUpload
 );
+router.post("/upload/finalize", cors(corsOptions), s3Controller.finalizePresignedUpload);
+router.post("/transform/sign", cors(corsOptions), uploadLimiter, s3Controller.signTransform);
+router.get("/transform/:username/:filename", s3Controller.getTransformedFile);
+router.get("/versions", cors(corsOptions), s3Controller.listVersions);
+router.post("/versions/restore", cors(corsOptions), s3Controller.restoreVersion);
+router.get("/trash", cors(corsOptions), s3Controller.listTrash);
+router.post("/trash/restore", cors(corsOptions), s3Controller.restoreFromTrash);
+router.post("/trash/purge", cors(corsOptions), s3Controller.purgeTrash);
 router.get("/:key", s3Controller.getFile);
 router.get("/:username/:filename", s3Controller.getFileByPath);
 router.delete(
@@ -76,5 +73,11 @@ router.delete(
   express.json({ limit: "50mb" }),
   s3Controller.deleteFile
 );
+router.post(
+  "/delete/batch",
+  cors(corsOptions),
+  express.json({ limit: "1mb" }),
+  s3Controller.deleteFiles
+);
 
 export default router;
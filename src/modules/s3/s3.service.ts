@@ -1,19 +1,100 @@
-import { GetObjectCommand } from "@aws-sdk/client-s3";
+import {
+  CopyObjectCommand,
+  DeleteObjectCommand,
+  GetObjectCommand,
+  GetObjectCommandOutput,
+  HeadObjectCommand,
+} from "@aws-sdk/client-s3";
+import { createPresignedPost } from "@aws-sdk/s3-presigned-post";
+import { extname } from "path";
 import { Readable } from "stream";
 
+import {
+  ByteRange,
+  ByteRangeRequest,
+  formatRangeHeader,
+  parseContentRange,
+  parseRangeHeader,
+  resolveByteRange,
+} from "../../utils/byteRange";
+import { cacheValues } from "../../utils/cache";
+import { ConditionalHeaders, isNotModified } from "../../utils/conditionalRequest";
+import { cacheToDisk, getDiskCachedMetadata, openDiskCachedFile } from "../../utils/diskCache";
 import { ERROR_CODES } from "../../utils/errorCodes";
-import { generateSafeFilename } from "../../utils/file";
-import { compressImage } from "../../utils/imageCompressor";
+import {
+  generateSafeFilename,
+  getAvifFilename,
+  getMediaKind,
+  getVariantFilename,
+  isImageRendition,
+} from "../../utils/file";
+import { isCacheableSize, recordFileCacheOutcome, touchCachedFile } from "../../utils/fileCache";
+import { peekStream, resolveFileType, SNIFF_LENGTH } from "../../utils/fileType";
+import {
+  compressImage,
+  generateAvif,
+  generateImagePlaceholder,
+  generateImageVariants,
+  IMAGE_VARIANT_WIDTHS,
+} from "../../utils/imageCompressor";
+import {
+  applyImageTransform,
+  parseImageTransform,
+  serializeImageTransform,
+  signImageTransform,
+  verifyImageTransformSignature,
+} from "../../utils/imageTransform";
 import { verifyAccessToken } from "../../utils/jwt";
+import { logger } from "../../utils/logger";
 import { getUserByToken } from "../../utils/mainServiceClient";
 import redis from "../../utils/redis";
+import s3Client from "../../utils/s3";
 import {
   cacheFileToRedis,
+  cacheTransformToRedis,
+  copyInBothBuckets,
   deleteFromBothBuckets,
+  deleteManyFromBothBuckets,
+  isAvifNegotiable,
+  listUserObjectsPage,
+  markAvifAvailable,
+  moveInBothBuckets,
+  placeholderToMetadata,
+  queueReplication,
+  resolveNegotiatedKey,
+  streamToBothBuckets,
   streamToBuffer,
   uploadToBothBuckets,
+  UploadSizeLimitError,
 } from "../../utils/s3.utils";
-import yandexS3 from "../../utils/ys3";
+import { checkStorageQuota, UploadOwner } from "../../utils/storageQuota";
+import {
+  headObject,
+  isInvalidRangeError,
+  isNotFoundError,
+  readObject,
+} from "../../utils/storageRead";
+import { recordObjectStored } from "../../utils/storageUsage";
+import {
+  addToTrashIndex,
+  getTrashKey,
+  getTrashRetentionMs,
+  isTrashKey,
+  listTrash,
+  parseTrashKey,
+  purgeExpiredTrashedFiles,
+  purgeTrashedFiles,
+  removeFromTrashIndex,
+} from "../../utils/trash";
+import { IncomingFileStream } from "../../utils/uploadStream";
+import {
+  createVersionId,
+  getVersionKey,
+  getVersionLimit,
+  isVersionKey,
+  listFileVersions,
+  listUserVersions,
+} from "../../utils/versions";
 
 export class S3Error extends Error {
   code: string;
@@ -26,6 +107,22 @@ export class S3Error extends Error {
   }
 }
 
+/** Carries the file size so the response can state the range that would have been valid. */
+export class RangeNotSatisfiableError extends S3Error {
+  size: number;
+
+  constructor(size: number) {
+    super(ERROR_CODES.RANGE_NOT_SATISFIABLE, "Requested range not satisfiable", 416);
+    this.size = size;
+  }
+}
+
+function resolveRequestedRange(ranges: ByteRangeRequest[], size: number): ByteRange {
+  const range = ranges.length === 1 ? resolveByteRange(ranges[0], size) : null;
+  if (!range) throw new RangeNotSatisfiableError(size);
+  return range;
+}
+
 interface MulterFile {
   originalname: string;
   mimetype: string;
@@ -33,9 +130,188 @@ interface MulterFile {
   buffer: Buffer;
 }
 
+export interface UploadOptions {
+  /** URL or key of one of the user's files to overwrite; its current content becomes a version. */
+  replace?: string;
+}
+
+function fileTypeMismatch(declared: string): S3Error {
+  return new S3Error(
+    ERROR_CODES.FILE_TYPE_MISMATCH,
+    `File content does not match declared type ${declared}`,
+    400
+  );
+}
+
+const IMAGE_KEY_PATTERN = /\.(webp|jpe?g|png|gif)$/i;
+const IMAGE_UPLOAD_TYPES = ["image/jpeg", "image/png", "image/gif", "image/webp"];
+
+function getImageMaxSize(mimetype: string): number {
+  return mimetype === "image/gif" ? 15 * 1024 * 1024 : 5 * 1024 * 1024;
+}
+
+/**
+ * Size and type rules for media uploads. Exported so resumable upload endpoints can reject a
+ * file at creation time instead of after the last chunk arrives.
+ */
+export const MEDIA_UPLOAD_RULES = {
+  audio: {
+    maxSize: 100 * 1024 * 1024,
+    allowedTypes: ["audio/mpeg", "audio/wav", "audio/wave"],
+    label: "MP3, WAV",
+  },
+  video: {
+    maxSize: 100 * 1024 * 1024,
+    allowedTypes: ["video/mp4", "video/webm"],
+    label: "MP4, WEBM",
+  },
+  file: {
+    maxSize: 15 * 1024 * 1024,
+    allowedTypes: [
+      "application/pdf",
+      "application/vnd.ms-excel",
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      "text/csv",
+    ],
+    label: "PDF, XLS, XLSX, CSV",
+  },
+};
+
+type PresignedUploadKind = "image" | "audio" | "video";
+
+interface PresignedUploadSession {
+  username: string;
+  key: string;
+  kind: PresignedUploadKind;
+  filename: string;
+  mimetype: string;
+  maxSize: number;
+  finalKey?: string;
+}
+
+const PRESIGNED_POST_EXPIRES_IN = 3600;
+// Presigned uploads wait here, outside every user's prefix, until they are finalized
+const INCOMING_DIR = ".incoming";
+const INCOMING_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+const TRASH_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+const MAX_BULK_DELETE = 500;
+// Items copied into the trash at once during a bulk delete
+const BULK_COPY_CONCURRENCY = 10;
+
+type BulkDeleteResult =
+  | { file: string; key: string; success: true; trashKey: string }
+  | { file: string; key?: string; success: false; error: { code: string; message: string } };
+
+/** Accepts either a CDN URL or a bare object key. */
+function resolveFileKey(file: string): string | null {
+  if (/^https?:\/\//i.test(file)) {
+    try {
+      return new URL(file).pathname.replace(/^\//, "");
+    } catch {
+      return null;
+    }
+  }
+  return file.replace(/^\//, "");
+}
+
+/**
+ * Resolves the file an upload replaces. The stored filename must keep describing its content,
+ * so the replacement has to be the same kind of media with the same extension.
+ */
+function resolveReplaceTarget(username: string, replace: string, outputFilename: string): string {
+  const key = typeof replace === "string" && replace ? resolveFileKey(replace) : null;
+  if (!key) {
+    throw new S3Error(ERROR_CODES.BARS_INVALID_INPUT, "Invalid URL or key to replace", 400);
+  }
+  if (!key.startsWith(`${username}/`)) {
+    throw new S3Error(
+      ERROR_CODES.BARS_ACCESS_DENIED,
+      "You can only replace files in your own directory",
+      403
+    );
+  }
+  if (isTrashKey(key) || isVersionKey(key) || isImageRendition(key)) {
+    throw new S3Error(ERROR_CODES.BARS_INVALID_INPUT, "This file cannot be replaced", 400);
+  }
+  if (
+    getMediaKind(key) !== getMediaKind(outputFilename) ||
+    extname(key) !== extname(outputFilename)
+  ) {
+    throw new S3Error(
+      ERROR_CODES.BARS_INVALID_FILE_TYPE,
+      `Replacement must be the same type of file (${extname(key) || "no extension"})`,
+      400
+    );
+  }
+  return key;
+}
+
+/** Checks that `file` names one of the user's live files and returns its key. */
+function resolveOwnedFileKey(username: string, file: unknown): string {
+  const key = typeof file === "string" && file ? resolveFileKey(file) : null;
+  if (!key) {
+    throw new S3Error(ERROR_CODES.BARS_INVALID_INPUT, "A file URL or key is required", 400);
+  }
+  if (!key.startsWith(`${username}/`)) {
+    throw new S3Error(
+      ERROR_CODES.BARS_ACCESS_DENIED,
+      "You can only access files in your own directory",
+      403
+    );
+  }
+  if (isTrashKey(key) || isVersionKey(key)) {
+    throw new S3Error(ERROR_CODES.BARS_INVALID_INPUT, "Invalid file key", 400);
+  }
+  return key;
+}
+
+function getPublicBucket(): string {
+  return process.env.ACTIVE_ENV === "prod" ? "korner-pro" : "korner-lol";
+}
+
+function getCdnDomain(): string {
+  return process.env.ACTIVE_ENV === "prod" ? "https://cdn.korner.pro" : "https://cdn.korner.lol";
+}
+
+function getPresignedUploadKind(mimetype: string): PresignedUploadKind | null {
+  if (IMAGE_UPLOAD_TYPES.includes(mimetype)) return "image";
+  if (MEDIA_UPLOAD_RULES.audio.allowedTypes.includes(mimetype)) return "audio";
+  if (MEDIA_UPLOAD_RULES.video.allowedTypes.includes(mimetype)) return "video";
+  return null;
+}
+
+function getPresignedUploadSessionKey(key: string): string {
+  return `presigned-upload:${key}`;
+}
+
+async function savePresignedUploadSession(session: PresignedUploadSession): Promise<void> {
+  await redis.setex(
+    getPresignedUploadSessionKey(session.key),
+    cacheValues.day,
+    JSON.stringify(session)
+  );
+}
+
+async function discardPresignedUpload(session: PresignedUploadSession): Promise<void> {
+  await s3Client.send(new DeleteObjectCommand({ Bucket: getPublicBucket(), Key: session.key }));
+  await redis.del(getPresignedUploadSessionKey(session.key));
+}
+
+/**
+ * Keys of the renditions uploadImage stores next to an image: width variants and AVIF copies.
+ */
+function getDerivedImageKeys(key: string): string[] {
+  if (!IMAGE_KEY_PATTERN.test(key)) return [];
+
+  const variantKeys = Object.keys(IMAGE_VARIANT_WIDTHS).map((name) =>
+    getVariantFilename(key, name)
+  );
+  return [getAvifFilename(key), ...variantKeys, ...variantKeys.map(getAvifFilename)];
+}
+
 export async function authorizeAndGetUsername(
   token: string | undefined
-): Promise<{ username?: string; error?: { code: string; message: string } }> {
+): Promise<{ username?: string; userId?: number; error?: { code: string; message: string } }> {
   if (!token) {
     return {
       error: {
@@ -60,23 +336,26 @@ export async function authorizeAndGetUsername(
     return { error: { code: ERROR_CODES.AUTH_USER_NOT_EXIST, message: "User does not exist" } };
   }
 
-  return { username: user.username };
+  return { username: user.username, userId: user.id };
+}
+
+function quotaExceeded(message: string): S3Error {
+  return new S3Error(ERROR_CODES.STORAGE_QUOTA_EXCEEDED, message, 403);
 }
 
 class S3Service {
-  async uploadImage(username: string, file: MulterFile) {
-    const maxImageSize = file.mimetype === "image/gif" ? 15 * 1024 * 1024 : 5 * 1024 * 1024;
+  async uploadImage(owner: UploadOwner, file: MulterFile, options: UploadOptions = {}) {
+    const { username } = owner;
+    const maxImageSize = getImageMaxSize(file.mimetype);
     if (file.size > maxImageSize) {
-      const limitMb = file.mimetype === "image/gif" ? 15 : 5;
       throw new S3Error(
         ERROR_CODES.BAD_REQUEST,
-        `Image file size exceeds ${limitMb} MB limit`,
+        `Image file size exceeds ${maxImageSize / 1024 / 1024} MB limit`,
         400
       );
     }
 
-    const allowedImageTypes = ["image/jpeg", "image/png", "image/gif", "image/webp"];
-    if (!allowedImageTypes.includes(file.mimetype)) {
+    if (!IMAGE_UPLOAD_TYPES.includes(file.mimetype)) {
       throw new S3Error(
         ERROR_CODES.BARS_INVALID_FILE_TYPE,
         "Invalid image type. Allowed: JPEG, PNG, GIF, WEBP",
@@ -84,138 +363,734 @@ class S3Service {
       );
     }
 
+    const mimetype = resolveFileType(file.buffer.subarray(0, SNIFF_LENGTH), file.mimetype);
+    if (!mimetype) throw fileTypeMismatch(file.mimetype);
+
+    // Turn away an upload that cannot fit before spending time on its renditions
+    const quota = await checkStorageQuota(owner, file.size);
+    if (!quota.allowed) throw quotaExceeded(quota.message!);
+
     const compressed = await compressImage({
       buffer: file.buffer,
       filename: file.originalname,
-      mimetype: file.mimetype,
+      mimetype,
     });
 
     const buffer = compressed.buffer;
-    const outputFilename = generateSafeFilename(
-      compressed.outputFilename,
-      compressed.skipConversion ? file.mimetype : "image/webp"
+    const contentType = compressed.skipConversion ? mimetype : "image/webp";
+    let outputFilename = generateSafeFilename(compressed.outputFilename, contentType);
+    const replaceKey = options.replace
+      ? resolveReplaceTarget(username, options.replace, outputFilename)
+      : null;
+    if (replaceKey) outputFilename = replaceKey.slice(username.length + 1);
+
+    const [variants, avifBuffer, placeholder] = await Promise.all([
+      generateImageVariants(file.buffer, mimetype),
+      generateAvif(file.buffer, mimetype),
+      generateImagePlaceholder(file.buffer),
+    ]);
+    const variantFilenames = variants.map((variant) =>
+      getVariantFilename(outputFilename, variant.name)
     );
-    const contentType = compressed.skipConversion ? file.mimetype : "image/webp";
 
-    const url = await uploadToBothBuckets(username, buffer, outputFilename, contentType);
-    return { message: "Image uploaded successfully", url };
+    const avifRenditions: Array<{ filename: string; buffer: Buffer }> = [];
+    if (avifBuffer) avifRenditions.push({ filename: outputFilename, buffer: avifBuffer });
+    variants.forEach((variant, index) => {
+      if (variant.avifBuffer) {
+        avifRenditions.push({ filename: variantFilenames[index], buffer: variant.avifBuffer });
+      }
+    });
+
+    // The renditions can outweigh the upload itself, so check every byte about to be written
+    const totalSize = [
+      buffer,
+      ...variants.map((variant) => variant.buffer),
+      ...avifRenditions.map((rendition) => rendition.buffer),
+    ].reduce((sum, written) => sum + written.length, 0);
+    const totalQuota = await checkStorageQuota(owner, totalSize);
+    if (!totalQuota.allowed) throw quotaExceeded(totalQuota.message!);
+
+    const write = () =>
+      Promise.all([
+        Promise.all([
+          uploadToBothBuckets(
+            username,
+            buffer,
+            outputFilename,
+            contentType,
+            placeholderToMetadata(placeholder)
+          ),
+          ...variants.map((variant, index) =>
+            uploadToBothBuckets(username, variant.buffer, variantFilenames[index], "image/webp")
+          ),
+        ]),
+        Promise.all(
+          avifRenditions.map(async (rendition) => {
+            await uploadToBothBuckets(
+              username,
+              rendition.buffer,
+              getAvifFilename(rendition.filename),
+              "image/avif"
+            );
+            await markAvifAvailable(`${username}/${rendition.filename}`);
+          })
+        ),
+      ]);
+    const [[url, ...variantUrls]] = replaceKey
+      ? await this.replaceWith(replaceKey, write)
+      : await write();
+
+    const variantMap: Record<string, { url: string; width: number; height: number }> = {};
+    variants.forEach((variant, index) => {
+      variantMap[variant.name] = {
+        url: variantUrls[index],
+        width: variant.width,
+        height: variant.height,
+      };
+    });
+
+    return {
+      message: "Image uploaded successfully",
+      url,
+      width: compressed.width,
+      height: compressed.height,
+      variants: variantMap,
+      placeholder,
+    };
+  }
+
+  async uploadAudio(owner: UploadOwner, file: IncomingFileStream, options: UploadOptions = {}) {
+    const url = await this.streamMediaUpload(owner, file, "audio", "Audio file", options);
+    return { message: "Audio uploaded successfully", url };
+  }
+
+  async uploadVideo(owner: UploadOwner, file: IncomingFileStream, options: UploadOptions = {}) {
+    const url = await this.streamMediaUpload(owner, file, "video", "Video file", options);
+    return { message: "Video uploaded successfully", url };
+  }
+
+  async uploadFile(owner: UploadOwner, file: IncomingFileStream, options: UploadOptions = {}) {
+    const url = await this.streamMediaUpload(owner, file, "file", "File", options);
+    return { message: "File uploaded successfully", url };
   }
 
-  async uploadAudio(username: string, file: MulterFile) {
-    const maxAudioSize = 100 * 1024 * 1024;
-    if (file.size > maxAudioSize) {
-      throw new S3Error(ERROR_CODES.BAD_REQUEST, "Audio file size exceeds 100 MB limit", 400);
+  /**
+   * Validates the declared type (and size, when the caller knows it) up front, checks the
+   * leading bytes against the declared type, then streams the body to both buckets with the
+   * size limit enforced on the bytes actually received.
+   */
+  private async streamMediaUpload(
+    owner: UploadOwner,
+    file: IncomingFileStream,
+    kind: keyof typeof MEDIA_UPLOAD_RULES,
+    label: string,
+    options: UploadOptions = {}
+  ): Promise<string> {
+    const { maxSize, allowedTypes } = MEDIA_UPLOAD_RULES[kind];
+    const sizeError = `${label} size exceeds ${maxSize / 1024 / 1024} MB limit`;
+
+    if (file.size !== undefined && file.size > maxSize) {
+      throw new S3Error(ERROR_CODES.BAD_REQUEST, sizeError, 400);
     }
 
-    const allowedAudioTypes = ["audio/mpeg", "audio/wav", "audio/wave"];
-    if (!allowedAudioTypes.includes(file.mimetype)) {
+    if (!allowedTypes.includes(file.mimetype)) {
       throw new S3Error(
         ERROR_CODES.BARS_INVALID_FILE_TYPE,
-        "Invalid audio type. Allowed: MP3, WAV",
+        `Invalid ${kind} type. Allowed: ${MEDIA_UPLOAD_RULES[kind].label}`,
         400
       );
     }
 
-    const outputFilename = generateSafeFilename(file.originalname, file.mimetype);
-    const url = await uploadToBothBuckets(username, file.buffer, outputFilename, file.mimetype);
-    return { message: "Audio uploaded successfully", url };
+    const { head, stream } = await peekStream(file.stream);
+    const mimetype = resolveFileType(head, file.mimetype);
+    if (!mimetype) {
+      stream.destroy();
+      throw fileTypeMismatch(file.mimetype);
+    }
+
+    // Without a declared size, cap the stream at whatever the quota has left
+    const quota = await checkStorageQuota(owner, file.size ?? 1);
+    if (!quota.allowed) {
+      stream.destroy();
+      throw quotaExceeded(quota.message!);
+    }
+    const limit = quota.status ? Math.min(maxSize, quota.status.remaining) : maxSize;
+
+    let outputFilename = generateSafeFilename(file.originalname, mimetype);
+    let replaceKey: string | null = null;
+    try {
+      replaceKey = options.replace
+        ? resolveReplaceTarget(owner.username, options.replace, outputFilename)
+        : null;
+    } catch (error) {
+      stream.destroy();
+      throw error;
+    }
+    if (replaceKey) outputFilename = replaceKey.slice(owner.username.length + 1);
+
+    const write = () =>
+      streamToBothBuckets(owner.username, stream, outputFilename, mimetype, limit);
+    try {
+      const { url } = replaceKey ? await this.replaceWith(replaceKey, write) : await write();
+      return url;
+    } catch (error) {
+      if (error instanceof UploadSizeLimitError) {
+        if (limit < maxSize) throw quotaExceeded("Upload exceeds remaining storage quota");
+        throw new S3Error(ERROR_CODES.BAD_REQUEST, sizeError, 400);
+      }
+      throw error;
+    }
   }
 
-  async uploadVideo(username: string, file: MulterFile) {
-    const maxVideoSize = 100 * 1024 * 1024;
-    if (file.size > maxVideoSize) {
-      throw new S3Error(ERROR_CODES.BAD_REQUEST, "Video file size exceeds 100 MB limit", 400);
+  /**
+   * Issues a presigned POST policy so the client uploads straight to the AWS bucket. Objects
+   * land under `.incoming/`, outside every user's prefix, and only become public once
+   * finalizePresignedUpload has checked them. Anything never finalized is removed by
+   * sweepUnfinalizedUploads.
+   */
+  async createPresignedUpload(
+    owner: UploadOwner,
+    params: { filename?: string; mimetype?: string; size?: number }
+  ) {
+    const { username } = owner;
+    const { filename, mimetype } = params;
+    if (!filename || !mimetype) {
+      throw new S3Error(ERROR_CODES.BAD_REQUEST, "Filename and mimetype are required", 400);
     }
 
-    const allowedVideoTypes = ["video/mp4", "video/webm"];
-    if (!allowedVideoTypes.includes(file.mimetype)) {
+    const kind = getPresignedUploadKind(mimetype);
+    if (!kind) {
       throw new S3Error(
         ERROR_CODES.BARS_INVALID_FILE_TYPE,
-        "Invalid video type. Allowed: MP4, WEBM",
+        `Invalid file type. Allowed: JPEG, PNG, GIF, WEBP, ${MEDIA_UPLOAD_RULES.audio.label}, ${MEDIA_UPLOAD_RULES.video.label}`,
         400
       );
     }
 
-    const outputFilename = generateSafeFilename(file.originalname, file.mimetype);
-    const url = await uploadToBothBuckets(username, file.buffer, outputFilename, file.mimetype);
-    return { message: "Video uploaded successfully", url };
+    const maxSize = kind === "image" ? getImageMaxSize(mimetype) : MEDIA_UPLOAD_RULES[kind].maxSize;
+    if (params.size !== undefined && Number(params.size) > maxSize) {
+      throw new S3Error(
+        ERROR_CODES.BAD_REQUEST,
+        `File size exceeds ${maxSize / 1024 / 1024} MB limit`,
+        400
+      );
+    }
+
+    // The policy cannot allow more than the quota has left, whatever size was declared
+    const quota = await checkStorageQuota(owner, Number(params.size) || 1);
+    if (!quota.allowed) throw quotaExceeded(quota.message!);
+    const allowedSize = quota.status ? Math.min(maxSize, quota.status.remaining) : maxSize;
+
+    const key = `${INCOMING_DIR}/${username}/${generateSafeFilename(filename, mimetype)}`;
+    const { url, fields } = await createPresignedPost(s3Client, {
+      Bucket: getPublicBucket(),
+      Key: key,
+      Conditions: [
+        ["content-length-range", 1, allowedSize],
+        ["eq", "$Content-Type", mimetype],
+      ],
+      Fields: { "Content-Type": mimetype },
+      Expires: PRESIGNED_POST_EXPIRES_IN,
+    });
+
+    const session: PresignedUploadSession = {
+      username,
+      key,
+      kind,
+      filename,
+      mimetype,
+      maxSize: allowedSize,
+    };
+    await savePresignedUploadSession(session);
+
+    return { url, fields, key, maxSize: allowedSize, expiresIn: PRESIGNED_POST_EXPIRES_IN };
   }
 
-  async uploadFile(username: string, file: MulterFile) {
-    const maxFileSize = 15 * 1024 * 1024;
-    if (file.size > maxFileSize) {
-      throw new S3Error(ERROR_CODES.BAD_REQUEST, "File size exceeds 15 MB limit", 400);
+  /**
+   * Moves a presigned upload into the user's prefix: images go through the regular
+   * compression pipeline, audio and video are sniffed and copied server-side. Safe to retry
+   * after an infrastructure failure; content problems discard the upload.
+   */
+  async finalizePresignedUpload(owner: UploadOwner, key: string) {
+    const raw = key ? await redis.get(getPresignedUploadSessionKey(key)) : null;
+    if (!raw) {
+      throw new S3Error(
+        ERROR_CODES.UPLOAD_SESSION_NOT_FOUND,
+        "Upload session not found or expired",
+        404
+      );
     }
 
-    const allowedTypes = [
-      "application/pdf",
-      "application/vnd.ms-excel",
-      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
-      "text/csv",
-    ];
-    if (!allowedTypes.includes(file.mimetype)) {
+    const session: PresignedUploadSession = JSON.parse(raw);
+    if (session.username !== owner.username) {
       throw new S3Error(
-        ERROR_CODES.BARS_INVALID_FILE_TYPE,
-        "Invalid file type. Allowed: PDF, XLS, XLSX, CSV",
-        400
+        ERROR_CODES.ACCESS_DENIED,
+        "You do not have permission to finalize this upload",
+        403
       );
     }
 
-    const outputFilename = generateSafeFilename(file.originalname, file.mimetype);
-    const url = await uploadToBothBuckets(username, file.buffer, outputFilename, file.mimetype);
-    return { message: "File uploaded successfully", url };
+    let size: number;
+    try {
+      const head = await s3Client.send(
+        new HeadObjectCommand({ Bucket: getPublicBucket(), Key: session.key })
+      );
+      size = head.ContentLength || 0;
+    } catch (error: any) {
+      if (error.name === "NotFound" || error.$metadata?.httpStatusCode === 404) {
+        throw new S3Error(ERROR_CODES.UPLOAD_INCOMPLETE, "File has not been uploaded yet", 409);
+      }
+      throw error;
+    }
+
+    try {
+      if (size > session.maxSize) {
+        throw new S3Error(
+          ERROR_CODES.BAD_REQUEST,
+          `File size exceeds ${session.maxSize / 1024 / 1024} MB limit`,
+          400
+        );
+      }
+
+      const result =
+        session.kind === "image"
+          ? await this.finalizePresignedImage(owner, session, size)
+          : await this.finalizePresignedMedia(owner, session, size);
+      await discardPresignedUpload(session);
+      return result;
+    } catch (error) {
+      if (error instanceof S3Error) await discardPresignedUpload(session);
+      throw error;
+    }
+  }
+
+  private async finalizePresignedImage(
+    owner: UploadOwner,
+    session: PresignedUploadSession,
+    size: number
+  ) {
+    const response = await s3Client.send(
+      new GetObjectCommand({ Bucket: getPublicBucket(), Key: session.key })
+    );
+    const buffer = await streamToBuffer(response.Body as Readable);
+
+    return this.uploadImage(owner, {
+      originalname: session.filename,
+      mimetype: session.mimetype,
+      size,
+      buffer,
+    });
   }
 
-  async getFile(key: string) {
+  private async finalizePresignedMedia(
+    owner: UploadOwner,
+    session: PresignedUploadSession,
+    size: number
+  ) {
+    if (!session.finalKey) {
+      // Other uploads may have used up the quota since the policy was signed
+      const quota = await checkStorageQuota(owner, size);
+      if (!quota.allowed) throw quotaExceeded(quota.message!);
+
+      const response = await s3Client.send(
+        new GetObjectCommand({
+          Bucket: getPublicBucket(),
+          Key: session.key,
+          Range: `bytes=0-${SNIFF_LENGTH - 1}`,
+        })
+      );
+      const head = await streamToBuffer(response.Body as Readable);
+      const mimetype = resolveFileType(head, session.mimetype);
+      if (!mimetype) throw fileTypeMismatch(session.mimetype);
+
+      // Remember the destination first so a retry does not copy to a second random name
+      session.mimetype = mimetype;
+      session.finalKey = `${session.username}/${generateSafeFilename(session.filename, mimetype)}`;
+      await savePresignedUploadSession(session);
+    }
+
+    await s3Client.send(
+      new CopyObjectCommand({
+        Bucket: getPublicBucket(),
+        CopySource: `${getPublicBucket()}/${session.key}`,
+        Key: session.finalKey,
+        ContentType: session.mimetype,
+        CacheControl: "public, max-age=31536000, immutable",
+        MetadataDirective: "REPLACE",
+      })
+    );
+    await queueReplication("put", session.finalKey);
+    await recordObjectStored(session.finalKey, size);
+
+    return {
+      message: `${session.kind === "audio" ? "Audio" : "Video"} uploaded successfully`,
+      url: `${getCdnDomain()}/${session.finalKey}`,
+    };
+  }
+
+  /**
+   * Reads a file from the Redis cache, then the disk cache, then storage. Large misses come back
+   * as a `stream`; a Range header returns only the requested bytes, and a current client copy
+   * gets `notModified` with no body.
+   */
+  async getFile(
+    requestedKey: string,
+    accept?: string,
+    rangeHeader?: string,
+    conditions: ConditionalHeaders = {}
+  ) {
+    const decodedKey = decodeURIComponent(requestedKey);
+    // Dot prefixes such as `.incoming/` hold uploads that have not been checked yet
+    if (decodedKey.startsWith(".") || isTrashKey(decodedKey) || isVersionKey(decodedKey)) {
+      throw new S3Error("FILE_NOT_FOUND", "File not found", 404);
+    }
+
+    const ranges = parseRangeHeader(rangeHeader);
+    const negotiable = isAvifNegotiable(requestedKey);
+    const key = await resolveNegotiatedKey(requestedKey, accept);
     const cacheKey = `file:${key}`;
     const metadataKey = `metadata:${key}`;
 
+    const cachedMetadata = await redis.hgetall(metadataKey);
+    if (
+      cachedMetadata?.ContentType &&
+      isNotModified(conditions, cachedMetadata.ETag, cachedMetadata.LastModified)
+    ) {
+      recordFileCacheOutcome("hit");
+      return {
+        buffer: null as Buffer | null,
+        metadata: cachedMetadata,
+        fromCache: true,
+        negotiable,
+        notModified: true,
+      };
+    }
+
     const cached = await redis.getBuffer(cacheKey);
     if (cached) {
-      const cachedMetadata = await redis.hgetall(metadataKey);
       if (cachedMetadata?.ContentType) {
-        return { buffer: cached, metadata: cachedMetadata, fromCache: true };
+        recordFileCacheOutcome("hit");
+        touchCachedFile(key);
+        if (!ranges)
+          return { buffer: cached, metadata: cachedMetadata, fromCache: true, negotiable };
+
+        const range = resolveRequestedRange(ranges, cached.length);
+        return {
+          buffer: cached.subarray(range.start, range.end + 1),
+          metadata: cachedMetadata,
+          fromCache: true,
+          negotiable,
+          range,
+        };
       }
     }
 
-    const bucketName = process.env.ACTIVE_ENV === "prod" ? "korner-pro" : "korner-lol";
-    const command = new GetObjectCommand({ Bucket: bucketName, Key: decodeURIComponent(key) });
-    const { Body, ContentType, ContentLength, LastModified } = await yandexS3.send(command);
+    const objectKey = decodeURIComponent(key);
+    const diskMetadata = getDiskCachedMetadata(objectKey);
+    if (diskMetadata) {
+      if (isNotModified(conditions, diskMetadata.ETag, diskMetadata.LastModified)) {
+        recordFileCacheOutcome("disk");
+        return {
+          buffer: null as Buffer | null,
+          metadata: diskMetadata,
+          fromCache: true,
+          negotiable,
+          notModified: true,
+        };
+      }
+      const range = ranges
+        ? resolveRequestedRange(ranges, Number(diskMetadata.ContentLength))
+        : undefined;
+      const stream = await openDiskCachedFile(objectKey, range);
+      if (stream) {
+        recordFileCacheOutcome("disk");
+        return {
+          buffer: null as Buffer | null,
+          stream,
+          metadata: diskMetadata,
+          fromCache: true,
+          negotiable,
+          range,
+        };
+      }
+    }
+
+    if (ranges && ranges.length > 1) {
+      throw new RangeNotSatisfiableError(await this.getObjectSize(objectKey));
+    }
+
+    const { Body, ContentType, ContentLength, ContentRange, ETag, LastModified } =
+      await this.getObject(objectKey, ranges?.[0]);
 
     if (!Body) {
       throw new S3Error("FILE_NOT_FOUND", "File not found", 404);
     }
 
-    const buffer = await streamToBuffer(Body as Readable);
+    const metadata = {
+      ContentType: ContentType || "application/octet-stream",
+      ContentLength: ContentLength?.toString(),
+      LastModified: LastModified?.toUTCString(),
+      ETag,
+    };
 
-    void cacheFileToRedis(key, buffer, ContentType, ContentLength, LastModified);
+    const partial = parseContentRange(ContentRange);
+    if (partial || !isCacheableSize(ContentLength)) {
+      recordFileCacheOutcome("bypass");
+      if (isNotModified(conditions, ETag, LastModified)) {
+        (Body as Readable).destroy?.();
+        return {
+          buffer: null as Buffer | null,
+          metadata,
+          fromCache: false,
+          negotiable,
+          notModified: true,
+        };
+      }
+      // A store that ignored the range sends the whole body, which is passed on as a 200 and
+      // kept on disk like any other full body too large for Redis
+      return {
+        buffer: null as Buffer | null,
+        stream: partial ? (Body as Readable) : cacheToDisk(objectKey, metadata, Body as Readable),
+        metadata,
+        fromCache: false,
+        negotiable,
+        range: partial || undefined,
+      };
+    }
+
+    recordFileCacheOutcome("miss");
+    const buffer = await streamToBuffer(Body as Readable);
+    void cacheFileToRedis(key, buffer, ContentType, ContentLength, LastModified, ETag);
+    if (isNotModified(conditions, ETag, LastModified)) {
+      return {
+        buffer: null as Buffer | null,
+        metadata,
+        fromCache: false,
+        negotiable,
+        notModified: true,
+      };
+    }
+    if (!ranges) return { buffer, metadata, fromCache: false, negotiable };
 
+    const range = resolveRequestedRange(ranges, buffer.length);
     return {
-      buffer,
-      metadata: {
-        ContentType: ContentType || "application/octet-stream",
-        ContentLength: ContentLength?.toString() || buffer.length.toString(),
-        LastModified: LastModified?.toUTCString(),
-      },
+      buffer: buffer.subarray(range.start, range.end + 1),
+      metadata,
       fromCache: false,
+      negotiable,
+      range,
     };
   }
 
-  async getFileByPath(username: string, filename: string) {
+  /**
+   * Streams a file from the local disk cache or straight from storage, writing full bodies to
+   * disk on the way. A request whose copy is still current is answered from cached metadata,
+   * without a storage round trip, when there is some.
+   */
+  async getFileByPath(
+    username: string,
+    filename: string,
+    accept?: string,
+    rangeHeader?: string,
+    conditions: ConditionalHeaders = {}
+  ) {
     if (!filename || /[^\w\-._~]/.test(filename)) {
       throw new S3Error(ERROR_CODES.BARS_INVALID_INPUT, "Invalid filename", 400);
     }
 
-    const key = `${username}/${filename}`;
-    const bucketName = process.env.ACTIVE_ENV === "prod" ? "korner-pro" : "korner-lol";
-    const command = new GetObjectCommand({ Bucket: bucketName, Key: key });
-    const { Body, ContentType, ContentLength, LastModified } = await yandexS3.send(command);
+    const requestedKey = `${username}/${filename}`;
+    const key = await resolveNegotiatedKey(requestedKey, accept);
+    const negotiable = isAvifNegotiable(requestedKey);
+
+    const cachedMetadata = await redis.hgetall(`metadata:${key}`);
+    if (
+      cachedMetadata?.ContentType &&
+      isNotModified(conditions, cachedMetadata.ETag, cachedMetadata.LastModified)
+    ) {
+      return {
+        Body: null as Readable | null,
+        ETag: cachedMetadata.ETag,
+        LastModified: cachedMetadata.LastModified
+          ? new Date(cachedMetadata.LastModified)
+          : undefined,
+        negotiable,
+        notModified: true,
+      };
+    }
+
+    const ranges = parseRangeHeader(rangeHeader);
+    const diskMetadata = getDiskCachedMetadata(key);
+    if (diskMetadata) {
+      const lastModified = diskMetadata.LastModified
+        ? new Date(diskMetadata.LastModified)
+        : undefined;
+      if (isNotModified(conditions, diskMetadata.ETag, diskMetadata.LastModified)) {
+        return {
+          Body: null,
+          ETag: diskMetadata.ETag,
+          LastModified: lastModified,
+          negotiable,
+          notModified: true,
+        };
+      }
+      const range = ranges
+        ? resolveRequestedRange(ranges, Number(diskMetadata.ContentLength))
+        : undefined;
+      const stream = await openDiskCachedFile(key, range);
+      if (stream) {
+        return {
+          Body: stream,
+          ContentType: diskMetadata.ContentType,
+          ContentLength: range ? range.end - range.start + 1 : Number(diskMetadata.ContentLength),
+          ETag: diskMetadata.ETag,
+          LastModified: lastModified,
+          negotiable,
+          range,
+        };
+      }
+    }
+
+    if (ranges && ranges.length > 1) {
+      throw new RangeNotSatisfiableError(await this.getObjectSize(key));
+    }
+
+    const { Body, ContentType, ContentLength, ContentRange, ETag, LastModified } =
+      await this.getObject(key, ranges?.[0]);
 
     if (!Body) {
       throw new S3Error(ERROR_CODES.BARS_FILE_NOT_FOUND, "File not found", 404);
     }
 
-    return { Body, ContentType, ContentLength, LastModified };
+    if (isNotModified(conditions, ETag, LastModified)) {
+      (Body as Readable).destroy?.();
+      return { Body: null, ETag, LastModified, negotiable, notModified: true };
+    }
+
+    const range = parseContentRange(ContentRange);
+    const metadata = {
+      ContentType: ContentType || "application/octet-stream",
+      ContentLength: ContentLength?.toString(),
+      LastModified: LastModified?.toUTCString(),
+      ETag,
+    };
+    return {
+      Body: range ? (Body as Readable) : cacheToDisk(key, metadata, Body as Readable),
+      ContentType,
+      ContentLength,
+      ETag,
+      LastModified,
+      negotiable,
+      range,
+    };
+  }
+
+  /**
+   * GETs an object from whichever provider answers (see storageRead), forwarding the requested
+   * range. A range past the end becomes a 416 and an object neither provider has a 404.
+   */
+  private async getObject(key: string, range?: ByteRangeRequest): Promise<GetObjectCommandOutput> {
+    try {
+      const read = await readObject(key, range ? formatRangeHeader(range) : undefined);
+      logger.info(`[s3] Read ${key} from storage`, {
+        provider: read.provider,
+        failover: read.failover,
+      });
+      return read.output;
+    } catch (error) {
+      if (isInvalidRangeError(error)) {
+        throw new RangeNotSatisfiableError(await this.getObjectSize(key));
+      }
+      if (isNotFoundError(error))
+        throw new S3Error(ERROR_CODES.FILE_NOT_FOUND, "File not found", 404);
+      throw error;
+    }
+  }
+
+  /** Size of a stored object, for answering a 416 with the full length. */
+  private async getObjectSize(key: string): Promise<number> {
+    try {
+      const head = await headObject(key);
+      return head.output.ContentLength || 0;
+    } catch (error) {
+      if (isNotFoundError(error))
+        throw new S3Error(ERROR_CODES.FILE_NOT_FOUND, "File not found", 404);
+      throw error;
+    }
+  }
+
+  async getTransformedFile(username: string, filename: string, query: Record<string, unknown>) {
+    if (!filename || /[^\w\-._~]/.test(filename)) {
+      throw new S3Error(ERROR_CODES.BARS_INVALID_INPUT, "Invalid filename", 400);
+    }
+
+    const { transform, error } = parseImageTransform(query);
+    if (error) {
+      throw new S3Error(ERROR_CODES.BARS_INVALID_INPUT, error, 400);
+    }
+
+    const key = `${username}/${filename}`;
+    const serialized = serializeImageTransform(transform!);
+    if (!verifyImageTransformSignature(key, serialized, query.sig)) {
+      throw new S3Error(
+        ERROR_CODES.TRANSFORM_INVALID_SIGNATURE,
+        "Invalid transform signature",
+        403
+      );
+    }
+
+    const transformId = `${key}?${serialized}`;
+    const cached = await redis.getBuffer(`file:${transformId}`);
+    if (cached) {
+      const cachedMetadata = await redis.hgetall(`metadata:${transformId}`);
+      if (cachedMetadata?.ContentType) {
+        touchCachedFile(transformId);
+        return { buffer: cached, contentType: cachedMetadata.ContentType, fromCache: true };
+      }
+    }
+
+    const source = await this.getFile(key);
+    const sourceContentType = source.metadata.ContentType as string;
+    if (!sourceContentType.startsWith("image/")) {
+      source.stream?.destroy();
+      throw new S3Error(ERROR_CODES.BARS_INVALID_FILE_TYPE, "Only images can be transformed", 400);
+    }
+
+    const sourceBuffer = source.buffer || (await streamToBuffer(source.stream));
+    const result = await applyImageTransform(sourceBuffer, transform!, sourceContentType);
+
+    void cacheTransformToRedis(key, serialized, result.buffer, result.contentType);
+
+    return { buffer: result.buffer, contentType: result.contentType, fromCache: false };
+  }
+
+  signTransform(username: string, key: string, params: Record<string, unknown>) {
+    if (!key || typeof key !== "string") {
+      throw new S3Error(ERROR_CODES.BARS_INVALID_INPUT, "File key is required", 400);
+    }
+
+    const filename = key.slice(username.length + 1);
+    if (!key.startsWith(`${username}/`) || !filename || /[^\w\-._~]/.test(filename)) {
+      throw new S3Error(
+        ERROR_CODES.BARS_ACCESS_DENIED,
+        "You can only sign transforms for files in your own directory",
+        403
+      );
+    }
+
+    const query: Record<string, string> = {};
+    for (const param of ["w", "h", "fit", "pos", "fm", "q"]) {
+      if (params[param] !== undefined && params[param] !== null)
+        query[param] = String(params[param]);
+    }
+
+    const { transform, error } = parseImageTransform(query);
+    if (error) {
+      throw new S3Error(ERROR_CODES.BARS_INVALID_INPUT, error, 400);
+    }
+
+    const serialized = serializeImageTransform(transform!);
+    const signature = signImageTransform(key, serialized);
+    return { url: `/api/s3/transform/${key}?${serialized}&sig=${signature}` };
   }
 
   async deleteFile(username: string, url: string) {
@@ -239,8 +1114,416 @@ class S3Service {
       );
     }
 
-    await deleteFromBothBuckets(username, key);
-    return { message: "File deleted successfully", key };
+    if (isTrashKey(key)) {
+      throw new S3Error(ERROR_CODES.BARS_INVALID_INPUT, "File is already in the trash", 400);
+    }
+
+    // Renditions move with the original under the same timestamp so a restore brings them back
+    const deletedAt = Date.now();
+    const trashKey = getTrashKey(key, deletedAt);
+    if (!(await moveInBothBuckets(key, trashKey))) {
+      throw new S3Error(ERROR_CODES.FILE_NOT_FOUND, "File not found", 404);
+    }
+    await Promise.all(
+      getDerivedImageKeys(key).map((derivedKey) =>
+        moveInBothBuckets(derivedKey, getTrashKey(derivedKey, deletedAt))
+      )
+    );
+    await addToTrashIndex("public", trashKey, deletedAt);
+
+    return {
+      message: "File moved to trash",
+      key,
+      trashKey,
+      expiresAt: new Date(deletedAt + getTrashRetentionMs()).toISOString(),
+    };
+  }
+
+  /**
+   * Moves many files to the trash at once. Each item is checked on its own and reported in
+   * the results, so one bad URL does not fail the batch. Originals and their renditions are
+   * removed with DeleteObjects once copied.
+   */
+  async deleteFiles(username: string, files: unknown) {
+    if (!Array.isArray(files) || files.length === 0) {
+      throw new S3Error(
+        ERROR_CODES.BARS_INVALID_INPUT,
+        "files must be a non-empty array of URLs or keys",
+        400
+      );
+    }
+    if (files.length > MAX_BULK_DELETE) {
+      throw new S3Error(
+        ERROR_CODES.BARS_INVALID_INPUT,
+        `At most ${MAX_BULK_DELETE} files can be deleted at once`,
+        400
+      );
+    }
+
+    const fail = (file: string, code: string, message: string, key?: string): BulkDeleteResult => ({
+      file,
+      key,
+      success: false,
+      error: { code, message },
+    });
+
+    const deletedAt = Date.now();
+    const results: BulkDeleteResult[] = [];
+    const pending: Array<{ index: number; key: string }> = [];
+    const seen = new Set<string>();
+
+    files.forEach((file: unknown, index) => {
+      const label = typeof file === "string" ? file : String(file);
+      const key = typeof file === "string" && file ? resolveFileKey(file) : null;
+      if (!key) {
+        results.push(fail(label, ERROR_CODES.BARS_INVALID_INPUT, "Invalid URL or key"));
+      } else if (!key.startsWith(`${username}/`)) {
+        results.push(
+          fail(
+            label,
+            ERROR_CODES.BARS_ACCESS_DENIED,
+            "You can only delete files from your own directory",
+            key
+          )
+        );
+      } else if (isTrashKey(key)) {
+        results.push(
+          fail(label, ERROR_CODES.BARS_INVALID_INPUT, "File is already in the trash", key)
+        );
+      } else if (seen.has(key)) {
+        results.push(fail(label, ERROR_CODES.BARS_INVALID_INPUT, "Duplicate file in request", key));
+      } else {
+        seen.add(key);
+        results.push({ file: label, key, success: true, trashKey: getTrashKey(key, deletedAt) });
+        pending.push({ index, key });
+      }
+    });
+
+    // Copy into the trash first; only keys that made it there are deleted
+    const copied: Array<{ index: number; key: string }> = [];
+    for (let i = 0; i < pending.length; i += BULK_COPY_CONCURRENCY) {
+      await Promise.all(
+        pending.slice(i, i + BULK_COPY_CONCURRENCY).map(async (item) => {
+          const file = results[item.index].file;
+          try {
+            if (!(await copyInBothBuckets(item.key, getTrashKey(item.key, deletedAt)))) {
+              results[item.index] = fail(
+                file,
+                ERROR_CODES.FILE_NOT_FOUND,
+                "File not found",
+                item.key
+              );
+              return;
+            }
+            await Promise.all(
+              getDerivedImageKeys(item.key).map((derivedKey) =>
+                copyInBothBuckets(derivedKey, getTrashKey(derivedKey, deletedAt))
+              )
+            );
+            copied.push(item);
+          } catch (error) {
+            logger.error(`[s3] Failed to move ${item.key} to trash:`, { error: String(error) });
+            results[item.index] = fail(
+              file,
+              ERROR_CODES.SERVER_ERROR,
+              "Failed to delete file",
+              item.key
+            );
+          }
+        })
+      );
+    }
+
+    let failures = new Map<string, string>();
+    const keysToDelete: string[] = [];
+    for (const item of copied) keysToDelete.push(item.key, ...getDerivedImageKeys(item.key));
+    try {
+      failures = await deleteManyFromBothBuckets(keysToDelete);
+    } catch (error) {
+      logger.error("[s3] Bulk delete failed:", { error: String(error) });
+      for (const item of copied) failures.set(item.key, "Failed to delete file");
+    }
+
+    // Copies whose original survived are indexed too, so they expire rather than linger
+    await Promise.all(
+      copied.map((item) => addToTrashIndex("public", getTrashKey(item.key, deletedAt), deletedAt))
+    );
+    for (const item of copied) {
+      if (failures.has(item.key)) {
+        results[item.index] = fail(
+          results[item.index].file,
+          ERROR_CODES.SERVER_ERROR,
+          "Failed to delete file",
+          item.key
+        );
+      }
+    }
+
+    const deleted = results.filter((result) => result.success).length;
+    return {
+      message: `${deleted} of ${results.length} files moved to trash`,
+      deleted,
+      failed: results.length - deleted,
+      expiresAt: new Date(deletedAt + getTrashRetentionMs()).toISOString(),
+      results,
+    };
+  }
+
+  /**
+   * Moves `key` and its renditions into a new version, runs the upload that takes its place
+   * and then trims the user's versions to the cap. If the upload fails the previous content
+   * is moved back. Copies cached by the CDN under the immutable header are not purged.
+   */
+  private async replaceWith<T>(key: string, upload: () => Promise<T>): Promise<T> {
+    const versionId = await this.saveVersion(key);
+    if (!versionId) throw new S3Error(ERROR_CODES.FILE_NOT_FOUND, "File to replace not found", 404);
+
+    let result: T;
+    try {
+      result = await upload();
+    } catch (error) {
+      await this.moveVersionBack(key, this.getVersionKeys(key, versionId)).catch((rollbackError) =>
+        logger.error(`[s3] Failed to restore ${key} after a failed replace:`, {
+          error: String(rollbackError),
+        })
+      );
+      throw error;
+    }
+
+    await this.pruneVersions(key.slice(0, key.indexOf("/"))).catch((error) =>
+      logger.error("[s3] Failed to prune versions:", { error: String(error) })
+    );
+    return result;
+  }
+
+  /**
+   * Moves the live file and its renditions into a new version. Resolves null when there is no
+   * live file to keep.
+   */
+  private async saveVersion(key: string): Promise<string | null> {
+    const versionId = createVersionId();
+    if (!(await moveInBothBuckets(key, getVersionKey(key, versionId)))) return null;
+    await Promise.all(
+      getDerivedImageKeys(key).map((derivedKey) =>
+        moveInBothBuckets(derivedKey, getVersionKey(key, versionId, derivedKey))
+      )
+    );
+    return versionId;
+  }
+
+  private getVersionKeys(key: string, versionId: string): string[] {
+    return [key, ...getDerivedImageKeys(key)].map((file) => getVersionKey(key, versionId, file));
+  }
+
+  /** Moves version objects back next to the file they were taken from. */
+  private async moveVersionBack(key: string, versionKeys: string[]): Promise<void> {
+    const username = key.slice(0, key.indexOf("/"));
+    await Promise.all(
+      versionKeys.map((versionKey) =>
+        moveInBothBuckets(
+          versionKey,
+          `${username}/${versionKey.slice(versionKey.lastIndexOf("/") + 1)}`
+        )
+      )
+    );
+  }
+
+  /** Deletes the user's oldest versions beyond the retention cap. */
+  async pruneVersions(username: string): Promise<number> {
+    const versions = await listUserVersions(username);
+    const excess = versions.slice(0, Math.max(0, versions.length - getVersionLimit()));
+    for (const version of excess) {
+      await Promise.all(
+        version.keys.map((versionKey) => deleteFromBothBuckets(username, versionKey))
+      );
+    }
+    return excess.length;
+  }
+
+  async listVersions(username: string, file: unknown) {
+    const key = resolveOwnedFileKey(username, file);
+    const versions = await listFileVersions(key);
+    return {
+      key,
+      versions: versions.map((version) => ({
+        versionId: version.versionId,
+        size: version.size,
+        createdAt: new Date(version.createdAt).toISOString(),
+      })),
+    };
+  }
+
+  /**
+   * Puts a stored version back in place of the live file. The live file, if any, becomes a
+   * version itself, so a restore can be undone the same way, and the user's versions are then
+   * trimmed to the cap as after a replace.
+   */
+  async restoreVersion(username: string, file: unknown, versionId: unknown) {
+    const key = resolveOwnedFileKey(username, file);
+    if (typeof versionId !== "string" || !/^\d+$/.test(versionId)) {
+      throw new S3Error(ERROR_CODES.BARS_INVALID_INPUT, "A valid versionId is required", 400);
+    }
+
+    const version = (await listFileVersions(key)).find((item) => item.versionId === versionId);
+    if (!version) throw new S3Error(ERROR_CODES.FILE_NOT_FOUND, "Version not found", 404);
+
+    const previousVersionId = await this.saveVersion(key);
+    await this.moveVersionBack(key, version.keys);
+    await this.pruneVersions(username).catch((error) =>
+      logger.error("[s3] Failed to prune versions:", { error: String(error) })
+    );
+
+    return {
+      message: "Version restored successfully",
+      key,
+      url: `${getCdnDomain()}/${key}`,
+      previousVersionId,
+    };
+  }
+
+  async listTrash(username: string) {
+    const files = await listTrash(username, getPublicBucket());
+    return {
+      files: files.map((file) => ({
+        key: file.key,
+        originalKey: file.originalKey,
+        size: file.size,
+        deletedAt: new Date(file.deletedAt).toISOString(),
+        expiresAt: new Date(file.expiresAt).toISOString(),
+      })),
+    };
+  }
+
+  async restoreFromTrash(username: string, trashKey: string) {
+    const parsed = trashKey ? parseTrashKey(trashKey) : null;
+    if (!parsed) {
+      throw new S3Error(ERROR_CODES.BARS_INVALID_INPUT, "A trash key is required", 400);
+    }
+    if (!trashKey.startsWith(`${username}/`)) {
+      throw new S3Error(
+        ERROR_CODES.BARS_ACCESS_DENIED,
+        "You can only restore files from your own trash",
+        403
+      );
+    }
+
+    const { originalKey, deletedAt } = parsed;
+    if (!(await moveInBothBuckets(trashKey, originalKey))) {
+      throw new S3Error(ERROR_CODES.FILE_NOT_FOUND, "File not found in trash", 404);
+    }
+    await Promise.all(
+      getDerivedImageKeys(originalKey).map((derivedKey) =>
+        moveInBothBuckets(getTrashKey(derivedKey, deletedAt), derivedKey)
+      )
+    );
+    await removeFromTrashIndex("public", trashKey);
+
+    return {
+      message: "File restored successfully",
+      key: originalKey,
+      url: `${getCdnDomain()}/${originalKey}`,
+    };
+  }
+
+  /**
+   * Permanently deletes the user's trashed file at `trashKey`, or their whole trash, without
+   * waiting for the retention period, so a user at their quota can free space right away.
+   */
+  async purgeTrash(username: string, trashKey?: string) {
+    let keys: string[];
+    if (trashKey !== undefined) {
+      if (!trashKey || !parseTrashKey(trashKey)) {
+        throw new S3Error(ERROR_CODES.BARS_INVALID_INPUT, "A trash key is required", 400);
+      }
+      if (!trashKey.startsWith(`${username}/`)) {
+        throw new S3Error(
+          ERROR_CODES.BARS_ACCESS_DENIED,
+          "You can only delete files from your own trash",
+          403
+        );
+      }
+      await this.getObjectSize(trashKey);
+      keys = [trashKey];
+    } else {
+      keys = (await listTrash(username, getPublicBucket())).map((file) => file.key);
+    }
+
+    const purged = await purgeTrashedFiles("public", keys, (key) => this.deleteTrashedFile(key));
+    return { message: "Trash purged successfully", purged };
+  }
+
+  /** Deletes a trashed file and its trashed renditions; usage counters drop with them. */
+  private async deleteTrashedFile(trashKey: string): Promise<boolean> {
+    const username = trashKey.slice(0, trashKey.indexOf("/"));
+    const { originalKey, deletedAt } = parseTrashKey(trashKey)!;
+    await deleteFromBothBuckets(username, trashKey);
+    await Promise.all(
+      getDerivedImageKeys(originalKey).map((derivedKey) =>
+        deleteFromBothBuckets(username, getTrashKey(derivedKey, deletedAt))
+      )
+    );
+    return true;
+  }
+
+  /**
+   * Permanently deletes public files that have been in the trash past the retention period.
+   */
+  async purgeExpiredTrash(): Promise<number> {
+    return purgeExpiredTrashedFiles("public", (key) => this.deleteTrashedFile(key));
+  }
+
+  /**
+   * Deletes presigned uploads left under `.incoming/` once their session has expired, since
+   * they can no longer be finalized.
+   */
+  async sweepUnfinalizedUploads(): Promise<number> {
+    const cutoff = Date.now() - cacheValues.day * 1000;
+    let continuationToken: string | undefined;
+    let removed = 0;
+
+    do {
+      const page = await listUserObjectsPage(INCOMING_DIR, {
+        bucket: getPublicBucket(),
+        continuationToken,
+      });
+      for (const file of page.files) {
+        if (!file.lastModified || file.lastModified.getTime() > cutoff) continue;
+        // A retried finalize keeps the session alive past the day
+        if (await redis.exists(getPresignedUploadSessionKey(file.key))) continue;
+
+        await s3Client.send(new DeleteObjectCommand({ Bucket: getPublicBucket(), Key: file.key }));
+        removed++;
+      }
+      continuationToken = page.nextContinuationToken;
+    } while (continuationToken);
+
+    return removed;
+  }
+
+  startUnfinalizedUploadSweeper(): NodeJS.Timeout {
+    const timer = setInterval(() => {
+      this.sweepUnfinalizedUploads()
+        .then((removed) => {
+          if (removed > 0) logger.info(`[s3] Removed ${removed} unfinalized presigned uploads`);
+        })
+        .catch((error) =>
+          logger.error("[s3] Unfinalized upload sweep failed:", { error: String(error) })
+        );
+    }, INCOMING_SWEEP_INTERVAL_MS);
+    timer.unref();
+    return timer;
+  }
+
+  startTrashPurge(): NodeJS.Timeout {
+    const timer = setInterval(() => {
+      this.purgeExpiredTrash()
+        .then((purged) => {
+          if (purged > 0) logger.info(`[s3] Purged ${purged} files from the trash`);
+        })
+        .catch((error) => logger.error("[s3] Trash purge failed:", { error: String(error) }));
+    }, TRASH_PURGE_INTERVAL_MS);
+    timer.unref();
+    return timer;
   }
 }
 
@@ -1,17 +1,98 @@
 import { z } from "zod";
 
-import { errorResponse, messageUrlResponse } from "../../schemas/response.schema";
+import { errorResponse, imagePlaceholder, messageUrlResponse } from "../../schemas/response.schema";
 
 // --- Response Schemas ---
 
-export const uploadImageResponse = messageUrlResponse;
+const imageVariant = z.object({
+  url: z.string(),
+  width: z.number(),
+  height: z.number(),
+});
+
+export const uploadImageResponse = messageUrlResponse.extend({
+  width: z.number(),
+  height: z.number(),
+  variants: z.record(z.enum(["thumb", "small", "medium", "large"]), imageVariant),
+  placeholder: imagePlaceholder,
+});
 export const uploadAudioResponse = messageUrlResponse;
 export const uploadVideoResponse = messageUrlResponse;
 export const uploadFileResponse = messageUrlResponse;
 
+export const presignedPostResponse = z.object({
+  url: z.string(),
+  fields: z.record(z.string(), z.string()),
+  key: z.string(),
+  maxSize: z.number(),
+  expiresIn: z.number(),
+});
+export const finalizeUploadResponse = z.union([uploadImageResponse, messageUrlResponse]);
+
+export const signTransformResponse = z.object({
+  url: z.string(),
+});
+
 export const deleteFileResponse = z.object({
   message: z.string(),
   key: z.string(),
+  trashKey: z.string(),
+  expiresAt: z.string(),
+});
+
+const bulkDeleteResult = z.union([
+  z.object({
+    file: z.string(),
+    key: z.string(),
+    success: z.literal(true),
+    trashKey: z.string(),
+  }),
+  z.object({
+    file: z.string(),
+    key: z.string().optional(),
+    success: z.literal(false),
+    error: z.object({ code: z.string(), message: z.string() }),
+  }),
+]);
+
+export const deleteFilesResponse = z.object({
+  message: z.string(),
+  deleted: z.number(),
+  failed: z.number(),
+  expiresAt: z.string(),
+  results: z.array(bulkDeleteResult),
+});
+
+export const listVersionsResponse = z.object({
+  key: z.string(),
+  versions: z.array(
+    z.object({
+      versionId: z.string(),
+      size: z.number(),
+      createdAt: z.string(),
+    })
+  ),
+});
+
+export const restoreVersionResponse = messageUrlResponse.extend({
+  key: z.string(),
+  previousVersionId: z.string().nullable(),
+});
+
+const trashedFile = z.object({
+  key: z.string(),
+  originalKey: z.string(),
+  size: z.number(),
+  deletedAt: z.string(),
+  expiresAt: z.string(),
+});
+
+export const listTrashResponse = z.object({
+  files: z.array(trashedFile),
+});
+
+export const restoreFromTrashResponse = messageUrlResponse.extend({
+  key: z.string(),
 });
 
 export const s3ErrorResponse = errorResponse;
@@ -2,76 +2,174 @@ import { describe, it, expect } from "vitest";
 
 import { getUsageResponse, listFilesResponse, storageErrorResponse } from "../storage.validation";
 
+function totals(totalSize: number, totalSizeFormatted: string, fileCount: number) {
+  return { totalSize, totalSizeFormatted, fileCount };
+}
+
+const emptyTotals = totals(0, "0 B", 0);
+
 describe("storage response contracts", () => {
   describe("getUsageResponse", () => {
     it("accepts full storage usage", () => {
       const valid = {
         username: "testuser",
+        plan: "free",
+        limit: 1073741824,
+        used: 1048576,
+        remaining: 1072693248,
+        percentUsed: 0.1,
+        fileLimit: 1000,
+        filesRemaining: 998,
         totalSize: 1048576,
         totalSizeFormatted: "1 MB",
         fileCount: 2,
-        files: [
-          {
-            key: "testuser/img.webp",
-            filename: "img.webp",
-            size: 524288,
-            sizeFormatted: "512 KB",
-            lastModified: "2025-01-01T00:00:00Z",
-          },
-          {
-            key: "testuser/doc.pdf",
-            filename: "doc.pdf",
-            size: 524288,
-            sizeFormatted: "512 KB",
-            lastModified: "2025-01-01T00:00:00Z",
-          },
-        ],
+        byVisibility: {
+          public: totals(524288, "512 KB", 1),
+          private: totals(524288, "512 KB", 1),
+        },
+        byKind: {
+          image: totals(524288, "512 KB", 1),
+          audio: emptyTotals,
+          video: emptyTotals,
+          file: totals(524288, "512 KB", 1),
+          other: emptyTotals,
+        },
+        reconciledAt: "2025-01-01T00:00:00.000Z",
       };
       expect(getUsageResponse.safeParse(valid).success).toBe(true);
     });
 
-    it("accepts empty files", () => {
+    it("accepts an empty library", () => {
       const valid = {
         username: "testuser",
+        plan: "free",
+        limit: 1073741824,
+        used: 0,
+        remaining: 1073741824,
+        percentUsed: 0,
+        fileLimit: 1000,
+        filesRemaining: 1000,
         totalSize: 0,
         totalSizeFormatted: "0 B",
         fileCount: 0,
-        files: [],
+        byVisibility: { public: emptyTotals, private: emptyTotals },
+        byKind: {
+          image: emptyTotals,
+          audio: emptyTotals,
+          video: emptyTotals,
+          file: emptyTotals,
+          other: emptyTotals,
+        },
+        reconciledAt: "2025-01-01T00:00:00.000Z",
       };
       expect(getUsageResponse.safeParse(valid).success).toBe(true);
     });
 
+    it("rejects a breakdown missing a media kind", () => {
+      const invalid = {
+        username: "testuser",
+        plan: "free",
+        limit: 1073741824,
+        used: 0,
+        remaining: 1073741824,
+        percentUsed: 0,
+        fileLimit: 1000,
+        filesRemaining: 1000,
+        totalSize: 0,
+        totalSizeFormatted: "0 B",
+        fileCount: 0,
+        byVisibility: { public: emptyTotals, private: emptyTotals },
+        byKind: { image: emptyTotals, audio: emptyTotals, video: emptyTotals, file: emptyTotals },
+        reconciledAt: "2025-01-01T00:00:00.000Z",
+      };
+      expect(getUsageResponse.safeParse(invalid).success).toBe(false);
+    });
+
+    it("rejects without quota fields", () => {
+      expect(
+        getUsageResponse.safeParse({
+          username: "testuser",
+          totalSize: 0,
+          totalSizeFormatted: "0 B",
+          fileCount: 0,
+          reconciledAt: "2025-01-01T00:00:00.000Z",
+        }).success
+      ).toBe(false);
+    });
+
     it("rejects without username", () => {
       expect(
         getUsageResponse.safeParse({
           totalSize: 0,
           totalSizeFormatted: "0 B",
           fileCount: 0,
-          files: [],
+          reconciledAt: "2025-01-01T00:00:00.000Z",
         }).success
       ).toBe(false);
     });
   });
 
   describe("listFilesResponse", () => {
-    it("accepts file list", () => {
+    it("accepts a page with a cursor", () => {
+      const valid = {
+        files: [
+          {
+            key: "user/lq2x-1a2b3c4d-image.webp",
+            filename: "lq2x-1a2b3c4d-image.webp",
+            kind: "image",
+            size: 100,
+            sizeFormatted: "100 B",
+            lastModified: null,
+          },
+        ],
+        fileCount: 1,
+        nextCursor: "eyJzb3J0IjoibmFtZSJ9",
+      };
+      expect(listFilesResponse.safeParse(valid).success).toBe(true);
+    });
+
+    it("accepts the last page with files of unknown kind", () => {
       const valid = {
+        files: [
+          {
+            key: "user/legacy.bin",
+            filename: "legacy.bin",
+            kind: null,
+            size: 100,
+            sizeFormatted: "100 B",
+            lastModified: "2025-01-01T00:00:00Z",
+          },
+        ],
+        fileCount: 1,
+        nextCursor: null,
+      };
+      expect(listFilesResponse.safeParse(valid).success).toBe(true);
+    });
+
+    it("rejects an unknown kind", () => {
+      const invalid = {
         files: [
           {
             key: "user/f.webp",
             filename: "f.webp",
+            kind: "document",
             size: 100,
             sizeFormatted: "100 B",
             lastModified: null,
           },
         ],
         fileCount: 1,
+        nextCursor: null,
       };
-      expect(listFilesResponse.safeParse(valid).success).toBe(true);
+      expect(listFilesResponse.safeParse(invalid).success).toBe(false);
     });
 
     it("rejects without fileCount", () => {
-      expect(listFilesResponse.safeParse({ files: [] }).success).toBe(false);
+      expect(listFilesResponse.safeParse({ files: [], nextCursor: null }).success).toBe(false);
+    });
+
+    it("rejects without nextCursor", () => {
+      expect(listFilesResponse.safeParse({ files: [], fileCount: 0 }).success).toBe(false);
     });
   });
 
@@ -0,0 +1,145 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { storageService } from "../storage.service";
+
+const { objects, requests, cache } = vi.hoisted(() => ({
+  objects: [] as Array<{ Key: string; Size: number; LastModified: Date }>,
+  requests: [] as Array<{ StartAfter?: string; ContinuationToken?: string; MaxKeys?: number }>,
+  cache: new Map<string, string>(),
+}));
+
+// Serves the prefix in key order, with the continuation token being the next index
+vi.mock("../../../utils/s3", () => ({
+  default: {
+    async send(command: {
+      input: { StartAfter?: string; ContinuationToken?: string; MaxKeys?: number };
+    }) {
+      const { StartAfter, ContinuationToken, MaxKeys = 1000 } = command.input;
+      requests.push({ StartAfter, ContinuationToken, MaxKeys });
+      const after = objects.filter((object) => StartAfter && object.Key <= StartAfter).length;
+      const start = ContinuationToken ? Number(ContinuationToken) : after;
+      const end = Math.min(start + MaxKeys, objects.length);
+      return {
+        Contents: objects.slice(start, end),
+        NextContinuationToken: end < objects.length ? String(end) : undefined,
+      };
+    },
+  },
+}));
+vi.mock("../../../utils/redis", () => ({
+  default: {
+    get: async (key: string) => cache.get(key) ?? null,
+    setex: async (key: string, _ttl: number, value: string) => cache.set(key, value),
+  },
+}));
+
+function addObject(filename: string, size: number, date: string) {
+  objects.push({ Key: `alice/${filename}`, Size: size, LastModified: new Date(date) });
+}
+
+describe("storage file listing", () => {
+  beforeEach(() => {
+    objects.length = 0;
+    requests.length = 0;
+    cache.clear();
+    addObject(".trash/1735689600000/a0-0000-image.webp", 300, "2025-01-01T00:00:00Z");
+    addObject(".versions/a1-0001-image.webp/1735689600000", 300, "2025-01-01T00:00:00Z");
+    addObject("a1-0001-image.webp", 300, "2025-01-01T00:00:00Z");
+    addObject("a1-0001-image_thumb.webp", 20, "2025-01-01T00:00:00Z");
+    addObject("a2-0002-audio.mp3", 5000, "2025-02-01T00:00:00Z");
+    addObject("a3-0003-file.wav", 4000, "2025-03-01T00:00:00Z");
+    addObject("a4-0004-video.mp4", 90000, "2025-04-01T00:00:00Z");
+    addObject("a5-0005-file.pdf", 100, "2025-05-01T00:00:00Z");
+  });
+
+  it("pages through the prefix with continuation tokens, skipping image renditions", async () => {
+    const first = await storageService.listFiles("alice", { limit: "4" });
+    expect(first.files.map((file) => file.filename)).toEqual([
+      "a1-0001-image.webp",
+      "a2-0002-audio.mp3",
+      "a3-0003-file.wav",
+      "a4-0004-video.mp4",
+    ]);
+    expect(first.nextCursor).not.toBeNull();
+
+    const second = await storageService.listFiles("alice", {
+      limit: "4",
+      cursor: first.nextCursor!,
+    });
+    expect(second.files.map((file) => file.filename)).toEqual(["a5-0005-file.pdf"]);
+    expect(second.nextCursor).toBeNull();
+    expect(requests[2].ContinuationToken).toBe("7");
+  });
+
+  it("starts name order past the trash and versions folders", async () => {
+    const result = await storageService.listFiles("alice", { limit: "1" });
+    expect(result.files.map((file) => file.filename)).toEqual(["a1-0001-image.webp"]);
+    expect(requests).toHaveLength(1);
+    expect(requests[0].StartAfter).toBe("alice//");
+  });
+
+  it("keeps listing until a filtered page is full", async () => {
+    const result = await storageService.listFiles("alice", { kind: "audio", limit: "2" });
+    expect(result.files.map((file) => [file.filename, file.kind])).toEqual([
+      ["a2-0002-audio.mp3", "audio"],
+      ["a3-0003-file.wav", "audio"],
+    ]);
+    expect(requests.every((request) => request.MaxKeys! <= 2)).toBe(true);
+  });
+
+  it("sorts by size across pages and filters by date range", async () => {
+    const query = { sort: "size", from: "2025-02-01T00:00:00Z", limit: "2" };
+    const first = await storageService.listFiles("alice", query);
+    expect(first.files.map((file) => file.size)).toEqual([90000, 5000]);
+
+    const listed = requests.length;
+    const second = await storageService.listFiles("alice", { ...query, cursor: first.nextCursor! });
+    expect(second.files.map((file) => file.size)).toEqual([4000, 100]);
+    expect(second.nextCursor).toBeNull();
+    // Later pages come from the sorted snapshot rather than another walk of the prefix
+    expect(requests).toHaveLength(listed);
+  });
+
+  it("lists the prefix again once the sorted snapshot has expired", async () => {
+    const first = await storageService.listFiles("alice", { sort: "date", limit: "2" });
+    cache.clear();
+    addObject("a6-0006-file.pdf", 10, "2025-06-01T00:00:00Z");
+
+    const second = await storageService.listFiles("alice", {
+      sort: "date",
+      limit: "2",
+      cursor: first.nextCursor!,
+    });
+    expect(first.files.map((file) => file.filename)).toEqual([
+      "a5-0005-file.pdf",
+      "a4-0004-video.mp4",
+    ]);
+    expect(second.files.map((file) => file.filename)).toEqual([
+      "a4-0004-video.mp4",
+      "a3-0003-file.wav",
+    ]);
+  });
+
+  it("rejects a cursor from a differently sorted listing", async () => {
+    const first = await storageService.listFiles("alice", { sort: "date", limit: "1" });
+    await expect(
+      storageService.listFiles("alice", { sort: "size", cursor: first.nextCursor! })
+    ).rejects.toMatchObject({ statusCode: 400 });
+  });
+
+  it("rejects a cursor from a listing with other filters", async () => {
+    const first = await storageService.listFiles("alice", { kind: "audio", limit: "1" });
+    await expect(
+      storageService.listFiles("alice", { kind: "video", cursor: first.nextCursor! })
+    ).rejects.toMatchObject({ statusCode: 400 });
+    await expect(
+      storageService.listFiles("alice", { cursor: first.nextCursor! })
+    ).rejects.toMatchObject({ statusCode: 400 });
+  });
+
+  it("rejects unknown kinds", async () => {
+    await expect(storageService.listFiles("alice", { kind: "document" })).rejects.toMatchObject({
+      statusCode: 400,
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { checkStorageQuota } from "../../../utils/storageQuota";
+
+const { usage, subscription } = vi.hoisted(() => ({
+  usage: { public: { bytes: 0, files: 0 }, private: { bytes: 0, files: 0 }, reconciledAt: 0 },
+  subscription: {
+    current: { hasActiveSubscription: false } as {
+      hasActiveSubscription: boolean;
+      subscriptionPlan?: string;
+    } | null,
+  },
+}));
+
+vi.mock("../../../utils/storageUsage", () => ({
+  getStorageUsage: async () => usage,
+}));
+
+vi.mock("../../../utils/billingServiceClient", () => ({
+  getActiveSubscriptionInfo: async () => {
+    if (!subscription.current) throw new Error("Billing service unavailable");
+    return subscription.current;
+  },
+}));
+
+const alice = { id: 1, username: "alice" };
+const MB = 1024 * 1024;
+
+describe("storage quotas", () => {
+  beforeEach(() => {
+    usage.public = { bytes: 0, files: 0 };
+    usage.private = { bytes: 0, files: 0 };
+    subscription.current = { hasActiveSubscription: false };
+    process.env.STORAGE_QUOTAS = JSON.stringify({
+      free: { bytes: 10 * MB, files: 3 },
+      pro: { bytes: 100 * MB, files: 100 },
+    });
+  });
+
+  it("counts both buckets against the plan limit", async () => {
+    usage.public = { bytes: 6 * MB, files: 1 };
+    usage.private = { bytes: 3 * MB, files: 1 };
+
+    const result = await checkStorageQuota(alice, 2 * MB);
+    expect(result).toMatchObject({ allowed: false, status: { used: 9 * MB, remaining: MB } });
+
+    await expect(checkStorageQuota(alice, MB)).resolves.toMatchObject({ allowed: true });
+  });
+
+  it("limits the number of files", async () => {
+    usage.public = { bytes: 3, files: 2 };
+
+    await expect(checkStorageQuota(alice, 1)).resolves.toMatchObject({
+      allowed: true,
+      status: { fileCount: 2, filesRemaining: 1 },
+    });
+    usage.private = { bytes: 1, files: 1 };
+    await expect(checkStorageQuota(alice, 1)).resolves.toMatchObject({ allowed: false });
+  });
+
+  it("applies the limits of the active subscription plan", async () => {
+    subscription.current = { hasActiveSubscription: true, subscriptionPlan: "pro" };
+    usage.public = { bytes: 50 * MB, files: 1 };
+
+    await expect(checkStorageQuota(alice, 20 * MB)).resolves.toMatchObject({
+      allowed: true,
+      status: { plan: "pro", limit: 100 * MB, percentUsed: 50 },
+    });
+  });
+
+  it("allows uploads while billing is unreachable", async () => {
+    subscription.current = null;
+    usage.public = { bytes: 50 * MB, files: 1 };
+
+    await expect(checkStorageQuota(alice, MB)).resolves.toEqual({ allowed: true });
+  });
+});
@@ -0,0 +1,161 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  getStorageUsage,
+  recordObjectRemoved,
+  recordObjectStored,
+} from "../../../utils/storageUsage";
+import { storageService } from "../storage.service";
+
+const { hashes, scores, buckets, listings } = vi.hoisted(() => ({
+  hashes: new Map<string, Record<string, string>>(),
+  scores: new Map<string, number>(),
+  buckets: new Map<string, Array<{ key: string; size: number }>>(),
+  listings: { count: 0 },
+}));
+
+vi.mock("../../../utils/redis", () => {
+  const fake = {
+    // Mirrors the increment-if-present script: eval(script, 1, key, field, delta, field, delta)
+    eval: async (_script: string, _keys: number, key: string, ...args: Array<string | number>) => {
+      const hash = hashes.get(key);
+      if (!hash) return 0;
+      for (let i = 0; i < args.length; i += 2) {
+        hash[args[i]] = String((Number(hash[args[i]]) || 0) + Number(args[i + 1]));
+      }
+      return 1;
+    },
+    hgetall: async (key: string) => ({ ...(hashes.get(key) || {}) }),
+    zrangebyscore: async (_set: string, min: number, max: number) =>
+      Array.from(scores.keys()).filter((member) => {
+        const score = scores.get(member)!;
+        return score >= min && score <= max;
+      }),
+    multi() {
+      const queue: Array<() => void> = [];
+      const chain = {
+        hset(key: string, values: Record<string, number>) {
+          queue.push(() => {
+            const hash = hashes.get(key) || {};
+            for (const field of Object.keys(values)) hash[field] = String(values[field]);
+            hashes.set(key, hash);
+          });
+          return chain;
+        },
+        zadd(_set: string, score: number, member: string) {
+          queue.push(() => scores.set(member, score));
+          return chain;
+        },
+        async exec() {
+          queue.forEach((apply) => apply());
+          return [];
+        },
+      };
+      return chain;
+    },
+  };
+  return { default: fake };
+});
+
+vi.mock("../../../utils/s3.utils", () => ({
+  getUserStorageUsage: async (_username: string, bucket = "korner-lol") => {
+    listings.count++;
+    const files = buckets.get(bucket) || [];
+    return {
+      totalSize: files.reduce((sum, file) => sum + file.size, 0),
+      fileCount: files.length,
+      files,
+    };
+  },
+}));
+
+describe("storage usage counters", () => {
+  beforeEach(() => {
+    hashes.clear();
+    scores.clear();
+    buckets.clear();
+    listings.count = 0;
+  });
+
+  it("lists once, then answers from counters kept up to date by uploads and deletes", async () => {
+    buckets.set("korner-lol", [
+      { key: "alice/a-0001-image.webp", size: 100 },
+      { key: "alice/a-0001-image_thumb.webp", size: 10 },
+      { key: "alice/a-0001-image.avif", size: 50 },
+    ]);
+    buckets.set("korner-lol-private", [{ key: "alice/b-0002-file.pdf", size: 400 }]);
+
+    await expect(getStorageUsage("alice")).resolves.toMatchObject({
+      public: { bytes: 160, files: 1 },
+      private: { bytes: 400, files: 1 },
+    });
+    expect(listings.count).toBe(2);
+
+    await recordObjectStored("alice/c-0003-video.mp4", 1000);
+    await recordObjectStored("alice/a-0001-image_small.webp", 20);
+    await recordObjectStored(".incoming/alice/d.mp4", 5000);
+    await recordObjectRemoved("alice/b-0002-file.pdf", 400, "private");
+
+    await expect(getStorageUsage("alice")).resolves.toMatchObject({
+      public: {
+        bytes: 1180,
+        files: 2,
+        byKind: { image: { bytes: 180, files: 1 }, video: { bytes: 1000, files: 1 } },
+      },
+      private: { bytes: 0, files: 0, byKind: { file: { bytes: 0, files: 0 } } },
+    });
+    expect(listings.count).toBe(2);
+  });
+
+  it("breaks usage down by media kind in each bucket", async () => {
+    buckets.set("korner-lol", [
+      { key: "alice/a-0001-audio.mp3", size: 700 },
+      { key: "alice/legacy.bin", size: 5 },
+    ]);
+    buckets.set("korner-lol-private", [
+      { key: "alice/b-0002-video.mp4", size: 9000 },
+      { key: "alice/c-0003-file.wav", size: 800 },
+    ]);
+
+    const usage = await getStorageUsage("alice");
+    expect(usage.public.byKind).toMatchObject({
+      audio: { bytes: 700, files: 1 },
+      other: { bytes: 5, files: 1 },
+    });
+    expect(usage.private.byKind).toMatchObject({
+      video: { bytes: 9000, files: 1 },
+      audio: { bytes: 800, files: 1 },
+      image: { bytes: 0, files: 0 },
+    });
+  });
+
+  it("recomputes counters written before the breakdown existed", async () => {
+    hashes.set("storage-usage:alice", {
+      "public:bytes": "10",
+      "public:files": "1",
+      reconciledAt: "1",
+    });
+    buckets.set("korner-lol", [{ key: "alice/a-0001-image.webp", size: 300 }]);
+
+    await expect(getStorageUsage("alice")).resolves.toMatchObject({
+      public: { bytes: 300, byKind: { image: { bytes: 300, files: 1 } } },
+    });
+  });
+
+  it("leaves counters that were never read to the first reconciliation", async () => {
+    await recordObjectStored("bob/a.mp4", 1000);
+    expect(hashes.size).toBe(0);
+  });
+
+  it("corrects drifted counters once they are due for reconciliation", async () => {
+    buckets.set("korner-lol", [{ key: "alice/a.mp4", size: 300 }]);
+    await getStorageUsage("alice");
+    await recordObjectStored("alice/lost.mp4", 999);
+    scores.set("alice", 0);
+
+    await expect(storageService.reconcileStaleUsage()).resolves.toBe(1);
+    await expect(getStorageUsage("alice")).resolves.toMatchObject({
+      public: { bytes: 300, files: 1 },
+    });
+  });
+});
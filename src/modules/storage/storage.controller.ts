@@ -1,8 +1,9 @@
 import { Request, Response } from "express";
 
-import { getUsernameFromToken, storageService } from "./storage.service";
+import { getUsernameFromToken, StorageError, storageService } from "./storage.service";
 import { ERROR_CODES } from "../../utils/errorCodes";
 import { logger } from "../../utils/logger";
+import { UploadOwner } from "../../utils/storageQuota";
 
 async function getAuthorizedUsername(req: Request, res: Response): Promise<string | null> {
   const token = req.headers.authorization?.split(" ")[1];
@@ -16,12 +17,24 @@ async function getAuthorizedUsername(req: Request, res: Response): Promise<strin
   return result.username!;
 }
 
+async function getAuthorizedOwner(req: Request, res: Response): Promise<UploadOwner | null> {
+  const token = req.headers.authorization?.split(" ")[1];
+  const result = await getUsernameFromToken(token);
+  if (result.error) {
+    res
+      .status(result.error.status)
+      .json({ error: { code: result.error.code, message: result.error.message } });
+    return null;
+  }
+  return { id: result.userId!, username: result.username! };
+}
+
 export async function getUsage(req: Request, res: Response): Promise<void> {
   try {
-    const username = await getAuthorizedUsername(req, res);
-    if (!username) return;
+    const owner = await getAuthorizedOwner(req, res);
+    if (!owner) return;
 
-    const result = await storageService.getUsage(username);
+    const result = await storageService.getUsage(owner);
     res.status(200).json(result);
   } catch (error) {
     logger.error("Error retrieving storage usage:", { error: String(error) });
@@ -36,9 +49,13 @@ export async function listFiles(req: Request, res: Response): Promise<void> {
     const username = await getAuthorizedUsername(req, res);
     if (!username) return;
 
-    const result = await storageService.listFiles(username);
+    const result = await storageService.listFiles(username, req.query as Record<string, unknown>);
     res.status(200).json(result);
   } catch (error) {
+    if (error instanceof StorageError) {
+      res.status(error.statusCode).json({ error: { code: error.code, message: error.message } });
+      return;
+    }
     logger.error("Error retrieving file list:", { error: String(error) });
     res
       .status(500)
@@ -1,6 +1,23 @@
+import { randomBytes } from "crypto";
+
 import { ERROR_CODES } from "../../utils/errorCodes";
+import { getMediaKind, isImageRendition, MediaKind } from "../../utils/file";
+import { logger } from "../../utils/logger";
 import { getUserByToken } from "../../utils/mainServiceClient";
-import { getUserStorageUsage } from "../../utils/s3.utils";
+import redis from "../../utils/redis";
+import { getUserStorageUsage, listUserObjectsPage, StoredObject } from "../../utils/s3.utils";
+import { getStorageQuotaStatus, UploadOwner } from "../../utils/storageQuota";
+import {
+  getStorageUsage,
+  reconcileStorageUsage,
+  STORAGE_USAGE_USERS_KEY,
+  StorageUsage,
+  StorageUsageTotals,
+  USAGE_KINDS,
+  UsageKind,
+} from "../../utils/storageUsage";
+import { isTrashKey } from "../../utils/trash";
+import { isVersionKey } from "../../utils/versions";
 
 export class StorageError extends Error {
   code: string;
@@ -21,9 +38,11 @@ function formatSize(bytes: number): string {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
 }
 
-export async function getUsernameFromToken(
-  token: string | undefined
-): Promise<{ username?: string; error?: { status: number; code: string; message: string } }> {
+export async function getUsernameFromToken(token: string | undefined): Promise<{
+  username?: string;
+  userId?: number;
+  error?: { status: number; code: string; message: string };
+}> {
   if (!token) {
     return {
       error: {
@@ -48,42 +67,336 @@ export async function getUsernameFromToken(
     };
   }
 
-  return { username: user.username };
+  return { username: user.username, userId: user.id };
+}
+
+function formatTotals(totals: StorageUsageTotals) {
+  return {
+    totalSize: totals.bytes,
+    totalSizeFormatted: formatSize(totals.bytes),
+    fileCount: totals.files,
+  };
+}
+
+function formatKindTotals(usage: StorageUsage) {
+  const byKind = {} as Record<UsageKind, ReturnType<typeof formatTotals>>;
+  for (const kind of USAGE_KINDS) {
+    const publicTotals = usage.public.byKind[kind];
+    const privateTotals = usage.private.byKind[kind];
+    byKind[kind] = formatTotals({
+      bytes: publicTotals.bytes + privateTotals.bytes,
+      files: publicTotals.files + privateTotals.files,
+    });
+  }
+  return byKind;
+}
+
+const LIST_DEFAULT_LIMIT = 100;
+const LIST_MAX_LIMIT = 1000;
+// Selective filters can leave listing pages nearly empty; stop and hand back a cursor instead
+const MAX_LIST_REQUESTS = 10;
+const LIST_SORTS = ["name", "size", "date"];
+const MEDIA_KINDS: MediaKind[] = ["image", "audio", "video", "file"];
+// How long a size or date sorted listing stays around for its later pages
+const LIST_SNAPSHOT_TTL_SECONDS = 10 * 60;
+// Larger listings are not cached; their later pages list the prefix again instead
+const LIST_SNAPSHOT_MAX_FILES = 10000;
+
+type ListSort = "name" | "size" | "date";
+type ListOrder = "asc" | "desc";
+
+interface ListCursor {
+  sort: ListSort;
+  order: ListOrder;
+  kind?: MediaKind;
+  from?: number;
+  to?: number;
+  token?: string;
+  offset?: number;
+  snapshot?: string;
+}
+
+interface ListFilesOptions {
+  limit: number;
+  sort: ListSort;
+  order: ListOrder;
+  kind?: MediaKind;
+  from?: number;
+  to?: number;
+  cursor?: ListCursor;
+}
+
+function encodeCursor(cursor: ListCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(value: string): ListCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    return cursor && typeof cursor === "object" ? cursor : null;
+  } catch {
+    return null;
+  }
+}
+
+function parseDate(value: unknown, name: string): number | undefined {
+  if (value === undefined || value === "") return undefined;
+  const time = Date.parse(String(value));
+  if (Number.isNaN(time)) {
+    throw new StorageError(ERROR_CODES.BAD_REQUEST, `${name} must be an ISO 8601 date`, 400);
+  }
+  return time;
+}
+
+function parseListFilesQuery(query: Record<string, unknown>): ListFilesOptions {
+  const limit = query.limit === undefined ? LIST_DEFAULT_LIMIT : Number(query.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > LIST_MAX_LIMIT) {
+    throw new StorageError(
+      ERROR_CODES.BAD_REQUEST,
+      `limit must be an integer between 1 and ${LIST_MAX_LIMIT}`,
+      400
+    );
+  }
+
+  const sort = (query.sort || "name") as ListSort;
+  if (!LIST_SORTS.includes(sort)) {
+    throw new StorageError(ERROR_CODES.BAD_REQUEST, "sort must be name, size or date", 400);
+  }
+
+  // Largest and newest first unless asked otherwise; names read alphabetically
+  const order = (query.order || (sort === "name" ? "asc" : "desc")) as ListOrder;
+  if (order !== "asc" && order !== "desc") {
+    throw new StorageError(ERROR_CODES.BAD_REQUEST, "order must be asc or desc", 400);
+  }
+
+  const kind = query.kind as MediaKind | undefined;
+  if (kind !== undefined && !MEDIA_KINDS.includes(kind)) {
+    throw new StorageError(
+      ERROR_CODES.BAD_REQUEST,
+      "kind must be image, audio, video or file",
+      400
+    );
+  }
+
+  const from = parseDate(query.from, "from");
+  const to = parseDate(query.to, "to");
+
+  let cursor: ListCursor | undefined;
+  if (query.cursor) {
+    cursor = decodeCursor(String(query.cursor)) || undefined;
+    // A cursor only resumes the listing it came from, filters included
+    if (
+      !cursor ||
+      cursor.sort !== sort ||
+      cursor.order !== order ||
+      cursor.kind !== kind ||
+      cursor.from !== from ||
+      cursor.to !== to
+    ) {
+      throw new StorageError(ERROR_CODES.BAD_REQUEST, "Invalid cursor", 400);
+    }
+  }
+
+  return { limit, sort, order, kind, from, to, cursor };
+}
+
+function compareFiles(sort: ListSort, order: ListOrder) {
+  const direction = order === "asc" ? 1 : -1;
+  return (a: StoredObject, b: StoredObject): number => {
+    let difference = 0;
+    if (sort === "size") difference = a.size - b.size;
+    if (sort === "date") {
+      difference = (a.lastModified?.getTime() || 0) - (b.lastModified?.getTime() || 0);
+    }
+    // Ties (and name order) fall back to the key, which keeps offsets stable between pages
+    if (difference === 0) difference = a.key < b.key ? -1 : a.key > b.key ? 1 : 0;
+    return difference * direction;
+  };
+}
+
+/**
+ * Stored names start with a base-36 timestamp, so the user's dot-prefixed trash and versions
+ * folders sort ahead of every file. "/" follows "." in key order, so listing after
+ * `<username>//` starts at the first file.
+ */
+const getFirstFileMarker = (username: string) => `${username}//`;
+
+const getSnapshotKey = (username: string, snapshot: string) =>
+  `storage:listing:${username}:${snapshot}`;
+
+async function loadSnapshot(username: string, snapshot: string): Promise<StoredObject[] | null> {
+  const cached = await redis.get(getSnapshotKey(username, snapshot));
+  if (!cached) return null;
+  const files: Array<Omit<StoredObject, "lastModified"> & { lastModified?: string }> =
+    JSON.parse(cached);
+  return files.map((file) => ({
+    ...file,
+    lastModified: file.lastModified ? new Date(file.lastModified) : undefined,
+  }));
+}
+
+async function saveSnapshot(username: string, files: StoredObject[]): Promise<string> {
+  const snapshot = randomBytes(8).toString("hex");
+  await redis.setex(
+    getSnapshotKey(username, snapshot),
+    LIST_SNAPSHOT_TTL_SECONDS,
+    JSON.stringify(files)
+  );
+  return snapshot;
+}
+
+const RECONCILE_INTERVAL_MS = 10 * 60 * 1000;
+const RECONCILE_BATCH_SIZE = 50;
+
+function getReconcileAgeMs(): number {
+  return (Number(process.env.STORAGE_USAGE_RECONCILE_HOURS) || 24) * 60 * 60 * 1000;
 }
 
 class StorageService {
-  async getUsage(username: string) {
-    const storageUsage = await getUserStorageUsage(username);
+  async getUsage(owner: UploadOwner) {
+    const { username } = owner;
+    const [usage, quota] = await Promise.all([
+      getStorageUsage(username),
+      getStorageQuotaStatus(owner),
+    ]);
 
     return {
       username,
-      totalSize: storageUsage.totalSize,
-      totalSizeFormatted: formatSize(storageUsage.totalSize),
-      fileCount: storageUsage.fileCount,
-      files: storageUsage.files.map((file) => ({
-        key: file.key,
-        filename: file.key.replace(`${username}/`, ""),
-        size: file.size,
-        sizeFormatted: formatSize(file.size),
-        lastModified: file.lastModified,
-      })),
+      plan: quota.plan,
+      limit: quota.limit,
+      used: quota.used,
+      remaining: quota.remaining,
+      percentUsed: quota.percentUsed,
+      fileLimit: quota.fileLimit,
+      filesRemaining: quota.filesRemaining,
+      ...formatTotals({
+        bytes: usage.public.bytes + usage.private.bytes,
+        files: usage.public.files + usage.private.files,
+      }),
+      byVisibility: {
+        public: formatTotals(usage.public),
+        private: formatTotals(usage.private),
+      },
+      byKind: formatKindTotals(usage),
+      reconciledAt: new Date(usage.reconciledAt).toISOString(),
     };
   }
 
-  async listFiles(username: string) {
-    const storageUsage = await getUserStorageUsage(username);
+  /**
+   * Lists one page of the user's public files. Name order follows S3's own key order, so the
+   * cursor wraps a continuation token and each page costs a listing request or two. S3 cannot
+   * sort by size or date, so those orders list the whole prefix once and page by offset through
+   * a sorted snapshot kept in Redis; a cursor without a live snapshot lists the prefix again.
+   */
+  async listFiles(username: string, query: Record<string, unknown> = {}) {
+    const options = parseListFilesQuery(query);
+    const { sort, order, kind, from, to } = options;
+    const matches = (file: StoredObject) => {
+      if (isTrashKey(file.key) || isVersionKey(file.key) || isImageRendition(file.key)) {
+        return false;
+      }
+      if (kind && getMediaKind(file.key) !== kind) return false;
+      const modified = file.lastModified ? file.lastModified.getTime() : 0;
+      if (from !== undefined && modified < from) return false;
+      if (to !== undefined && modified > to) return false;
+      return true;
+    };
+
+    let files: StoredObject[] = [];
+    let nextCursor: ListCursor | null = null;
+
+    if (sort === "name" && order === "asc") {
+      let token = options.cursor?.token;
+      let requests = 0;
+      do {
+        // Never ask for more than fits on the page, so the token always resumes after it
+        const page = await listUserObjectsPage(username, {
+          startAfter: token ? undefined : getFirstFileMarker(username),
+          continuationToken: token,
+          maxKeys: options.limit - files.length,
+        });
+        files = files.concat(page.files.filter(matches));
+        token = page.nextContinuationToken;
+        requests++;
+      } while (token && files.length < options.limit && requests < MAX_LIST_REQUESTS);
+
+      if (token) nextCursor = { sort, order, kind, from, to, token };
+    } else {
+      let snapshot = options.cursor?.snapshot;
+      let sorted = snapshot ? await loadSnapshot(username, snapshot) : null;
+      if (!sorted) {
+        const { files: all } = await getUserStorageUsage(username);
+        sorted = all.filter(matches).sort(compareFiles(sort, order));
+        snapshot = undefined;
+      }
+      const offset = options.cursor?.offset || 0;
+      files = sorted.slice(offset, offset + options.limit);
+
+      const nextOffset = offset + files.length;
+      if (nextOffset < sorted.length) {
+        if (!snapshot && sorted.length <= LIST_SNAPSHOT_MAX_FILES) {
+          snapshot = await saveSnapshot(username, sorted);
+        }
+        nextCursor = { sort, order, kind, from, to, offset: nextOffset, snapshot };
+      }
+    }
 
     return {
-      files: storageUsage.files.map((file) => ({
+      files: files.map((file) => ({
         key: file.key,
         filename: file.key.replace(`${username}/`, ""),
+        kind: getMediaKind(file.key),
         size: file.size,
         sizeFormatted: formatSize(file.size),
         lastModified: file.lastModified,
       })),
-      fileCount: storageUsage.fileCount,
+      fileCount: files.length,
+      nextCursor: nextCursor ? encodeCursor(nextCursor) : null,
     };
   }
+
+  /**
+   * Re-lists the prefixes of users whose counters are oldest, correcting any drift from
+   * failed or concurrent counter updates.
+   */
+  async reconcileStaleUsage(): Promise<number> {
+    const cutoff = Date.now() - getReconcileAgeMs();
+    const usernames = await redis.zrangebyscore(
+      STORAGE_USAGE_USERS_KEY,
+      0,
+      cutoff,
+      "LIMIT",
+      0,
+      RECONCILE_BATCH_SIZE
+    );
+
+    let reconciled = 0;
+    for (const username of usernames) {
+      try {
+        await reconcileStorageUsage(username);
+        reconciled++;
+      } catch (error) {
+        logger.error(`[storage] Failed to reconcile usage for ${username}:`, {
+          error: String(error),
+        });
+      }
+    }
+    return reconciled;
+  }
+
+  startUsageReconciler(): NodeJS.Timeout {
+    const timer = setInterval(() => {
+      this.reconcileStaleUsage()
+        .then((count) => {
+          if (count > 0) logger.info(`[storage] Reconciled usage counters for ${count} users`);
+        })
+        .catch((error) =>
+          logger.error("[storage] Usage reconciliation failed:", { error: String(error) })
+        );
+    }, RECONCILE_INTERVAL_MS);
+    timer.unref();
+    return timer;
+  }
 }
 
 export const storageService = new StorageService();
@@ -12,17 +12,39 @@ const fileItem = z.object({
   lastModified: z.unknown(),
 });
 
+const usageTotals = z.object({
+  totalSize: z.number(),
+  totalSizeFormatted: z.string(),
+  fileCount: z.number(),
+});
+
 export const getUsageResponse = z.object({
   username: z.string(),
+  plan: z.string(),
+  limit: z.number(),
+  used: z.number(),
+  remaining: z.number(),
+  percentUsed: z.number(),
+  fileLimit: z.number(),
+  filesRemaining: z.number(),
   totalSize: z.number(),
   totalSizeFormatted: z.string(),
   fileCount: z.number(),
-  files: z.array(fileItem),
+  byVisibility: z.object({ public: usageTotals, private: usageTotals }),
+  byKind: z.object({
+    image: usageTotals,
+    audio: usageTotals,
+    video: usageTotals,
+    file: usageTotals,
+    other: usageTotals,
+  }),
+  reconciledAt: z.string(),
 });
 
 export const listFilesResponse = z.object({
-  files: z.array(fileItem),
+  files: z.array(fileItem.extend({ kind: z.enum(["image", "audio", "video", "file"]).nullable() })),
   fileCount: z.number(),
+  nextCursor: z.string().nullable(),
 });
 
 export const storageErrorResponse = errorResponse;
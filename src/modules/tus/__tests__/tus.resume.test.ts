@@ -0,0 +1,245 @@
+import { PassThrough, Readable } from "stream";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { streamToBuffer } from "../../../utils/s3.utils";
+import { parseUploadMetadata, tusService } from "../tus.service";
+
+const { store, uploads, objects, uploadVideo } = vi.hoisted(() => ({
+  store: new Map<string, string | Buffer>(),
+  uploads: new Map<string, Map<number, Buffer>>(),
+  objects: new Map<string, Buffer>(),
+  uploadVideo: vi.fn(),
+}));
+
+vi.mock("../../../utils/redis", () => {
+  const commands = {
+    get: async (key: string) => store.get(key)?.toString() ?? null,
+    getBuffer: async (key: string) => (store.get(key) as Buffer | undefined) ?? null,
+    setex: async (key: string, _ttl: number, value: string | Buffer) => {
+      store.set(key, value);
+      return "OK";
+    },
+    set: async (key: string, value: string) => {
+      if (store.has(key)) return null;
+      store.set(key, value);
+      return "OK";
+    },
+    del: async (...keys: string[]) => keys.filter((key) => store.delete(key)).length,
+    // The lock scripts: refresh or release only when the token still matches
+    eval: async (script: string, _keys: number, key: string, token: string) => {
+      if (store.get(key) !== token) return 0;
+      if (script.includes("DEL")) store.delete(key);
+      return 1;
+    },
+    zadd: async () => 1,
+    zrem: async () => 1,
+  };
+  const multi = () => {
+    const queued: Array<() => Promise<unknown>> = [];
+    const transaction = {
+      setex: (...args: [string, number, string | Buffer]) => {
+        queued.push(() => commands.setex(...args));
+        return transaction;
+      },
+      exec: async () => Promise.all(queued.map((command) => command())),
+    };
+    return transaction;
+  };
+  return { default: { ...commands, multi } };
+});
+
+// Stands in for S3's multipart API, which the uploads are staged through
+vi.mock("../../../utils/s3", () => ({
+  default: {
+    async send(command: { constructor: { name: string }; input: Record<string, any> }) {
+      const { Key, UploadId, PartNumber, Body } = command.input;
+      switch (command.constructor.name) {
+        case "CreateMultipartUploadCommand": {
+          const uploadId = `upload-${uploads.size + 1}`;
+          uploads.set(uploadId, new Map());
+          return { UploadId: uploadId };
+        }
+        case "UploadPartCommand":
+          uploads.get(UploadId)!.set(PartNumber, Buffer.from(Body));
+          return { ETag: `"part-${PartNumber}"` };
+        case "CompleteMultipartUploadCommand": {
+          const parts = uploads.get(UploadId)!;
+          const body = command.input.MultipartUpload.Parts.map(
+            ({ PartNumber: partNumber }: { PartNumber: number }) => parts.get(partNumber)!
+          );
+          objects.set(Key, Buffer.concat(body));
+          uploads.delete(UploadId);
+          return {};
+        }
+        case "AbortMultipartUploadCommand":
+          uploads.delete(UploadId);
+          return {};
+        case "GetObjectCommand":
+          return { Body: Readable.from([objects.get(Key)!]) };
+        case "DeleteObjectCommand":
+          objects.delete(Key);
+          return {};
+        default:
+          throw new Error(`Unexpected ${command.constructor.name}`);
+      }
+    },
+  },
+}));
+
+vi.mock("../../s3/s3.service", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../../s3/s3.service")>();
+  return { ...actual, s3Service: { uploadVideo, uploadAudio: vi.fn() } };
+});
+
+vi.mock("../../../utils/storageQuota", () => ({
+  checkStorageQuota: async () => ({ allowed: true }),
+}));
+
+const alice = { id: 1, username: "alice" };
+const MB = 1024 * 1024;
+
+function encodeMetadata(values: Record<string, string>): string {
+  return Object.keys(values)
+    .map((key) => `${key} ${Buffer.from(values[key]).toString("base64")}`)
+    .join(",");
+}
+
+describe("tus uploads", () => {
+  let received: Buffer | undefined;
+
+  beforeEach(() => {
+    store.clear();
+    uploads.clear();
+    objects.clear();
+    uploadVideo.mockReset();
+    uploadVideo.mockImplementation(async (_owner: unknown, file: { stream: Readable }) => {
+      received = await streamToBuffer(file.stream);
+      return { message: "Video uploaded successfully", url: "https://cdn/x" };
+    });
+  });
+
+  it("parses Upload-Metadata pairs including empty values", () => {
+    expect(parseUploadMetadata("filename bW92aWUubXA0,is_private")).toEqual({
+      filename: "movie.mp4",
+      is_private: "",
+    });
+  });
+
+  it("rejects types that uploadAudio/uploadVideo would not accept", async () => {
+    await expect(
+      tusService.createUpload(
+        alice,
+        "10",
+        encodeMetadata({ filename: "a.pdf", filetype: "application/pdf" })
+      )
+    ).rejects.toMatchObject({ statusCode: 400 });
+  });
+
+  it("resumes after an interrupted chunk and hands the file to uploadVideo", async () => {
+    const content = Buffer.from("0123456789abcdefghij");
+    const upload = await tusService.createUpload(
+      alice,
+      String(content.length),
+      encodeMetadata({ filename: "clip.mp4", filetype: "video/mp4" })
+    );
+
+    // Connection drops after the first 8 bytes
+    const interrupted = new PassThrough();
+    const pending = tusService.appendChunk("alice", upload.id, "0", interrupted);
+    interrupted.write(content.subarray(0, 8));
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    interrupted.destroy(new Error("aborted"));
+    const afterDrop = await pending;
+    expect(afterDrop.offset).toBe(8);
+
+    await expect(
+      tusService.appendChunk("alice", upload.id, "0", Readable.from([content]))
+    ).rejects.toMatchObject({ statusCode: 409 });
+
+    const done = await tusService.appendChunk(
+      "alice",
+      upload.id,
+      "8",
+      Readable.from([content.subarray(8)])
+    );
+
+    expect(done.offset).toBe(content.length);
+    expect(done.url).toBe("https://cdn/x");
+    expect(uploadVideo).toHaveBeenCalledOnce();
+    const [owner, file] = uploadVideo.mock.calls[0];
+    expect(owner).toEqual(alice);
+    expect(file).toMatchObject({ originalname: "clip.mp4", mimetype: "video/mp4", size: 20 });
+    expect(Buffer.compare(received!, content)).toBe(0);
+  });
+
+  it("stages whole parts in S3 and keeps the rest as the tail between requests", async () => {
+    const content = Buffer.alloc(12 * MB);
+    for (let index = 0; index < content.length; index += 4096) content[index] = index % 251;
+    const upload = await tusService.createUpload(
+      alice,
+      String(content.length),
+      encodeMetadata({ filename: "clip.mp4", filetype: "video/mp4" })
+    );
+
+    // Any instance can take the next request: the state is all in Redis and S3
+    const interrupted = new PassThrough();
+    const pending = tusService.appendChunk("alice", upload.id, "0", interrupted);
+    interrupted.write(content.subarray(0, 7 * MB));
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    interrupted.destroy(new Error("aborted"));
+    expect((await pending).offset).toBe(7 * MB);
+
+    const done = await tusService.appendChunk(
+      "alice",
+      upload.id,
+      String(7 * MB),
+      Readable.from([content.subarray(7 * MB)])
+    );
+    expect(done.url).toBe("https://cdn/x");
+    expect(Buffer.compare(received!, content)).toBe(0);
+    expect(objects.size).toBe(0);
+  });
+
+  it("never releases a lock another request took over", async () => {
+    const upload = await tusService.createUpload(
+      alice,
+      "8",
+      encodeMetadata({ filename: "clip.mp4", filetype: "video/mp4" })
+    );
+
+    const body = new PassThrough();
+    const pending = tusService.appendChunk("alice", upload.id, "0", body);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    // The lock expired mid-request and another request holds it now
+    store.set(`tus-lock:${upload.id}`, "other-request");
+    body.end(Buffer.from("0123"));
+    await pending;
+
+    expect(store.get(`tus-lock:${upload.id}`)).toBe("other-request");
+  });
+
+  it("refuses chunks past the declared Upload-Length", async () => {
+    const upload = await tusService.createUpload(
+      alice,
+      "4",
+      encodeMetadata({ filename: "clip.mp4", filetype: "video/mp4" })
+    );
+
+    await expect(
+      tusService.appendChunk("alice", upload.id, "0", Readable.from([Buffer.from("too long")]))
+    ).rejects.toMatchObject({ statusCode: 413 });
+    expect((await tusService.getUpload("alice", upload.id)).offset).toBe(0);
+  });
+
+  it("keeps uploads private to their owner", async () => {
+    const upload = await tusService.createUpload(
+      alice,
+      "4",
+      encodeMetadata({ filename: "clip.mp4", filetype: "video/mp4" })
+    );
+
+    await expect(tusService.getUpload("mallory", upload.id)).rejects.toMatchObject({
+      statusCode: 403,
+    });
+  });
+});
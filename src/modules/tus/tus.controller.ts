@@ -0,0 +1,139 @@
+import { NextFunction, Request, Response } from "express";
+
+import { TUS_EXTENSIONS, TUS_MAX_SIZE, TUS_VERSION, TusError, tusService } from "./tus.service";
+import { ERROR_CODES } from "../../utils/errorCodes";
+import { logger } from "../../utils/logger";
+import { UploadOwner } from "../../utils/storageQuota";
+import { authorizeAndGetUsername } from "../s3/s3.service";
+
+function handleError(error: unknown, res: Response, logPrefix: string) {
+  if (error instanceof TusError) {
+    return res
+      .status(error.statusCode)
+      .json({ error: { code: error.code, message: error.message } });
+  }
+  logger.error(`${logPrefix}:`, { error: String(error) });
+  return res
+    .status(500)
+    .json({ error: { code: ERROR_CODES.SERVER_ERROR, message: "Internal server error" } });
+}
+
+async function getAuthorizedOwner(req: Request, res: Response): Promise<UploadOwner | null> {
+  const token = req.headers.authorization?.split(" ")[1];
+  const authResult = await authorizeAndGetUsername(token);
+  if (authResult.error) {
+    const statusCode = authResult.error.code.startsWith("AUTH") ? 401 : 404;
+    res.status(statusCode).json({ error: authResult.error });
+    return null;
+  }
+  return { id: authResult.userId!, username: authResult.username! };
+}
+
+function setExpiresHeader(res: Response, expiresAt: string) {
+  res.setHeader("Upload-Expires", new Date(expiresAt).toUTCString());
+}
+
+/**
+ * Every tus response carries Tus-Resumable, and every request except OPTIONS must declare the
+ * protocol version it speaks.
+ */
+export function tusProtocol(req: Request, res: Response, next: NextFunction): void {
+  res.setHeader("Tus-Resumable", TUS_VERSION);
+
+  if (req.method !== "OPTIONS" && req.headers["tus-resumable"] !== TUS_VERSION) {
+    res.setHeader("Tus-Version", TUS_VERSION);
+    res.status(412).json({
+      error: { code: ERROR_CODES.BAD_REQUEST, message: `Tus-Resumable must be ${TUS_VERSION}` },
+    });
+    return;
+  }
+  next();
+}
+
+export function getServerOptions(_req: Request, res: Response): void {
+  res.setHeader("Tus-Version", TUS_VERSION);
+  res.setHeader("Tus-Extension", TUS_EXTENSIONS);
+  res.setHeader("Tus-Max-Size", String(TUS_MAX_SIZE));
+  res.status(204).end();
+}
+
+export async function createUpload(req: Request, res: Response): Promise<void> {
+  try {
+    const owner = await getAuthorizedOwner(req, res);
+    if (!owner) return;
+
+    const upload = await tusService.createUpload(
+      owner,
+      req.header("upload-length"),
+      req.header("upload-metadata")
+    );
+
+    setExpiresHeader(res, upload.expiresAt);
+    res.setHeader("Location", `${req.baseUrl}/${upload.id}`);
+    res.status(201).end();
+  } catch (error) {
+    handleError(error, res, "Error creating tus upload");
+  }
+}
+
+export async function getUploadOffset(req: Request, res: Response): Promise<void> {
+  try {
+    const owner = await getAuthorizedOwner(req, res);
+    if (!owner) return;
+
+    const upload = await tusService.getUpload(owner.username, req.params.id);
+
+    res.setHeader("Cache-Control", "no-store");
+    res.setHeader("Upload-Offset", String(upload.offset));
+    res.setHeader("Upload-Length", String(upload.length));
+    if (upload.metadata) res.setHeader("Upload-Metadata", upload.metadata);
+    if (upload.url) res.setHeader("X-File-Url", upload.url);
+    setExpiresHeader(res, upload.expiresAt);
+    res.status(200).end();
+  } catch (error) {
+    handleError(error, res, "Error retrieving tus upload offset");
+  }
+}
+
+export async function appendChunk(req: Request, res: Response): Promise<void> {
+  try {
+    const owner = await getAuthorizedOwner(req, res);
+    if (!owner) return;
+
+    if (req.headers["content-type"] !== "application/offset+octet-stream") {
+      res.status(415).json({
+        error: {
+          code: ERROR_CODES.BAD_REQUEST,
+          message: "Content-Type must be application/offset+octet-stream",
+        },
+      });
+      return;
+    }
+
+    const upload = await tusService.appendChunk(
+      owner.username,
+      req.params.id,
+      req.header("upload-offset"),
+      req
+    );
+
+    res.setHeader("Upload-Offset", String(upload.offset));
+    if (upload.url) res.setHeader("X-File-Url", upload.url);
+    setExpiresHeader(res, upload.expiresAt);
+    res.status(204).end();
+  } catch (error) {
+    handleError(error, res, "Error appending tus upload chunk");
+  }
+}
+
+export async function terminateUpload(req: Request, res: Response): Promise<void> {
+  try {
+    const owner = await getAuthorizedOwner(req, res);
+    if (!owner) return;
+
+    await tusService.terminate(owner.username, req.params.id);
+    res.status(204).end();
+  } catch (error) {
+    handleError(error, res, "Error terminating tus upload");
+  }
+}
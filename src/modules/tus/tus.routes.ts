@@ -0,0 +1,64 @@
+import cors from "cors";
+import { Router } from "express";
+import rateLimit from "express-rate-limit";
+
+import * as tusController from "./tus.controller";
+
+const router = Router();
+
+const allowedOrigins = ["https://korner.pro", "https://korner.lol", "http://localhost:6969"];
+
+const corsOptions = {
+  origin: (
+    origin: string | undefined,
+    callback: (_err: Error | null, _allow?: boolean) => void
+  ) => {
+    if (!origin || allowedOrigins.includes(origin)) {
+      callback(null, true);
+    } else {
+      callback(new Error("Not allowed by CORS"));
+    }
+  },
+  credentials: true,
+  methods: ["POST", "HEAD", "PATCH", "DELETE", "OPTIONS"],
+  allowedHeaders: [
+    "Content-Type",
+    "Authorization",
+    "Tus-Resumable",
+    "Upload-Length",
+    "Upload-Metadata",
+    "Upload-Offset",
+  ],
+  exposedHeaders: [
+    "Location",
+    "Tus-Resumable",
+    "Tus-Version",
+    "Tus-Extension",
+    "Tus-Max-Size",
+    "Upload-Expires",
+    "Upload-Length",
+    "Upload-Metadata",
+    "Upload-Offset",
+    "X-File-Url",
+  ],
+  // Non-preflight OPTIONS is tus server discovery and must reach getServerOptions
+  preflightContinue: true,
+};
+
+const createLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  max: 20,
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: { error: { code: "RATE_LIMIT_EXCEEDED", message: "Too many uploads, try again later" } },
+});
+
+router.use(cors(corsOptions), tusController.tusProtocol);
+
+router.options("*", tusController.getServerOptions);
+router.post("/", createLimiter, tusController.createUpload);
+router.head("/:id", tusController.getUploadOffset);
+router.patch("/:id", tusController.appendChunk);
+router.delete("/:id", tusController.terminateUpload);
+
+export default router;
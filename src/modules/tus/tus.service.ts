@@ -0,0 +1,550 @@
+import {
+  AbortMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
+  CreateMultipartUploadCommand,
+  DeleteObjectCommand,
+  GetObjectCommand,
+  UploadPartCommand,
+} from "@aws-sdk/client-s3";
+import { randomBytes } from "crypto";
+import { Readable, Transform } from "stream";
+import { pipeline } from "stream/promises";
+
+import { ERROR_CODES } from "../../utils/errorCodes";
+import { logger } from "../../utils/logger";
+import redis from "../../utils/redis";
+import s3Client from "../../utils/s3";
+import { checkStorageQuota, UploadOwner } from "../../utils/storageQuota";
+import { MEDIA_UPLOAD_RULES, S3Error, s3Service } from "../s3/s3.service";
+
+export const TUS_VERSION = "1.0.0";
+export const TUS_EXTENSIONS = "creation,expiration,termination";
+export const TUS_MAX_SIZE = Math.max(
+  MEDIA_UPLOAD_RULES.audio.maxSize,
+  MEDIA_UPLOAD_RULES.video.maxSize
+);
+
+export class TusError extends Error {
+  code: string;
+  statusCode: number;
+
+  constructor(code: string, message: string, statusCode: number) {
+    super(message);
+    this.code = code;
+    this.statusCode = statusCode;
+  }
+}
+
+type MediaKind = "audio" | "video";
+
+interface StagedPart {
+  partNumber: number;
+  etag: string;
+  size: number;
+}
+
+/**
+ * Chunks are staged in an S3 multipart upload at `stagingKey`, so any instance can take the
+ * next PATCH. Bytes that do not fill a whole part yet wait in Redis as the tail.
+ */
+interface TusSession {
+  id: string;
+  stagingKey: string;
+  stagingUploadId: string;
+  parts: StagedPart[];
+  /** The parts were assembled into the staging object. */
+  assembled?: boolean;
+  username: string;
+  userId: number;
+  kind: MediaKind;
+  filename: string;
+  mimetype: string;
+  length: number;
+  offset: number;
+  metadata: string;
+  expiresAt: string;
+  url?: string;
+}
+
+const LOCK_TTL_SECONDS = 5 * 60;
+// A PATCH that holds the lock this long without finishing a part extends it
+const LOCK_REFRESH_MS = 60 * 1000;
+// S3's minimum for every part but the last
+const PART_SIZE = 5 * 1024 * 1024;
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+const UPLOAD_ID_PATTERN = /^[a-f0-9]{32}$/;
+const UPLOADS_KEY = "tus:uploads";
+
+// Only the holder's token may extend or release a lock, so one that expired mid-PATCH and was
+// taken by another request stays with that request
+const REFRESH_LOCK = `
+if redis.call("GET", KEYS[1]) == ARGV[1] then
+  return redis.call("EXPIRE", KEYS[1], ARGV[2])
+end
+return 0`;
+const RELEASE_LOCK = `
+if redis.call("GET", KEYS[1]) == ARGV[1] then
+  return redis.call("DEL", KEYS[1])
+end
+return 0`;
+
+function getExpiryMs(): number {
+  return (Number(process.env.TUS_UPLOAD_EXPIRY_HOURS) || 24) * 60 * 60 * 1000;
+}
+
+function getPublicBucket(): string {
+  return process.env.ACTIVE_ENV === "prod" ? "korner-pro" : "korner-lol";
+}
+
+function getSessionKey(id: string): string {
+  return `tus:${id}`;
+}
+
+function getTailKey(id: string): string {
+  return `tus-tail:${id}`;
+}
+
+function getLockKey(id: string): string {
+  return `tus-lock:${id}`;
+}
+
+function getSessionTtlSeconds(session: TusSession): number {
+  // Kept a day past expiry so late requests get 410 and cleanup can still find the parts
+  const ttlSeconds = Math.ceil((Date.parse(session.expiresAt) - Date.now()) / 1000);
+  return Math.max(ttlSeconds + 24 * 60 * 60, 1);
+}
+
+async function saveSession(session: TusSession, tail?: Buffer): Promise<void> {
+  const transaction = redis
+    .multi()
+    .setex(getSessionKey(session.id), getSessionTtlSeconds(session), JSON.stringify(session));
+  // The tail is written with the session so its length always matches the offset
+  if (tail) transaction.setex(getTailKey(session.id), getSessionTtlSeconds(session), tail);
+  await transaction.exec();
+}
+
+async function loadTail(session: TusSession): Promise<Buffer> {
+  const staged = session.parts.reduce((total, part) => total + part.size, 0);
+  if (session.offset === staged) return Buffer.alloc(0);
+
+  const tail = await redis.getBuffer(getTailKey(session.id));
+  if (!tail || tail.length !== session.offset - staged) {
+    throw new Error(`Staged tail of tus upload ${session.id} does not match its offset`);
+  }
+  return tail;
+}
+
+async function acquireLock(id: string): Promise<string | null> {
+  const token = randomBytes(16).toString("hex");
+  const locked = await redis.set(getLockKey(id), token, "EX", LOCK_TTL_SECONDS, "NX");
+  return locked ? token : null;
+}
+
+async function refreshLock(id: string, token: string): Promise<void> {
+  if (!(await redis.eval(REFRESH_LOCK, 1, getLockKey(id), token, LOCK_TTL_SECONDS))) {
+    throw new TusError(
+      ERROR_CODES.UPLOAD_OFFSET_MISMATCH,
+      "The lock on this upload expired while the chunk was being written",
+      409
+    );
+  }
+}
+
+async function releaseLock(id: string, token: string): Promise<void> {
+  await redis.eval(RELEASE_LOCK, 1, getLockKey(id), token);
+}
+
+/**
+ * Parses the tus Upload-Metadata header: comma-separated `key base64value` pairs, where the
+ * value may be omitted.
+ */
+export function parseUploadMetadata(header: string | undefined): Record<string, string> {
+  const metadata: Record<string, string> = {};
+  if (!header) return metadata;
+
+  for (const pair of header.split(",")) {
+    const [key, value] = pair.trim().split(" ");
+    if (!key) continue;
+    metadata[key] = value ? Buffer.from(value, "base64").toString("utf8") : "";
+  }
+  return metadata;
+}
+
+function getMediaKind(mimetype: string): MediaKind | null {
+  if (MEDIA_UPLOAD_RULES.audio.allowedTypes.includes(mimetype)) return "audio";
+  if (MEDIA_UPLOAD_RULES.video.allowedTypes.includes(mimetype)) return "video";
+  return null;
+}
+
+/**
+ * Fails the stream once more than `limit` bytes pass through, so a client cannot write past
+ * the Upload-Length it declared.
+ */
+function createByteLimit(limit: number): Transform {
+  let received = 0;
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      received += chunk.length;
+      if (received > limit) {
+        callback(new TusError(ERROR_CODES.BAD_REQUEST, "Chunk exceeds Upload-Length", 413));
+        return;
+      }
+      callback(null, chunk);
+    },
+  });
+}
+
+class TusService {
+  async createUpload(
+    owner: UploadOwner,
+    uploadLength: string | undefined,
+    metadataHeader?: string
+  ) {
+    const length = Number(uploadLength);
+    if (uploadLength === undefined || !Number.isInteger(length) || length <= 0) {
+      throw new TusError(
+        ERROR_CODES.BAD_REQUEST,
+        "Upload-Length must be a positive integer; deferred length is not supported",
+        400
+      );
+    }
+
+    const metadata = parseUploadMetadata(metadataHeader);
+    const filename = metadata.filename;
+    const mimetype = metadata.filetype;
+    if (!filename || !mimetype) {
+      throw new TusError(
+        ERROR_CODES.BAD_REQUEST,
+        "Upload-Metadata must include filename and filetype",
+        400
+      );
+    }
+
+    const kind = getMediaKind(mimetype);
+    if (!kind) {
+      throw new TusError(
+        ERROR_CODES.BARS_INVALID_FILE_TYPE,
+        `Invalid file type. Allowed: ${MEDIA_UPLOAD_RULES.audio.label}, ${MEDIA_UPLOAD_RULES.video.label}`,
+        400
+      );
+    }
+
+    const { maxSize } = MEDIA_UPLOAD_RULES[kind];
+    if (length > maxSize) {
+      throw new TusError(
+        ERROR_CODES.BAD_REQUEST,
+        `${kind === "audio" ? "Audio" : "Video"} file size exceeds ${Math.floor(maxSize / 1024 / 1024)} MB limit`,
+        413
+      );
+    }
+
+    // Checked again when the upload completes, in case other uploads used the space meanwhile
+    const quota = await checkStorageQuota(owner, length);
+    if (!quota.allowed) {
+      throw new TusError(ERROR_CODES.STORAGE_QUOTA_EXCEEDED, quota.message!, 403);
+    }
+
+    const id = randomBytes(16).toString("hex");
+    const stagingKey = `.tus/${id}`;
+    const { UploadId } = await s3Client.send(
+      new CreateMultipartUploadCommand({
+        Bucket: getPublicBucket(),
+        Key: stagingKey,
+        ContentType: mimetype,
+      })
+    );
+    if (!UploadId) {
+      throw new Error(`CreateMultipartUpload returned no UploadId for ${stagingKey}`);
+    }
+
+    const session: TusSession = {
+      id,
+      stagingKey,
+      stagingUploadId: UploadId,
+      parts: [],
+      username: owner.username,
+      userId: owner.id,
+      kind,
+      filename,
+      mimetype,
+      length,
+      offset: 0,
+      metadata: metadataHeader || "",
+      expiresAt: new Date(Date.now() + getExpiryMs()).toISOString(),
+    };
+
+    await saveSession(session);
+    await redis.zadd(UPLOADS_KEY, Date.parse(session.expiresAt), session.id);
+
+    return session;
+  }
+
+  async getUpload(username: string, id: string) {
+    return this.getSession(username, id);
+  }
+
+  /**
+   * Appends a PATCH body to the staged upload. Bytes received before a dropped connection are
+   * kept, so the client can resume from the offset HEAD reports. Once the last byte arrives
+   * the file goes through the regular audio/video upload path.
+   */
+  async appendChunk(
+    username: string,
+    id: string,
+    uploadOffset: string | undefined,
+    body: Readable
+  ) {
+    await this.getSession(username, id);
+
+    const token = await acquireLock(id);
+    if (!token) {
+      throw new TusError(
+        ERROR_CODES.UPLOAD_OFFSET_MISMATCH,
+        "Another request is already writing to this upload",
+        409
+      );
+    }
+
+    try {
+      // Re-read under the lock so the offset reflects any request that just finished
+      const session = await this.getSession(username, id);
+      if (Number(uploadOffset) !== session.offset) {
+        throw new TusError(
+          ERROR_CODES.UPLOAD_OFFSET_MISMATCH,
+          `Upload-Offset ${uploadOffset} does not match current offset ${session.offset}`,
+          409
+        );
+      }
+
+      if (session.offset < session.length) {
+        await this.writeChunk(session, body, token);
+      }
+
+      if (session.offset === session.length && !session.url) {
+        await this.finalize(session);
+      }
+
+      return session;
+    } finally {
+      await releaseLock(id, token);
+    }
+  }
+
+  async terminate(username: string, id: string): Promise<void> {
+    const session = await this.getSession(username, id, true);
+    await this.discard(session);
+  }
+
+  /**
+   * Removes the staged parts of uploads that expired unfinished. Runs on an interval from
+   * main.ts; ZREM decides which instance owns an upload.
+   */
+  async cleanupExpiredUploads(): Promise<number> {
+    const ids = await redis.zrangebyscore(UPLOADS_KEY, 0, Date.now(), "LIMIT", 0, 500);
+
+    let removed = 0;
+    for (const id of ids) {
+      if ((await redis.zrem(UPLOADS_KEY, id)) === 0) continue;
+
+      const raw = await redis.get(getSessionKey(id));
+      if (!raw) continue;
+      const session: TusSession = JSON.parse(raw);
+      if (session.url) continue;
+
+      await this.discard(session);
+      removed++;
+    }
+    return removed;
+  }
+
+  startCleanup(): NodeJS.Timeout {
+    const timer = setInterval(() => {
+      this.cleanupExpiredUploads()
+        .then((removed) => {
+          if (removed > 0) logger.info(`[tus] Removed ${removed} expired uploads`);
+        })
+        .catch((error) => logger.error("[tus] Cleanup failed:", { error: String(error) }));
+    }, CLEANUP_INTERVAL_MS);
+    timer.unref();
+    return timer;
+  }
+
+  /**
+   * Streams the body into whole parts, keeping what is left over as the new tail. A rejected
+   * chunk leaves the session as it was; parts it already uploaded are overwritten later,
+   * since a part number always restarts at the same offset.
+   */
+  private async writeChunk(session: TusSession, body: Readable, token: string): Promise<void> {
+    const parts = session.parts.slice();
+    let pending = [await loadTail(session)];
+    let pendingLength = pending[0].length;
+    let lastRefresh = Date.now();
+    let storageFailure: unknown;
+
+    const stage = async (source: Readable) => {
+      for await (const chunk of source) {
+        pending.push(chunk);
+        pendingLength += chunk.length;
+        if (Date.now() - lastRefresh > LOCK_REFRESH_MS) {
+          await refreshLock(session.id, token);
+          lastRefresh = Date.now();
+        }
+
+        while (pendingLength >= PART_SIZE) {
+          const buffer = Buffer.concat(pending);
+          await refreshLock(session.id, token);
+          lastRefresh = Date.now();
+          try {
+            parts.push(
+              await this.uploadPart(session, parts.length + 1, buffer.subarray(0, PART_SIZE))
+            );
+          } catch (error) {
+            storageFailure = error;
+            throw error;
+          }
+          pending = [buffer.subarray(PART_SIZE)];
+          pendingLength = pending[0].length;
+        }
+      }
+    };
+
+    let failure: unknown;
+    try {
+      await pipeline(body, createByteLimit(session.length - session.offset), stage);
+    } catch (error) {
+      failure = error;
+    }
+    if (failure instanceof TusError) throw failure;
+
+    session.parts = parts;
+    session.offset = parts.reduce((total, part) => total + part.size, 0) + pendingLength;
+    await saveSession(session, Buffer.concat(pending));
+
+    if (storageFailure) throw storageFailure;
+    if (failure) {
+      logger.warn(`[tus] Chunk for ${session.id} interrupted:`, { error: String(failure) });
+    }
+  }
+
+  private async uploadPart(
+    session: TusSession,
+    partNumber: number,
+    body: Buffer
+  ): Promise<StagedPart> {
+    const { ETag } = await s3Client.send(
+      new UploadPartCommand({
+        Bucket: getPublicBucket(),
+        Key: session.stagingKey,
+        UploadId: session.stagingUploadId,
+        PartNumber: partNumber,
+        Body: body,
+      })
+    );
+    return { partNumber, etag: ETag!, size: body.length };
+  }
+
+  private async finalize(session: TusSession): Promise<void> {
+    if (!session.assembled) {
+      const tail = await loadTail(session);
+      if (tail.length > 0) {
+        session.parts.push(await this.uploadPart(session, session.parts.length + 1, tail));
+      }
+      await s3Client.send(
+        new CompleteMultipartUploadCommand({
+          Bucket: getPublicBucket(),
+          Key: session.stagingKey,
+          UploadId: session.stagingUploadId,
+          MultipartUpload: {
+            Parts: session.parts.map((part) => ({ PartNumber: part.partNumber, ETag: part.etag })),
+          },
+        })
+      );
+      session.assembled = true;
+      await saveSession(session);
+      await redis.del(getTailKey(session.id));
+    }
+
+    const staged = await s3Client.send(
+      new GetObjectCommand({ Bucket: getPublicBucket(), Key: session.stagingKey })
+    );
+    const file = {
+      originalname: session.filename,
+      mimetype: session.mimetype,
+      size: session.length,
+      stream: staged.Body as Readable,
+    };
+
+    const owner = { id: session.userId, username: session.username };
+    try {
+      const result =
+        session.kind === "audio"
+          ? await s3Service.uploadAudio(owner, file)
+          : await s3Service.uploadVideo(owner, file);
+      session.url = result.url;
+    } catch (error) {
+      // Validation failures are final; anything else keeps the staged file for a retry
+      if (error instanceof S3Error) {
+        await this.discard(session);
+        throw new TusError(error.code, error.message, error.statusCode);
+      }
+      throw error;
+    }
+
+    await s3Client.send(
+      new DeleteObjectCommand({ Bucket: getPublicBucket(), Key: session.stagingKey })
+    );
+    await saveSession(session);
+    await redis.zrem(UPLOADS_KEY, session.id);
+    logger.info(`[tus] Completed upload ${session.url} (${session.length} bytes)`);
+  }
+
+  private async discard(session: TusSession): Promise<void> {
+    if (session.assembled) {
+      await s3Client.send(
+        new DeleteObjectCommand({ Bucket: getPublicBucket(), Key: session.stagingKey })
+      );
+    } else {
+      await s3Client
+        .send(
+          new AbortMultipartUploadCommand({
+            Bucket: getPublicBucket(),
+            Key: session.stagingKey,
+            UploadId: session.stagingUploadId,
+          })
+        )
+        .catch((error) => {
+          if (error.name !== "NoSuchUpload") throw error;
+        });
+    }
+    await redis.del(getSessionKey(session.id), getTailKey(session.id));
+    await redis.zrem(UPLOADS_KEY, session.id);
+  }
+
+  private async getSession(
+    username: string,
+    id: string,
+    allowExpired = false
+  ): Promise<TusSession> {
+    const raw = UPLOAD_ID_PATTERN.test(id) ? await redis.get(getSessionKey(id)) : null;
+    if (!raw) {
+      throw new TusError(ERROR_CODES.UPLOAD_SESSION_NOT_FOUND, "Upload not found", 404);
+    }
+
+    const session: TusSession = JSON.parse(raw);
+    if (session.username !== username) {
+      throw new TusError(
+        ERROR_CODES.ACCESS_DENIED,
+        "You do not have permission to access this upload",
+        403
+      );
+    }
+
+    if (!allowExpired && !session.url && Date.parse(session.expiresAt) < Date.now()) {
+      throw new TusError(ERROR_CODES.UPLOAD_EXPIRED, "Upload has expired", 410);
+    }
+
+    return session;
+  }
+}
+
+export const tusService = new TusService();
@@ -20,3 +20,9 @@ export const successMessageResponse = z.object({
   success: z.literal(true),
   message: z.string(),
 });
+
+export const imagePlaceholder = z.object({
+  blurhash: z.string(),
+  lqip: z.string(),
+  dominantColor: z.string(),
+});
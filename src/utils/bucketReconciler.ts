@@ -0,0 +1,510 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+} from "@aws-sdk/client-s3";
+import { Upload } from "@aws-sdk/lib-storage";
+import { Readable } from "stream";
+
+import { cacheValues } from "./cache";
+import redis from "./redis";
+import { BucketTarget, getBuckets } from "./renameUserFiles";
+import { evictCachedFile } from "./s3.utils";
+import { StorageVisibility } from "./storageUsage";
+
+/**
+ * Consistency check across the buckets from getBuckets(). Within each visibility the AWS bucket
+ * is authoritative and every other provider's bucket is compared against it user by user: key
+ * sets, sizes and ETags. With `repair` each drifted key is brought in line with AWS. Buckets
+ * without a counterpart (today the private one) only have their totals reported.
+ *
+ * Runs in the background from the internal endpoint, which stores its status and report in
+ * Redis, or in the foreground from the command line:
+ *   node -r dotenv/config dist/utils/bucketReconciler.js [--user <username>]... [--repair]
+ */
+export type DriftIssue = "missing" | "extra" | "mismatch";
+
+export interface ObjectSummary {
+  size: number;
+  etag?: string;
+}
+
+export interface ObjectDrift {
+  key: string;
+  issue: DriftIssue;
+  source?: ObjectSummary;
+  replica?: ObjectSummary;
+  repaired?: boolean;
+  error?: string;
+}
+
+export interface UserDrift {
+  username: string;
+  missing: number;
+  extra: number;
+  mismatched: number;
+  repaired: number;
+  /** The first MAX_REPORTED_OBJECTS drifted keys; the counts above cover all of them. */
+  objects: ObjectDrift[];
+}
+
+export interface BucketPairReport {
+  source: string;
+  replica: string;
+  visibility: StorageVisibility;
+  checkedUsers: number;
+  checkedObjects: number;
+  missing: number;
+  extra: number;
+  mismatched: number;
+  repaired: number;
+  /** Only users with drift. */
+  users: UserDrift[];
+}
+
+export interface BucketTotals {
+  name: string;
+  objects: number;
+  bytes: number;
+}
+
+export interface ReconcileReport {
+  repair: boolean;
+  startedAt: number;
+  finishedAt: number;
+  buckets: BucketTotals[];
+  pairs: BucketPairReport[];
+  errors: string[];
+}
+
+export interface ReconcileOptions {
+  /** Limits the walk to these users' prefixes; every user found in the buckets otherwise. */
+  usernames?: string[];
+  repair?: boolean;
+}
+
+export type ReconcileStatus =
+  | { state: "running"; repair: boolean; startedAt: number }
+  | { state: "finished"; report: ReconcileReport }
+  /** `interrupted` means the instance running the walk went away before it finished. */
+  | {
+      state: "failed" | "interrupted";
+      repair: boolean;
+      startedAt: number;
+      finishedAt?: number;
+      error?: string;
+    };
+
+export class ReconcileInProgressError extends Error {
+  constructor() {
+    super("A bucket reconciliation is already running");
+    this.name = "ReconcileInProgressError";
+  }
+}
+
+interface BucketPair {
+  source: BucketTarget;
+  replica: BucketTarget;
+}
+
+const LOCK_KEY = "bucket-reconcile:lock";
+// Refreshed as the walk goes, so a crashed run frees the lock soon after it stops
+const LOCK_TTL_SECONDS = 10 * 60;
+const STATUS_KEY = "bucket-reconcile:status";
+const MAX_REPORTED_OBJECTS = 100;
+
+async function refreshLock(): Promise<void> {
+  await redis.expire(LOCK_KEY, LOCK_TTL_SECONDS);
+}
+
+function getBucketPairs(targets: BucketTarget[]): BucketPair[] {
+  const pairs: BucketPair[] = [];
+  for (const source of targets.filter((target) => target.provider === "aws")) {
+    for (const replica of targets) {
+      if (replica.provider !== "aws" && replica.visibility === source.visibility) {
+        pairs.push({ source, replica });
+      }
+    }
+  }
+  return pairs;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function isMissingObject(error: any): boolean {
+  return (
+    error?.name === "NotFound" ||
+    error?.name === "NoSuchKey" ||
+    error?.$metadata?.httpStatusCode === 404
+  );
+}
+
+/**
+ * Top-level prefixes of the given buckets, i.e. the usernames that own objects in any of them.
+ * Dot prefixes such as `.incoming/` are staging areas that are never replicated.
+ */
+async function listUsernames(targets: BucketTarget[]): Promise<string[]> {
+  const usernames = new Set<string>();
+  for (const { client, bucket } of targets) {
+    let continuationToken: string | undefined;
+    do {
+      const response = await client.send(
+        new ListObjectsV2Command({
+          Bucket: bucket,
+          Delimiter: "/",
+          ContinuationToken: continuationToken,
+        })
+      );
+      for (const { Prefix } of response.CommonPrefixes || []) {
+        if (Prefix && !Prefix.startsWith(".")) usernames.add(Prefix.slice(0, -1));
+      }
+      continuationToken = response.NextContinuationToken;
+    } while (continuationToken);
+  }
+  return Array.from(usernames).sort();
+}
+
+async function listObjects(
+  { client, bucket }: BucketTarget,
+  prefix: string
+): Promise<Map<string, ObjectSummary>> {
+  const objects = new Map<string, ObjectSummary>();
+  let continuationToken: string | undefined;
+  do {
+    const response = await client.send(
+      new ListObjectsV2Command({
+        Bucket: bucket,
+        Prefix: prefix,
+        ContinuationToken: continuationToken,
+      })
+    );
+    for (const object of response.Contents || []) {
+      if (object.Key) objects.set(object.Key, { size: object.Size || 0, etag: object.ETag });
+    }
+    continuationToken = response.NextContinuationToken;
+  } while (continuationToken);
+  return objects;
+}
+
+function addTotals(totals: BucketTotals, objects: Map<string, ObjectSummary>): void {
+  for (const { size } of objects.values()) {
+    totals.objects++;
+    totals.bytes += size;
+  }
+}
+
+function isSameObject(source: ObjectSummary, replica: ObjectSummary): boolean {
+  if (source.size !== replica.size) return false;
+  // A multipart ETag depends on how the body was split, so those copies only compare sizes
+  if (!source.etag || !replica.etag || source.etag.includes("-") || replica.etag.includes("-")) {
+    return true;
+  }
+  return source.etag === replica.etag;
+}
+
+function compareObjects(
+  source: Map<string, ObjectSummary>,
+  replica: Map<string, ObjectSummary>
+): ObjectDrift[] {
+  const drift: ObjectDrift[] = [];
+  for (const [key, summary] of source) {
+    const copy = replica.get(key);
+    if (!copy) drift.push({ key, issue: "missing", source: summary });
+    else if (!isSameObject(summary, copy)) {
+      drift.push({ key, issue: "mismatch", source: summary, replica: copy });
+    }
+  }
+  for (const [key, copy] of replica) {
+    if (!source.has(key)) drift.push({ key, issue: "extra", replica: copy });
+  }
+  return drift.sort((a, b) => a.key.localeCompare(b.key));
+}
+
+/**
+ * Brings one key in the replica in line with the source's current state: copied over when the
+ * source has it and deleted otherwise. Checking the source again rather than trusting the
+ * listing keeps an upload that landed mid-walk from being deleted as "extra".
+ */
+async function repairObject({ source, replica }: BucketPair, key: string): Promise<void> {
+  const exists = await source.client
+    .send(new HeadObjectCommand({ Bucket: source.bucket, Key: key }))
+    .then(() => true)
+    .catch((error) => {
+      if (isMissingObject(error)) return false;
+      throw error;
+    });
+
+  if (exists) {
+    const object = await source.client.send(
+      new GetObjectCommand({ Bucket: source.bucket, Key: key })
+    );
+    const upload = new Upload({
+      client: replica.client,
+      params: {
+        Bucket: replica.bucket,
+        Key: key,
+        Body: object.Body as Readable,
+        ContentType: object.ContentType,
+        CacheControl: object.CacheControl,
+        Metadata: object.Metadata,
+      },
+      queueSize: 2,
+      partSize: 10 * 1024 * 1024,
+    });
+    await upload.done();
+  } else {
+    await replica.client.send(new DeleteObjectCommand({ Bucket: replica.bucket, Key: key }));
+  }
+  // Reads prefer Yandex, so the drifted copy may be what the caches hold
+  if (replica.visibility === "public") await evictCachedFile(key);
+}
+
+async function reconcileUser(
+  pair: BucketPair,
+  username: string,
+  report: BucketPairReport,
+  totals: Map<string, BucketTotals>,
+  repair: boolean
+): Promise<void> {
+  const prefix = `${username}/`;
+  const [source, replica] = await Promise.all([
+    listObjects(pair.source, prefix),
+    listObjects(pair.replica, prefix),
+  ]);
+  addTotals(totals.get(pair.source.name)!, source);
+  addTotals(totals.get(pair.replica.name)!, replica);
+
+  const drift = compareObjects(source, replica);
+  report.checkedUsers++;
+  report.checkedObjects += source.size + drift.filter(({ issue }) => issue === "extra").length;
+  if (drift.length === 0) return;
+
+  const user: UserDrift = {
+    username,
+    missing: 0,
+    extra: 0,
+    mismatched: 0,
+    repaired: 0,
+    objects: drift.slice(0, MAX_REPORTED_OBJECTS),
+  };
+  for (const object of drift) {
+    if (object.issue === "missing") user.missing++;
+    else if (object.issue === "extra") user.extra++;
+    else user.mismatched++;
+
+    if (!repair) continue;
+    try {
+      await repairObject(pair, object.key);
+      object.repaired = true;
+      user.repaired++;
+      await refreshLock();
+    } catch (error) {
+      object.repaired = false;
+      object.error = errorMessage(error);
+      console.error(
+        `[reconcile] Failed to repair ${object.key} in ${pair.replica.name}:`,
+        object.error
+      );
+    }
+  }
+
+  report.missing += user.missing;
+  report.extra += user.extra;
+  report.mismatched += user.mismatched;
+  report.repaired += user.repaired;
+  report.users.push(user);
+}
+
+async function countObjects(target: BucketTarget, prefixes: string[], totals: BucketTotals) {
+  for (const prefix of prefixes) addTotals(totals, await listObjects(target, prefix));
+}
+
+async function acquireLock(): Promise<void> {
+  const locked = await redis.set(LOCK_KEY, String(Date.now()), "EX", LOCK_TTL_SECONDS, "NX");
+  if (!locked) throw new ReconcileInProgressError();
+}
+
+async function saveStatus(status: ReconcileStatus): Promise<void> {
+  await redis.setex(STATUS_KEY, cacheValues.week, JSON.stringify(status));
+}
+
+/**
+ * Walks the buckets and reports how far each replica has drifted from AWS, repairing it when
+ * asked.
+ */
+async function walkBuckets(options: ReconcileOptions): Promise<ReconcileReport> {
+  const repair = options.repair === true;
+  const startedAt = Date.now();
+  const targets = getBuckets();
+  const pairs = getBucketPairs(targets);
+  const totals = new Map<string, BucketTotals>(
+    targets.map(({ name }) => [name, { name, objects: 0, bytes: 0 }])
+  );
+  const reports: BucketPairReport[] = [];
+  const errors: string[] = [];
+
+  for (const pair of pairs) {
+    const report: BucketPairReport = {
+      source: pair.source.name,
+      replica: pair.replica.name,
+      visibility: pair.source.visibility,
+      checkedUsers: 0,
+      checkedObjects: 0,
+      missing: 0,
+      extra: 0,
+      mismatched: 0,
+      repaired: 0,
+      users: [],
+    };
+    reports.push(report);
+
+    let usernames: string[];
+    try {
+      usernames = options.usernames || (await listUsernames([pair.source, pair.replica]));
+    } catch (error) {
+      errors.push(
+        `${pair.source.name} / ${pair.replica.name}: failed to list users: ${errorMessage(error)}`
+      );
+      continue;
+    }
+
+    for (const username of usernames) {
+      try {
+        await reconcileUser(pair, username, report, totals, repair);
+      } catch (error) {
+        errors.push(`${pair.replica.name}: failed to check ${username}: ${errorMessage(error)}`);
+      }
+      await refreshLock();
+    }
+  }
+
+  const paired = new Set(pairs.flatMap(({ source, replica }) => [source.name, replica.name]));
+  for (const target of targets.filter(({ name }) => !paired.has(name))) {
+    try {
+      const prefixes = options.usernames?.map((username) => `${username}/`) || [""];
+      await countObjects(target, prefixes, totals.get(target.name)!);
+    } catch (error) {
+      errors.push(`${target.name}: failed to count objects: ${errorMessage(error)}`);
+    }
+  }
+
+  return {
+    repair,
+    startedAt,
+    finishedAt: Date.now(),
+    buckets: Array.from(totals.values()),
+    pairs: reports,
+    errors,
+  };
+}
+
+/**
+ * Runs a walk to completion. Only one run may go at a time across instances; a second one is
+ * refused with ReconcileInProgressError.
+ */
+export async function reconcileBuckets(options: ReconcileOptions = {}): Promise<ReconcileReport> {
+  await acquireLock();
+  try {
+    return await walkBuckets(options);
+  } finally {
+    await redis.del(LOCK_KEY);
+  }
+}
+
+/**
+ * Takes the lock and starts a run in the background. Its progress and, once done, its report
+ * are read with getReconcileStatus.
+ */
+export async function startReconcile(options: ReconcileOptions = {}): Promise<ReconcileStatus> {
+  await acquireLock();
+  const status: ReconcileStatus = {
+    state: "running",
+    repair: options.repair === true,
+    startedAt: Date.now(),
+  };
+
+  try {
+    await saveStatus(status);
+  } catch (error) {
+    await redis.del(LOCK_KEY);
+    throw error;
+  }
+
+  walkBuckets(options)
+    .then((report) => saveStatus({ state: "finished", report }))
+    .catch((error) =>
+      saveStatus({
+        state: "failed",
+        repair: status.repair,
+        startedAt: status.startedAt,
+        finishedAt: Date.now(),
+        error: errorMessage(error),
+      })
+    )
+    .catch((error) => console.error("[reconcile] Failed to save the run status:", error))
+    .finally(() => redis.del(LOCK_KEY).catch(() => undefined));
+
+  return status;
+}
+
+/** The latest run's status, or null when none has run in the past week. */
+export async function getReconcileStatus(): Promise<ReconcileStatus | null> {
+  const raw = await redis.get(STATUS_KEY);
+  if (!raw) return null;
+
+  const status: ReconcileStatus = JSON.parse(raw);
+  if (status.state === "running" && !(await redis.exists(LOCK_KEY))) {
+    return { ...status, state: "interrupted" };
+  }
+  return status;
+}
+
+function printReport(report: ReconcileReport): void {
+  for (const { name, objects, bytes } of report.buckets) {
+    console.log(`${name}: ${objects} objects, ${bytes} bytes`);
+  }
+  for (const pair of report.pairs) {
+    console.log(
+      `${pair.replica} vs ${pair.source}: ${pair.checkedUsers} users, ` +
+        `${pair.checkedObjects} objects, ${pair.missing} missing, ${pair.extra} extra, ` +
+        `${pair.mismatched} mismatched, ${pair.repaired} repaired`
+    );
+    for (const user of pair.users) {
+      console.log(
+        `  ${user.username}: ${user.missing} missing, ${user.extra} extra, ` +
+          `${user.mismatched} mismatched, ${user.repaired} repaired`
+      );
+      for (const object of user.objects) {
+        const outcome = object.error
+          ? ` (repair failed: ${object.error})`
+          : object.repaired
+            ? " (repaired)"
+            : "";
+        console.log(`    ${object.issue} ${object.key}${outcome}`);
+      }
+    }
+  }
+  for (const error of report.errors) console.error(error);
+}
+
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const usernames = args.flatMap((arg, index) =>
+    arg === "--user" && args[index + 1] ? [args[index + 1]] : []
+  );
+  reconcileBuckets({
+    usernames: usernames.length > 0 ? usernames : undefined,
+    repair: args.includes("--repair"),
+  })
+    .then((report) => {
+      printReport(report);
+      process.exit(report.errors.length > 0 ? 1 : 0);
+    })
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
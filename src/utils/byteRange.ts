@@ -0,0 +1,72 @@
+/**
+ * `Range: bytes=...` handling for file downloads. Only a single range is served; requests for
+ * several ranges are answered with 416 rather than a multipart body.
+ */
+
+/** A single range as requested: `start-end`, `start-` or the last `suffix` bytes. */
+export interface ByteRangeRequest {
+  start?: number;
+  end?: number;
+  suffix?: number;
+}
+
+export interface ByteRange {
+  start: number;
+  end: number;
+  size: number;
+}
+
+const RANGE_SPEC = /^(\d*)-(\d*)$/;
+
+/**
+ * Parses a Range header into its ranges. Resolves null when there is no header or it is not
+ * a byte range header the server understands, in which case the full file is served.
+ */
+export function parseRangeHeader(header: string | undefined): ByteRangeRequest[] | null {
+  if (!header) return null;
+  const match = /^\s*bytes\s*=\s*(.+)$/i.exec(header);
+  if (!match) return null;
+
+  const ranges: ByteRangeRequest[] = [];
+  for (const spec of match[1].split(",")) {
+    const parts = RANGE_SPEC.exec(spec.trim());
+    if (!parts || (!parts[1] && !parts[2])) return null;
+
+    if (!parts[1]) {
+      ranges.push({ suffix: Number(parts[2]) });
+      continue;
+    }
+    const start = Number(parts[1]);
+    const end = parts[2] ? Number(parts[2]) : undefined;
+    if (end !== undefined && end < start) return null;
+    ranges.push({ start, end });
+  }
+  return ranges;
+}
+
+/** Clamps a requested range to the file size. Resolves null when it cannot be satisfied. */
+export function resolveByteRange(request: ByteRangeRequest, size: number): ByteRange | null {
+  if (request.suffix !== undefined) {
+    if (request.suffix === 0 || size === 0) return null;
+    return { start: Math.max(0, size - request.suffix), end: size - 1, size };
+  }
+  if (request.start >= size) return null;
+  const end = request.end === undefined ? size - 1 : Math.min(request.end, size - 1);
+  return { start: request.start, end, size };
+}
+
+export function formatRangeHeader(request: ByteRangeRequest): string {
+  if (request.suffix !== undefined) return `bytes=-${request.suffix}`;
+  return `bytes=${request.start}-${request.end === undefined ? "" : request.end}`;
+}
+
+/** Reads a `Content-Range: bytes start-end/size` header as returned by S3. */
+export function parseContentRange(header: string | undefined): ByteRange | null {
+  const match = header ? /^bytes (\d+)-(\d+)\/(\d+)$/.exec(header.trim()) : null;
+  if (!match) return null;
+  return { start: Number(match[1]), end: Number(match[2]), size: Number(match[3]) };
+}
+
+export function formatContentRange(range: ByteRange): string {
+  return `bytes ${range.start}-${range.end}/${range.size}`;
+}
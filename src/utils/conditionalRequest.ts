@@ -0,0 +1,40 @@
+/**
+ * `If-None-Match` / `If-Modified-Since` evaluation for file downloads (RFC 9110 13.1).
+ */
+
+export interface ConditionalHeaders {
+  ifNoneMatch?: string;
+  ifModifiedSince?: string;
+}
+
+// Weak comparison: W/"abc" and "abc" name the same representation
+function normalizeEtag(etag: string): string {
+  return etag.trim().replace(/^W\//, "");
+}
+
+/**
+ * Whether the client's copy is still current. If-None-Match wins when both are sent, and a
+ * date is only trusted when the client has no entity tag to compare.
+ */
+export function isNotModified(
+  conditions: ConditionalHeaders,
+  etag?: string,
+  lastModified?: string | Date
+): boolean {
+  if (conditions.ifNoneMatch) {
+    if (conditions.ifNoneMatch.trim() === "*") return true;
+    if (!etag) return false;
+    const current = normalizeEtag(etag);
+    return conditions.ifNoneMatch.split(",").some((tag) => normalizeEtag(tag) === current);
+  }
+
+  if (conditions.ifModifiedSince && lastModified) {
+    const since = Date.parse(conditions.ifModifiedSince);
+    const modified = new Date(lastModified).getTime();
+    if (Number.isNaN(since) || Number.isNaN(modified)) return false;
+    // HTTP dates have second precision
+    return Math.floor(modified / 1000) <= Math.floor(since / 1000);
+  }
+
+  return false;
+}
@@ -0,0 +1,337 @@
+import { createHash, randomBytes } from "crypto";
+import { createWriteStream, promises as fs } from "fs";
+import type Redis from "ioredis";
+import { join } from "path";
+import { PassThrough, Readable } from "stream";
+
+import redis from "./redis";
+
+/**
+ * Local disk tier for file bodies that do not belong in Redis, enabled by DISK_CACHE_DIR and
+ * bounded by DISK_CACHE_MAX_BYTES. Reads mark a file as recently used and the least recently
+ * used files are evicted first. Bodies are written to a temp file and renamed into place once
+ * complete, followed by a JSON sidecar holding the key and metadata; the in-memory index is
+ * rebuilt from the sidecars on start, so only committed files are ever served.
+ *
+ * Every instance keeps its own directory, so invalidations are also published to the others.
+ */
+export interface DiskCacheMetadata {
+  ContentType: string;
+  ContentLength: string;
+  LastModified?: string;
+  ETag?: string;
+}
+
+export interface DiskCacheStats {
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+}
+
+interface DiskCacheEntry {
+  key: string;
+  name: string;
+  size: number;
+  metadata: DiskCacheMetadata;
+}
+
+interface Invalidation {
+  keys?: string[];
+  prefix?: string;
+}
+
+const INVALIDATION_CHANNEL = "disk-cache:invalidate";
+const TEMP_DIR = ".tmp";
+
+// Map order is recency: a read moves its entry to the end and eviction starts at the front
+const entries = new Map<string, DiskCacheEntry>();
+let totalBytes = 0;
+let ready = false;
+let subscriber: Redis | null = null;
+// The write in flight per key; an invalidation drops it so the stale body is never committed
+const pendingWrites = new Map<string, symbol>();
+
+export function getDiskCacheDir(): string | undefined {
+  return process.env.DISK_CACHE_DIR || undefined;
+}
+
+export function getDiskCacheBudget(): number {
+  return Number(process.env.DISK_CACHE_MAX_BYTES) || 10 * 1024 * 1024 * 1024;
+}
+
+function getEntryName(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+function getBodyPath(name: string): string {
+  return join(getDiskCacheDir(), name);
+}
+
+function getSidecarPath(name: string): string {
+  return join(getDiskCacheDir(), `${name}.json`);
+}
+
+function logFailure(action: string, error: unknown): void {
+  console.error(`[diskCache] Failed to ${action}:`, error instanceof Error ? error.message : error);
+}
+
+async function removeFiles(name: string): Promise<void> {
+  await Promise.all([
+    fs.rm(getBodyPath(name), { force: true }),
+    fs.rm(getSidecarPath(name), { force: true }),
+  ]);
+}
+
+function dropEntry(entry: DiskCacheEntry): string {
+  entries.delete(entry.key);
+  totalBytes -= entry.size;
+  return entry.name;
+}
+
+async function evictOverBudget(): Promise<void> {
+  const budget = getDiskCacheBudget();
+  const evicted: string[] = [];
+  for (const entry of Array.from(entries.values())) {
+    if (totalBytes <= budget) break;
+    evicted.push(dropEntry(entry));
+  }
+  await Promise.all(evicted.map(removeFiles));
+}
+
+async function dropLocal({ keys = [], prefix }: Invalidation): Promise<void> {
+  const removed: string[] = [];
+  for (const key of keys) {
+    pendingWrites.delete(key);
+    const entry = entries.get(key);
+    if (entry) removed.push(dropEntry(entry));
+  }
+  if (prefix) {
+    for (const key of Array.from(pendingWrites.keys())) {
+      if (key.startsWith(prefix)) pendingWrites.delete(key);
+    }
+    for (const entry of Array.from(entries.values())) {
+      if (entry.key.startsWith(prefix)) removed.push(dropEntry(entry));
+    }
+  }
+  await Promise.all(removed.map(removeFiles));
+}
+
+async function invalidate(invalidation: Invalidation): Promise<void> {
+  if (!getDiskCacheDir()) return;
+  try {
+    await dropLocal(invalidation);
+    await redis.publish(INVALIDATION_CHANNEL, JSON.stringify(invalidation));
+  } catch (error) {
+    logFailure("invalidate", error);
+  }
+}
+
+/** Removes keys from the disk cache of every instance. */
+export async function invalidateDiskCache(keys: string[]): Promise<void> {
+  if (keys.length > 0) await invalidate({ keys });
+}
+
+/** Removes every key under a prefix, e.g. `<username>/`, from the disk cache of every instance. */
+export async function invalidateDiskCachePrefix(prefix: string): Promise<void> {
+  await invalidate({ prefix });
+}
+
+/** Metadata of a cached file, without touching it. Null on a miss or when the tier is off. */
+export function getDiskCachedMetadata(key: string): DiskCacheMetadata | null {
+  return (ready && entries.get(key)?.metadata) || null;
+}
+
+/**
+ * Opens a cached body, or the inclusive byte range of it, and marks it as recently used.
+ * Resolves null when the file is not cached (any more).
+ */
+export async function openDiskCachedFile(
+  key: string,
+  range?: { start: number; end: number }
+): Promise<Readable | null> {
+  const entry = ready ? entries.get(key) : undefined;
+  if (!entry) return null;
+
+  let handle: fs.FileHandle;
+  try {
+    handle = await fs.open(getBodyPath(entry.name), "r");
+  } catch {
+    if (entries.get(key) === entry) dropEntry(entry);
+    return null;
+  }
+
+  entries.delete(key);
+  entries.set(key, entry);
+  const now = new Date();
+  fs.utimes(getBodyPath(entry.name), now, now).catch(() => undefined);
+  return handle.createReadStream({ start: range?.start, end: range?.end });
+}
+
+async function commit(
+  key: string,
+  token: symbol,
+  tempPath: string,
+  metadata: DiskCacheMetadata,
+  size: number
+): Promise<void> {
+  const name = getEntryName(key);
+  const sidecarTempPath = `${tempPath}.json`;
+  try {
+    if (pendingWrites.get(key) !== token || (await fs.stat(tempPath)).size !== size) {
+      await fs.rm(tempPath, { force: true });
+      return;
+    }
+    await fs.writeFile(sidecarTempPath, JSON.stringify({ key, metadata }));
+    await fs.rename(tempPath, getBodyPath(name));
+    await fs.rename(sidecarTempPath, getSidecarPath(name));
+
+    // Invalidated while the files were being moved into place
+    if (pendingWrites.get(key) !== token) {
+      await removeFiles(name);
+      return;
+    }
+    pendingWrites.delete(key);
+    const previous = entries.get(key);
+    if (previous) dropEntry(previous);
+    entries.set(key, { key, name, size, metadata });
+    totalBytes += size;
+    await evictOverBudget();
+  } catch (error) {
+    logFailure(`cache ${key}`, error);
+    if (pendingWrites.get(key) === token) pendingWrites.delete(key);
+    await Promise.all([
+      fs.rm(tempPath, { force: true }),
+      fs.rm(sidecarTempPath, { force: true }),
+    ]).catch(() => undefined);
+  }
+}
+
+/**
+ * Passes a full body through while writing it to the disk cache. The copy is only kept once the
+ * whole body has arrived; a failed or abandoned download leaves nothing behind. Bodies of unknown
+ * size or larger than the whole cache are returned untouched.
+ */
+export function cacheToDisk(key: string, metadata: DiskCacheMetadata, body: Readable): Readable {
+  const size = Number(metadata.ContentLength);
+  if (!ready || !size || size > getDiskCacheBudget()) return body;
+
+  const token = Symbol(key);
+  pendingWrites.set(key, token);
+  const tempPath = join(
+    getDiskCacheDir(),
+    TEMP_DIR,
+    `${getEntryName(key)}.${randomBytes(4).toString("hex")}`
+  );
+  const file = createWriteStream(tempPath);
+  const output = new PassThrough();
+  let settled = false;
+
+  const discard = () => {
+    if (settled) return;
+    settled = true;
+    if (pendingWrites.get(key) === token) pendingWrites.delete(key);
+    // The temp file may still be opening; removing it before then would leave it behind
+    const remove = () => fs.rm(tempPath, { force: true }).catch(() => undefined);
+    if (file.closed) void remove();
+    else file.once("close", remove);
+    file.destroy();
+  };
+
+  body.on("error", (error) => {
+    output.destroy(error);
+    discard();
+  });
+  // The client went away before the end: stop downloading rather than finish for the cache
+  output.on("close", () => {
+    if (!body.readableEnded) {
+      body.destroy();
+      discard();
+    }
+  });
+  file.on("error", discard);
+  file.on("finish", () => {
+    if (settled) return;
+    settled = true;
+    void commit(key, token, tempPath, metadata, size);
+  });
+
+  body.pipe(output);
+  body.pipe(file);
+  return output;
+}
+
+export function getDiskCacheStats(): DiskCacheStats | null {
+  if (!ready) return null;
+  return { entries: entries.size, bytes: totalBytes, maxBytes: getDiskCacheBudget() };
+}
+
+async function loadEntries(): Promise<void> {
+  const dir = getDiskCacheDir();
+  const files = new Set(await fs.readdir(dir));
+  const loaded: Array<{ entry: DiskCacheEntry; lastAccess: number }> = [];
+
+  for (const file of Array.from(files)) {
+    if (!file.endsWith(".json")) continue;
+    const name = file.slice(0, -".json".length);
+    try {
+      const { key, metadata } = JSON.parse(await fs.readFile(join(dir, file), "utf8"));
+      const stat = await fs.stat(getBodyPath(name));
+      if (name !== getEntryName(key) || stat.size !== Number(metadata.ContentLength)) {
+        throw new Error("Sidecar does not match its body");
+      }
+      loaded.push({ entry: { key, name, size: stat.size, metadata }, lastAccess: stat.mtimeMs });
+    } catch {
+      await removeFiles(name);
+    }
+  }
+
+  // Bodies whose sidecar was never written belong to a commit that did not finish
+  const committed = new Set(loaded.map(({ entry }) => entry.name));
+  for (const file of Array.from(files)) {
+    if (file !== TEMP_DIR && !file.endsWith(".json") && !committed.has(file)) {
+      await fs.rm(join(dir, file), { force: true, recursive: true });
+    }
+  }
+
+  loaded.sort((a, b) => a.lastAccess - b.lastAccess);
+  for (const { entry } of loaded) {
+    entries.set(entry.key, entry);
+    totalBytes += entry.size;
+  }
+}
+
+/**
+ * Loads the cache directory and starts listening for invalidations from other instances. Does
+ * nothing unless DISK_CACHE_DIR is set; until it resolves every read goes past the disk tier.
+ */
+export async function startDiskCache(): Promise<void> {
+  const dir = getDiskCacheDir();
+  if (!dir || ready) return;
+
+  await fs.rm(join(dir, TEMP_DIR), { recursive: true, force: true });
+  await fs.mkdir(join(dir, TEMP_DIR), { recursive: true });
+  await loadEntries();
+  await evictOverBudget();
+
+  subscriber = redis.duplicate();
+  subscriber.on("message", (_channel: string, message: string) => {
+    try {
+      void dropLocal(JSON.parse(message) as Invalidation).catch((error) =>
+        logFailure("apply invalidation", error)
+      );
+    } catch (error) {
+      logFailure("read invalidation", error);
+    }
+  });
+  await subscriber.subscribe(INVALIDATION_CHANNEL);
+  ready = true;
+}
+
+export function stopDiskCache(): void {
+  subscriber?.disconnect();
+  subscriber = null;
+  ready = false;
+  entries.clear();
+  pendingWrites.clear();
+  totalBytes = 0;
+}
@@ -19,6 +19,18 @@ export const ERROR_CODES = {
   BARS_INVALID_INPUT: "BARS_INVALID_INPUT",
   BARS_FILE_NOT_FOUND: "BARS_FILE_NOT_FOUND",
   BARS_ACCESS_DENIED: "BARS_ACCESS_DENIED",
+  RANGE_NOT_SATISFIABLE: "RANGE_NOT_SATISFIABLE",
+
+  // Uploads
+  UPLOAD_SESSION_NOT_FOUND: "UPLOAD_SESSION_NOT_FOUND",
+  UPLOAD_INCOMPLETE: "UPLOAD_INCOMPLETE",
+  UPLOAD_OFFSET_MISMATCH: "UPLOAD_OFFSET_MISMATCH",
+  UPLOAD_EXPIRED: "UPLOAD_EXPIRED",
+  FILE_TYPE_MISMATCH: "FILE_TYPE_MISMATCH",
+  STORAGE_QUOTA_EXCEEDED: "STORAGE_QUOTA_EXCEEDED",
+
+  // Image transform
+  TRANSFORM_INVALID_SIGNATURE: "TRANSFORM_INVALID_SIGNATURE",
 
   // Subscription
   SUBSCRIPTION_REQUIRED: "SUBSCRIPTION_REQUIRED",
@@ -30,4 +42,8 @@ export const ERROR_CODES = {
   // Rename
   RENAME_DESTINATION_NOT_EMPTY: "RENAME_DESTINATION_NOT_EMPTY",
   RENAME_FAILED: "RENAME_FAILED",
+
+  // Bucket reconciliation
+  RECONCILE_IN_PROGRESS: "RECONCILE_IN_PROGRESS",
+  RECONCILE_NOT_FOUND: "RECONCILE_NOT_FOUND",
 } as const;
@@ -8,6 +8,9 @@ const FILE_TYPE_SUFFIXES: { [key: string]: string } = {
   "image/png": "image",
   "image/gif": "image",
   "image/webp": "image",
+  "audio/mpeg": "audio",
+  "audio/wav": "audio",
+  "audio/wave": "audio",
   "application/pdf": "file",
   "application/vnd.ms-excel": "file",
   "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": "file",
@@ -17,8 +20,34 @@ const FILE_TYPE_SUFFIXES: { [key: string]: string } = {
   "video/webm": "video",
 };
 
+export type MediaKind = "image" | "audio" | "video" | "file";
+
+// `<timestamp>-<random>-<kind>` stem, optionally followed by a rendition name such as `_thumb`
+const MEDIA_KIND_PATTERN = /-(image|audio|video|file)(?:_[a-z]+)?\.[a-z0-9]+$/;
+const AUDIO_EXTENSIONS = [".mp3", ".wav"];
+// Width variants and AVIF copies stored next to an image
+const IMAGE_RENDITION_PATTERN = /(_(thumb|small|medium|large)\.webp|\.avif)$/;
+
+const MIME_EXTENSIONS: { [key: string]: string } = {
+  "image/jpeg": ".jpg",
+  "image/png": ".png",
+  "image/gif": ".gif",
+  "image/webp": ".webp",
+  "image/avif": ".avif",
+  "audio/mpeg": ".mp3",
+  "audio/wav": ".wav",
+  "audio/wave": ".wav",
+  "video/mp4": ".mp4",
+  "video/webm": ".webm",
+  "application/pdf": ".pdf",
+  "application/vnd.ms-excel": ".xls",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": ".xlsx",
+  "text/csv": ".csv",
+};
+
 export const generateSafeFilename = (originalFilename: string, mimetype: string): string => {
-  const extension = extname(originalFilename).toLowerCase();
+  // The extension follows the stored content type, never the name the client sent
+  const extension = MIME_EXTENSIONS[mimetype] || extname(originalFilename).toLowerCase();
   const suffix = FILE_TYPE_SUFFIXES[mimetype] || "file";
 
   const timestamp = Date.now().toString(36);
@@ -35,3 +64,29 @@ export const generateSafeFilename = (originalFilename: string, mimetype: string)
 
   return `${newName}${extension}`;
 };
+
+export const getVariantFilename = (filename: string, variant: string): string => {
+  const extension = extname(filename);
+  const stem = filename.slice(0, filename.length - extension.length);
+  return `${stem}_${variant}.webp`;
+};
+
+export const isImageRendition = (key: string): boolean => IMAGE_RENDITION_PATTERN.test(key);
+
+export const getAvifFilename = (filename: string): string => {
+  const extension = extname(filename);
+  return `${filename.slice(0, filename.length - extension.length)}.avif`;
+};
+
+/**
+ * Media kind of a stored object, read from the suffix generateSafeFilename puts in its name.
+ * Audio used to be stored with the "file" suffix, so those are recognised by extension.
+ */
+export const getMediaKind = (filename: string): MediaKind | null => {
+  const match = filename.toLowerCase().match(MEDIA_KIND_PATTERN);
+  if (!match) return null;
+
+  const kind = match[1] as MediaKind;
+  if (kind === "file" && AUDIO_EXTENSIONS.includes(extname(filename).toLowerCase())) return "audio";
+  return kind;
+};
@@ -0,0 +1,151 @@
+import { cacheValues } from "./cache";
+import redis from "./redis";
+
+/**
+ * Accounting for the file bodies cached in Redis under `file:<id>`. Only objects up to
+ * FILE_CACHE_MAX_OBJECT_BYTES are cached, and the bytes held by all of them together are kept
+ * under FILE_CACHE_MAX_BYTES: every entry is recorded with its size in a sorted set scored by
+ * last use, and caching past the budget evicts the least recently used entries.
+ */
+const ENTRIES_KEY = "file-cache:entries";
+const SIZES_KEY = "file-cache:sizes";
+const BYTES_KEY = "file-cache:bytes";
+const STATS_KEY = "file-cache:stats";
+
+/**
+ * How a read was served: from Redis, from the local disk cache, fetched and cached in Redis, or
+ * streamed from storage past Redis.
+ */
+export type FileCacheOutcome = "hit" | "disk" | "miss" | "bypass";
+
+export interface FileCacheStats {
+  hits: number;
+  diskHits: number;
+  misses: number;
+  bypasses: number;
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+  maxObjectBytes: number;
+}
+
+// Records an entry and evicts the least recently used ones until the total fits the budget.
+// Entries idle for longer than the TTL have already expired, so only their accounting is
+// dropped. KEYS: entries, sizes, bytes. ARGV: id, size, now, budget, idle cutoff.
+// Returns the evicted ids, whose keys the caller deletes.
+const STORE_ENTRY = `
+local previous = tonumber(redis.call("HGET", KEYS[2], ARGV[1]) or "0")
+redis.call("HSET", KEYS[2], ARGV[1], ARGV[2])
+redis.call("ZADD", KEYS[1], ARGV[3], ARGV[1])
+local total = tonumber(redis.call("GET", KEYS[3]) or "0") + tonumber(ARGV[2]) - previous
+for _, id in ipairs(redis.call("ZRANGEBYSCORE", KEYS[1], "-inf", ARGV[5])) do
+  total = total - tonumber(redis.call("HGET", KEYS[2], id) or "0")
+  redis.call("HDEL", KEYS[2], id)
+  redis.call("ZREM", KEYS[1], id)
+end
+local evicted = {}
+while total > tonumber(ARGV[4]) do
+  local oldest = redis.call("ZRANGE", KEYS[1], 0, 0)[1]
+  if not oldest then break end
+  total = total - tonumber(redis.call("HGET", KEYS[2], oldest) or "0")
+  redis.call("HDEL", KEYS[2], oldest)
+  redis.call("ZREM", KEYS[1], oldest)
+  table.insert(evicted, oldest)
+end
+redis.call("SET", KEYS[3], math.max(total, 0))
+return evicted
+`;
+
+// KEYS: entries, sizes, bytes. ARGV: the ids whose keys were deleted.
+const RELEASE_ENTRIES = `
+local released = 0
+for _, id in ipairs(ARGV) do
+  local size = redis.call("HGET", KEYS[2], id)
+  if size then
+    released = released + tonumber(size)
+    redis.call("HDEL", KEYS[2], id)
+    redis.call("ZREM", KEYS[1], id)
+  end
+end
+if released > 0 then redis.call("DECRBY", KEYS[3], released) end
+return released
+`;
+
+export function getMaxCachedObjectBytes(): number {
+  return Number(process.env.FILE_CACHE_MAX_OBJECT_BYTES) || 5 * 1024 * 1024;
+}
+
+export function getFileCacheBudget(): number {
+  return Number(process.env.FILE_CACHE_MAX_BYTES) || 512 * 1024 * 1024;
+}
+
+/** Whether an object of this size may be buffered and cached; unknown sizes are streamed. */
+export function isCacheableSize(size: number | undefined): boolean {
+  return size !== undefined && size <= getMaxCachedObjectBytes();
+}
+
+function logFailure(action: string, error: unknown): void {
+  console.error(`[fileCache] Failed to ${action}:`, error instanceof Error ? error.message : error);
+}
+
+/**
+ * Records a cached body of `size` bytes and returns the ids evicted to make room for it.
+ */
+export async function trackCachedFile(id: string, size: number): Promise<string[]> {
+  const now = Date.now();
+  return redis.eval(
+    STORE_ENTRY,
+    3,
+    ENTRIES_KEY,
+    SIZES_KEY,
+    BYTES_KEY,
+    id,
+    size,
+    now,
+    getFileCacheBudget(),
+    now - cacheValues.day * 1000
+  ) as Promise<string[]>;
+}
+
+/** Drops the accounting of entries whose keys were deleted. */
+export async function releaseCachedFiles(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  try {
+    await redis.eval(RELEASE_ENTRIES, 3, ENTRIES_KEY, SIZES_KEY, BYTES_KEY, ...ids);
+  } catch (error) {
+    logFailure("release cache entries", error);
+  }
+}
+
+/** Marks an entry as just used, extending its TTL so it expires no sooner than it is evicted. */
+export function touchCachedFile(id: string): void {
+  redis
+    .multi()
+    .expire(`file:${id}`, cacheValues.day)
+    .expire(`metadata:${id}`, cacheValues.day)
+    .zadd(ENTRIES_KEY, "XX", Date.now(), id)
+    .exec()
+    .catch((error) => logFailure("touch cache entry", error));
+}
+
+export function recordFileCacheOutcome(outcome: FileCacheOutcome): void {
+  redis.hincrby(STATS_KEY, outcome, 1).catch((error) => logFailure("record outcome", error));
+}
+
+export async function getFileCacheStats(): Promise<FileCacheStats> {
+  const [counters, bytes, entries] = await Promise.all([
+    redis.hgetall(STATS_KEY),
+    redis.get(BYTES_KEY),
+    redis.zcard(ENTRIES_KEY),
+  ]);
+  return {
+    hits: Number(counters?.hit) || 0,
+    diskHits: Number(counters?.disk) || 0,
+    misses: Number(counters?.miss) || 0,
+    bypasses: Number(counters?.bypass) || 0,
+    entries,
+    bytes: Number(bytes) || 0,
+    maxBytes: getFileCacheBudget(),
+    maxObjectBytes: getMaxCachedObjectBytes(),
+  };
+}
@@ -7,6 +7,7 @@ import {
 import { Readable } from "stream";
 
 import s3Client from "./s3";
+import { recordObjectRemoved, recordObjectStored } from "./storageUsage";
 
 interface FileTransferResult {
   success: boolean;
@@ -161,6 +162,9 @@ async function moveFileToPrivateBucket(
     const deleteCommand = new DeleteObjectCommand({ Bucket: publicBucket, Key: publicKey });
     await s3Client.send(deleteCommand);
 
+    await recordObjectRemoved(publicKey, bodyBuffer.length);
+    await recordObjectStored(privateKey, bodyBuffer.length, "private");
+
     console.log(`Successfully moved file: ${publicKey} -> ${privateKey}`);
     return true;
   } catch (error) {
@@ -0,0 +1,169 @@
+import { Readable } from "stream";
+
+/** Enough of the file to see every signature below, including the first ZIP entry name. */
+export const SNIFF_LENGTH = 4100;
+
+const DECLARED_TYPE_ALIASES: { [key: string]: string } = {
+  "image/jpg": "image/jpeg",
+  "audio/mp3": "audio/mpeg",
+  "audio/wave": "audio/wav",
+  "audio/x-wav": "audio/wav",
+};
+
+// Tab, line feed, form feed and carriage return
+const TEXT_CONTROL_BYTES = [0x09, 0x0a, 0x0c, 0x0d];
+const MAX_CONTROL_BYTE_RATIO = 0.05;
+
+const SIGNATURE_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/gif",
+  "image/webp",
+  "image/avif",
+  "image/heic",
+  "audio/mpeg",
+  "audio/wav",
+  "video/mp4",
+  "video/webm",
+  "video/x-matroska",
+  "application/pdf",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  "application/vnd.ms-excel",
+  "application/zip",
+  "text/csv",
+];
+
+function startsWith(head: Buffer, signature: number[], offset = 0): boolean {
+  if (head.length < offset + signature.length) return false;
+  return signature.every((byte, index) => head[offset + index] === byte);
+}
+
+function ascii(head: Buffer, start: number, end: number): string {
+  return head.toString("latin1", start, Math.min(end, head.length));
+}
+
+function isMp3FrameHeader(head: Buffer): boolean {
+  // 11-bit frame sync followed by a non-reserved MPEG version and layer
+  if (head.length < 2 || head[0] !== 0xff || (head[1] & 0xe0) !== 0xe0) return false;
+  return (head[1] & 0x18) !== 0x08 && (head[1] & 0x06) !== 0;
+}
+
+/**
+ * Text has no encoding marker, and CSV exports often come in legacy code pages such as cp1251,
+ * so any byte above ASCII passes. Binary data gives itself away with NULs and control bytes.
+ */
+function isText(head: Buffer): boolean {
+  if (head.length === 0 || head.includes(0)) return false;
+  let controlBytes = 0;
+  for (const byte of head) {
+    if ((byte < 0x20 && !TEXT_CONTROL_BYTES.includes(byte)) || byte === 0x7f) controlBytes++;
+  }
+  return controlBytes <= head.length * MAX_CONTROL_BYTE_RATIO;
+}
+
+/**
+ * Detects a file's type from its leading bytes. Text has no signature, so it is reported as
+ * text/plain and left to the caller to interpret.
+ */
+export function detectFileType(head: Buffer): string | null {
+  if (startsWith(head, [0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (startsWith(head, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "image/png";
+  if (ascii(head, 0, 6) === "GIF87a" || ascii(head, 0, 6) === "GIF89a") return "image/gif";
+
+  if (ascii(head, 0, 4) === "RIFF") {
+    const format = ascii(head, 8, 12);
+    if (format === "WEBP") return "image/webp";
+    if (format === "WAVE") return "audio/wav";
+  }
+
+  if (ascii(head, 4, 8) === "ftyp") {
+    const brand = ascii(head, 8, 12);
+    if (brand === "avif" || brand === "avis") return "image/avif";
+    if (brand === "heic" || brand === "heix" || brand === "mif1") return "image/heic";
+    return "video/mp4";
+  }
+
+  if (startsWith(head, [0x1a, 0x45, 0xdf, 0xa3])) {
+    return ascii(head, 0, 64).includes("webm") ? "video/webm" : "video/x-matroska";
+  }
+
+  if (ascii(head, 0, 3) === "ID3" || isMp3FrameHeader(head)) return "audio/mpeg";
+  if (ascii(head, 0, 5) === "%PDF-") return "application/pdf";
+
+  if (startsWith(head, [0x50, 0x4b, 0x03, 0x04])) {
+    const entries = ascii(head, 30, head.length);
+    if (entries.includes("xl/")) {
+      return "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+    }
+    return "application/zip";
+  }
+
+  if (startsWith(head, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) {
+    return "application/vnd.ms-excel";
+  }
+
+  return isText(head) ? "text/plain" : null;
+}
+
+/**
+ * Returns the type to store the file as, or null when the content does not match what the
+ * client declared. CSV is the only text format we accept, so text only matches a CSV claim.
+ */
+export function resolveFileType(head: Buffer, declared: string): string | null {
+  const detected = detectFileType(head);
+  if (!detected) return null;
+
+  if (detected === "text/plain") return declared === "text/csv" ? "text/csv" : null;
+
+  const normalized = DECLARED_TYPE_ALIASES[declared] || declared;
+  return normalized === detected ? detected : null;
+}
+
+/**
+ * Whether detectFileType can confirm or refute a declaration of this type. Content declared as
+ * anything else cannot be checked and has to be taken on trust.
+ */
+export function hasKnownSignature(declared: string): boolean {
+  return SIGNATURE_TYPES.includes(DECLARED_TYPE_ALIASES[declared] || declared);
+}
+
+/**
+ * Reads the first `length` bytes of a stream for sniffing and returns them together with a
+ * stream that still yields the whole file.
+ */
+export async function peekStream(
+  stream: Readable,
+  length = SNIFF_LENGTH
+): Promise<{ head: Buffer; stream: Readable }> {
+  const iterator = stream[Symbol.asyncIterator]();
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  while (size < length) {
+    const { value, done } = await iterator.next();
+    if (done) break;
+    const chunk = Buffer.isBuffer(value) ? value : Buffer.from(value);
+    chunks.push(chunk);
+    size += chunk.length;
+  }
+
+  const buffered = Buffer.concat(chunks);
+  async function* replay() {
+    try {
+      if (buffered.length > 0) yield buffered;
+      while (true) {
+        const { value, done } = await iterator.next();
+        if (done) return;
+        yield value;
+      }
+    } finally {
+      // Destroying the replay stream must release the source as well
+      await iterator.return?.();
+    }
+  }
+
+  return {
+    head: buffered.subarray(0, length),
+    stream: Readable.from(replay(), { objectMode: false }),
+  };
+}
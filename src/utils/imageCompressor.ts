@@ -1,3 +1,4 @@
+import { encode } from "blurhash";
 import sharp from "sharp";
 
 interface ProcessImageOptions {
@@ -7,6 +8,35 @@ interface ProcessImageOptions {
   mimetype?: string;
 }
 
+export const IMAGE_VARIANT_WIDTHS = {
+  thumb: 160,
+  small: 320,
+  medium: 640,
+  large: 1280,
+} as const;
+
+export type ImageVariantName = keyof typeof IMAGE_VARIANT_WIDTHS;
+
+export interface ImageVariant {
+  name: ImageVariantName;
+  buffer: Buffer;
+  width: number;
+  height: number;
+  avifBuffer?: Buffer;
+}
+
+export interface ImagePlaceholder {
+  blurhash: string;
+  lqip: string;
+  dominantColor: string;
+}
+
+function getAvifOptions(): sharp.AvifOptions {
+  // AVIF reaches WebP's visual quality at a noticeably lower quality setting
+  const imageQuality = Number(process.env.IMAGE_QUALITY) || 80;
+  return { quality: Math.max(1, imageQuality - 20), effort: 4 };
+}
+
 export async function compressImage({ buffer, filePath, filename, mimetype }: ProcessImageOptions) {
   const outputFilename = `compressed-${Date.now()}-${filename}.webp`;
   const imageQuality = Number(process.env.IMAGE_QUALITY) || 80;
@@ -30,6 +60,11 @@ export async function compressImage({ buffer, filePath, filename, mimetype }: Pr
 
     const metadata = await sharpInstance.metadata();
     const isAnimated = metadata.pages && metadata.pages > 1;
+    const frameHeight = (isAnimated ? metadata.pageHeight : metadata.height) || 0;
+    // EXIF orientations 5-8 rotate by 90 degrees, so the stored image has swapped dimensions
+    const isRotated = (metadata.orientation || 1) >= 5;
+    const width = isRotated ? frameHeight : metadata.width || 0;
+    const height = isRotated ? metadata.width || 0 : frameHeight;
 
     const webpOptions: sharp.WebpOptions = {
       quality: imageQuality,
@@ -40,15 +75,21 @@ export async function compressImage({ buffer, filePath, filename, mimetype }: Pr
       webpOptions.loop = 0;
     }
 
-    const compressedBuffer = await sharpInstance.webp(webpOptions).toBuffer();
+    const compressedBuffer = await sharpInstance
+      .rotate()
+      .keepIccProfile()
+      .webp(webpOptions)
+      .toBuffer();
 
     if (originalSize > 0 && compressedBuffer.length > originalSize) {
       return {
         success: true,
-        buffer: buffer!,
+        buffer: await sanitizeImage(buffer!, mimetype),
         outputFilename: `${Date.now()}-${filename}`,
         isAnimated: false,
         skipConversion: true,
+        width,
+        height,
       };
     }
 
@@ -58,6 +99,8 @@ export async function compressImage({ buffer, filePath, filename, mimetype }: Pr
       outputFilename,
       isAnimated: false,
       skipConversion: false,
+      width,
+      height,
     };
   } catch (error: any) {
     if (error.message && error.message.includes("Input image exceeds pixel limit")) {
@@ -69,3 +112,121 @@ export async function compressImage({ buffer, filePath, filename, mimetype }: Pr
     throw error;
   }
 }
+
+/**
+ * Auto-orients by EXIF and re-encodes in the source format. sharp drops EXIF, XMP and IPTC on
+ * output by default; only the ICC profile is carried over so colours stay accurate.
+ */
+export async function sanitizeImage(buffer: Buffer, mimetype?: string): Promise<Buffer> {
+  const animated = mimetype === "image/gif" || mimetype === "image/webp";
+  const pipeline = sharp(buffer, { animated, limitInputPixels: false }).rotate().keepIccProfile();
+
+  switch (mimetype) {
+    case "image/jpeg":
+      return pipeline.jpeg({ quality: 90, mozjpeg: true }).toBuffer();
+    case "image/png":
+      return pipeline.png({ compressionLevel: 9 }).toBuffer();
+    case "image/gif":
+      return pipeline.gif().toBuffer();
+    default:
+      return pipeline.webp({ quality: 90, loop: 0 }).toBuffer();
+  }
+}
+
+/**
+ * Encodes a still image as AVIF. Animated images are skipped because AVIF sequences are not
+ * supported by sharp, so callers keep serving the animated WebP/GIF instead.
+ */
+export async function generateAvif(buffer: Buffer, mimetype?: string): Promise<Buffer | null> {
+  const metadata = await sharp(buffer, { limitInputPixels: false }).metadata();
+  if (mimetype === "image/gif" || (metadata.pages && metadata.pages > 1)) return null;
+
+  return sharp(buffer, { limitInputPixels: false })
+    .rotate()
+    .keepIccProfile()
+    .avif(getAvifOptions())
+    .toBuffer();
+}
+
+/**
+ * Produces downscaled WebP renditions for every entry in IMAGE_VARIANT_WIDTHS that is
+ * narrower than the source, plus an AVIF copy of each for still images. Images are never
+ * upscaled, so small uploads get fewer variants.
+ */
+export async function generateImageVariants(
+  buffer: Buffer,
+  mimetype?: string
+): Promise<ImageVariant[]> {
+  const imageQuality = Number(process.env.IMAGE_QUALITY) || 80;
+  const animated = mimetype === "image/gif";
+  const inputOptions: sharp.SharpOptions = animated
+    ? { animated: true, pages: -1, limitInputPixels: false }
+    : { limitInputPixels: false };
+
+  const metadata = await sharp(buffer, inputOptions).metadata();
+  const sourceWidth = ((metadata.orientation || 1) >= 5 ? metadata.height : metadata.width) || 0;
+  const isAnimated = metadata.pages && metadata.pages > 1;
+
+  const variants: ImageVariant[] = [];
+  for (const [name, width] of Object.entries(IMAGE_VARIANT_WIDTHS)) {
+    if (width >= sourceWidth) continue;
+
+    const webpOptions: sharp.WebpOptions = { quality: imageQuality, effort: 4 };
+    if (isAnimated) webpOptions.loop = 0;
+
+    const resized = sharp(buffer, inputOptions)
+      .rotate()
+      .keepIccProfile()
+      .resize({ width, withoutEnlargement: true });
+    const { data, info } = await resized
+      .clone()
+      .webp(webpOptions)
+      .toBuffer({ resolveWithObject: true });
+
+    variants.push({
+      name: name as ImageVariantName,
+      buffer: data,
+      width: info.width,
+      height: isAnimated ? Math.round(info.height / metadata.pages!) : info.height,
+      avifBuffer:
+        animated || isAnimated ? undefined : await resized.avif(getAvifOptions()).toBuffer(),
+    });
+  }
+
+  return variants;
+}
+
+/**
+ * Computes what the client can render while the real image loads: a BlurHash string, a tiny
+ * base64 WebP (LQIP) and the dominant colour as a hex string.
+ */
+export async function generateImagePlaceholder(buffer: Buffer): Promise<ImagePlaceholder> {
+  const source = sharp(buffer, { limitInputPixels: false }).rotate();
+
+  const [pixels, lqipBuffer, stats] = await Promise.all([
+    source
+      .clone()
+      .resize(32, 32, { fit: "inside" })
+      .ensureAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true }),
+    source.clone().resize(16, 16, { fit: "inside" }).webp({ quality: 20 }).toBuffer(),
+    source.clone().stats(),
+  ]);
+
+  const blurhash = encode(
+    new Uint8ClampedArray(pixels.data),
+    pixels.info.width,
+    pixels.info.height,
+    4,
+    3
+  );
+  const { r, g, b } = stats.dominant;
+  const dominantColor = `#${((1 << 24) + (r << 16) + (g << 8) + b).toString(16).slice(1)}`;
+
+  return {
+    blurhash,
+    lqip: `data:image/webp;base64,${lqipBuffer.toString("base64")}`,
+    dominantColor,
+  };
+}
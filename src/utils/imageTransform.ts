@@ -0,0 +1,166 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import sharp from "sharp";
+
+const MAX_DIMENSION = 2560;
+const FITS = ["cover", "contain", "fill", "inside", "outside"] as const;
+const POSITIONS = [
+  "center",
+  "north",
+  "northeast",
+  "east",
+  "southeast",
+  "south",
+  "southwest",
+  "west",
+  "northwest",
+  "entropy",
+  "attention",
+] as const;
+const FORMATS = ["webp", "avif", "jpeg", "png"] as const;
+
+type TransformFormat = (typeof FORMATS)[number];
+
+export interface ImageTransform {
+  width?: number;
+  height?: number;
+  fit?: (typeof FITS)[number];
+  position?: (typeof POSITIONS)[number];
+  format?: TransformFormat;
+  quality?: number;
+}
+
+const FORMAT_CONTENT_TYPES: Record<TransformFormat, string> = {
+  webp: "image/webp",
+  avif: "image/avif",
+  jpeg: "image/jpeg",
+  png: "image/png",
+};
+
+function parseInteger(value: unknown, min: number, max: number): number | null {
+  if (typeof value !== "string" || !/^\d+$/.test(value)) return null;
+  const parsed = Number(value);
+  return parsed >= min && parsed <= max ? parsed : null;
+}
+
+function getTransformSecret(): string {
+  const secret = process.env.IMAGE_TRANSFORM_SECRET;
+  if (!secret) {
+    throw new Error("IMAGE_TRANSFORM_SECRET is required");
+  }
+  return secret;
+}
+
+/**
+ * Parses transform query params (w, h, fit, pos, fm, q). Unknown params are ignored so the
+ * signature param can live alongside them.
+ */
+export function parseImageTransform(query: Record<string, unknown>): {
+  transform?: ImageTransform;
+  error?: string;
+} {
+  const transform: ImageTransform = {};
+
+  if (query.w !== undefined) {
+    const width = parseInteger(query.w, 1, MAX_DIMENSION);
+    if (width === null) return { error: `w must be an integer between 1 and ${MAX_DIMENSION}` };
+    transform.width = width;
+  }
+
+  if (query.h !== undefined) {
+    const height = parseInteger(query.h, 1, MAX_DIMENSION);
+    if (height === null) return { error: `h must be an integer between 1 and ${MAX_DIMENSION}` };
+    transform.height = height;
+  }
+
+  if (query.fit !== undefined) {
+    if (!FITS.includes(query.fit as ImageTransform["fit"])) {
+      return { error: `fit must be one of: ${FITS.join(", ")}` };
+    }
+    transform.fit = query.fit as ImageTransform["fit"];
+  }
+
+  if (query.pos !== undefined) {
+    if (!POSITIONS.includes(query.pos as ImageTransform["position"])) {
+      return { error: `pos must be one of: ${POSITIONS.join(", ")}` };
+    }
+    transform.position = query.pos as ImageTransform["position"];
+  }
+
+  if (query.fm !== undefined) {
+    if (!FORMATS.includes(query.fm as TransformFormat)) {
+      return { error: `fm must be one of: ${FORMATS.join(", ")}` };
+    }
+    transform.format = query.fm as TransformFormat;
+  }
+
+  if (query.q !== undefined) {
+    const quality = parseInteger(query.q, 1, 100);
+    if (quality === null) return { error: "q must be an integer between 1 and 100" };
+    transform.quality = quality;
+  }
+
+  if (!transform.width && !transform.height && !transform.format && !transform.quality) {
+    return { error: "At least one of w, h, fm or q is required" };
+  }
+
+  return { transform };
+}
+
+/**
+ * Canonical, order-independent representation used both for signing and as the cache key,
+ * so equivalent requests always hit the same cache entry.
+ */
+export function serializeImageTransform(transform: ImageTransform): string {
+  const params: string[] = [];
+  if (transform.fit) params.push(`fit=${transform.fit}`);
+  if (transform.format) params.push(`fm=${transform.format}`);
+  if (transform.height) params.push(`h=${transform.height}`);
+  if (transform.position) params.push(`pos=${transform.position}`);
+  if (transform.quality) params.push(`q=${transform.quality}`);
+  if (transform.width) params.push(`w=${transform.width}`);
+  return params.join("&");
+}
+
+export function signImageTransform(key: string, serialized: string): string {
+  return createHmac("sha256", getTransformSecret())
+    .update(`${key}?${serialized}`)
+    .digest("base64url");
+}
+
+export function verifyImageTransformSignature(
+  key: string,
+  serialized: string,
+  signature: unknown
+): boolean {
+  if (typeof signature !== "string" || !signature) return false;
+
+  const expected = Buffer.from(signImageTransform(key, serialized));
+  const provided = Buffer.from(signature);
+  return expected.length === provided.length && timingSafeEqual(expected, provided);
+}
+
+export async function applyImageTransform(
+  buffer: Buffer,
+  transform: ImageTransform,
+  sourceContentType?: string
+): Promise<{ buffer: Buffer; contentType: string }> {
+  const format = transform.format || "webp";
+  const animated =
+    format === "webp" && (sourceContentType === "image/gif" || sourceContentType === "image/webp");
+  let pipeline = sharp(buffer, { animated, limitInputPixels: false }).rotate().keepIccProfile();
+
+  if (transform.width || transform.height) {
+    pipeline = pipeline.resize({
+      width: transform.width,
+      height: transform.height,
+      fit: transform.fit || "cover",
+      position: transform.position || "center",
+      withoutEnlargement: true,
+    });
+  }
+
+  const quality = transform.quality || Number(process.env.IMAGE_QUALITY) || 80;
+  const output = await pipeline.toFormat(format, { quality }).toBuffer();
+
+  return { buffer: output, contentType: FORMAT_CONTENT_TYPES[format] };
+}
@@ -7,12 +7,15 @@ import {
 } from "@aws-sdk/client-s3";
 
 import s3Client from "./s3";
+import { StorageVisibility } from "./storageUsage";
 import yandexS3 from "./ys3";
 
-interface BucketTarget {
+export interface BucketTarget {
   name: string;
   client: S3Client;
   bucket: string;
+  provider: "aws" | "yandex";
+  visibility: StorageVisibility;
 }
 
 export interface RenameResult {
@@ -22,16 +25,30 @@ export interface RenameResult {
   destinationNotEmpty?: boolean;
 }
 
-function getBuckets(): BucketTarget[] {
+export function getBuckets(): BucketTarget[] {
   const isProd = process.env.ACTIVE_ENV === "prod";
   return [
-    { name: "AWS S3 Public", client: s3Client, bucket: isProd ? "korner-pro" : "korner-lol" },
+    {
+      name: "AWS S3 Public",
+      client: s3Client,
+      bucket: isProd ? "korner-pro" : "korner-lol",
+      provider: "aws",
+      visibility: "public",
+    },
     {
       name: "AWS S3 Private",
       client: s3Client,
       bucket: isProd ? "korner-pro-private" : "korner-lol-private",
+      provider: "aws",
+      visibility: "private",
+    },
+    {
+      name: "Yandex S3 Public",
+      client: yandexS3,
+      bucket: isProd ? "korner-pro" : "korner-lol",
+      provider: "yandex",
+      visibility: "public",
     },
-    { name: "Yandex S3 Public", client: yandexS3, bucket: isProd ? "korner-pro" : "korner-lol" },
   ];
 }
 
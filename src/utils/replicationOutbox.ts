@@ -0,0 +1,234 @@
+import { hostname } from "os";
+
+import redis from "./redis";
+
+/**
+ * Outbox for the Yandex copy of public objects. Writes and deletes land on AWS, the primary,
+ * first; the key is then queued on a Redis stream and the replication worker brings Yandex in
+ * line with AWS. Failed tasks are retried with exponential backoff and, after
+ * REPLICATION_MAX_ATTEMPTS, moved to a dead-letter list to inspect and retry by hand.
+ */
+export type ReplicationOp = "put" | "delete";
+
+export interface ReplicationTask {
+  op: ReplicationOp;
+  key: string;
+  attempts: number;
+  enqueuedAt: number;
+}
+
+/** A task read from the stream, identified by its entry id until acknowledged. */
+export interface ClaimedReplicationTask extends ReplicationTask {
+  id: string;
+}
+
+export interface DeadLetter extends ClaimedReplicationTask {
+  error: string;
+  failedAt: number;
+}
+
+export interface ReplicationStatus {
+  queued: number;
+  retrying: number;
+  deadLetters: number;
+}
+
+const OUTBOX_KEY = "replication:outbox";
+const GROUP = "replicators";
+const RETRY_KEY = "replication:retry";
+const DEAD_LETTER_KEY = "replication:dead-letter";
+// Entries a consumer read but never acknowledged, e.g. because it crashed, are taken over
+const CLAIM_IDLE_MS = 60 * 1000;
+const BASE_BACKOFF_MS = 5 * 1000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+// Moves one member of a sorted set or list back onto the stream, unless another instance got
+// to it first. KEYS: source, outbox. ARGV: member, then the entry's field/value pairs.
+const REQUEUE_FROM_RETRY = `
+if redis.call("ZREM", KEYS[1], ARGV[1]) == 0 then return 0 end
+redis.call("XADD", KEYS[2], "*", unpack(ARGV, 2))
+return 1
+`;
+const REQUEUE_FROM_DEAD_LETTER = `
+if redis.call("LREM", KEYS[1], 1, ARGV[1]) == 0 then return 0 end
+redis.call("XADD", KEYS[2], "*", unpack(ARGV, 2))
+return 1
+`;
+
+const consumer = `${hostname()}:${process.pid}`;
+let groupCreated = false;
+
+export function getReplicationMaxAttempts(): number {
+  return Number(process.env.REPLICATION_MAX_ATTEMPTS) || 10;
+}
+
+/** Delay before the given attempt is retried: 5s, 10s, 20s… capped at an hour. */
+export function getReplicationBackoffMs(attempts: number): number {
+  return Math.min(BASE_BACKOFF_MS * Math.pow(2, attempts - 1), MAX_BACKOFF_MS);
+}
+
+function toFields(task: ReplicationTask): string[] {
+  return [
+    "op",
+    task.op,
+    "key",
+    task.key,
+    "attempts",
+    String(task.attempts),
+    "enqueuedAt",
+    String(task.enqueuedAt),
+  ];
+}
+
+function fromFields(id: string, fields: string[]): ClaimedReplicationTask {
+  const values: Record<string, string> = {};
+  for (let i = 0; i < fields.length; i += 2) values[fields[i]] = fields[i + 1];
+  return {
+    id,
+    op: values.op as ReplicationOp,
+    key: values.key,
+    attempts: Number(values.attempts) || 0,
+    enqueuedAt: Number(values.enqueuedAt) || 0,
+  };
+}
+
+export async function enqueueReplication(op: ReplicationOp, key: string): Promise<void> {
+  await redis.xadd(OUTBOX_KEY, "*", ...toFields({ op, key, attempts: 0, enqueuedAt: Date.now() }));
+}
+
+async function ensureGroup(): Promise<void> {
+  if (groupCreated) return;
+  try {
+    await redis.xgroup("CREATE", OUTBOX_KEY, GROUP, "0", "MKSTREAM");
+  } catch (error) {
+    if (!String(error).includes("BUSYGROUP")) throw error;
+  }
+  groupCreated = true;
+}
+
+async function requeueDueRetries(): Promise<void> {
+  const due = await redis.zrangebyscore(RETRY_KEY, 0, Date.now(), "LIMIT", 0, 100);
+  for (const member of due) {
+    const task = JSON.parse(member) as ReplicationTask;
+    await redis.eval(REQUEUE_FROM_RETRY, 2, RETRY_KEY, OUTBOX_KEY, member, ...toFields(task));
+  }
+}
+
+/**
+ * Reads up to `count` tasks for this instance: ones abandoned by another consumer first, then
+ * new ones. Retries whose backoff has passed are put back on the stream beforehand.
+ */
+export async function claimReplicationTasks(count: number): Promise<ClaimedReplicationTask[]> {
+  await ensureGroup();
+  await requeueDueRetries();
+
+  const [, abandoned] = (await redis.xautoclaim(
+    OUTBOX_KEY,
+    GROUP,
+    consumer,
+    CLAIM_IDLE_MS,
+    "0",
+    "COUNT",
+    count
+  )) as [string, Array<[string, string[] | null]>];
+  const fresh = (await redis.xreadgroup(
+    "GROUP",
+    GROUP,
+    consumer,
+    "COUNT",
+    count,
+    "STREAMS",
+    OUTBOX_KEY,
+    ">"
+  )) as Array<[string, Array<[string, string[]]>]> | null;
+
+  const entries = abandoned.concat(fresh?.[0]?.[1] || []);
+  // Entries deleted while pending come back without fields
+  return entries.filter(([, fields]) => fields).map(([id, fields]) => fromFields(id, fields));
+}
+
+export async function completeReplicationTask(task: ClaimedReplicationTask): Promise<void> {
+  await redis.multi().xack(OUTBOX_KEY, GROUP, task.id).xdel(OUTBOX_KEY, task.id).exec();
+}
+
+/**
+ * Schedules a failed task for another attempt, or dead-letters it once it has used them all.
+ * Resolves whether it was dead-lettered.
+ */
+export async function failReplicationTask(
+  task: ClaimedReplicationTask,
+  error: unknown
+): Promise<boolean> {
+  const attempts = task.attempts + 1;
+  const next: ReplicationTask = {
+    op: task.op,
+    key: task.key,
+    attempts,
+    enqueuedAt: task.enqueuedAt,
+  };
+  const deadLettered = attempts >= getReplicationMaxAttempts();
+
+  const transaction = redis.multi();
+  if (deadLettered) {
+    const deadLetter: DeadLetter = {
+      ...next,
+      id: task.id,
+      error: error instanceof Error ? error.message : String(error),
+      failedAt: Date.now(),
+    };
+    transaction.lpush(DEAD_LETTER_KEY, JSON.stringify(deadLetter));
+  } else {
+    transaction.zadd(
+      RETRY_KEY,
+      Date.now() + getReplicationBackoffMs(attempts),
+      JSON.stringify(next)
+    );
+  }
+  await transaction.xack(OUTBOX_KEY, GROUP, task.id).xdel(OUTBOX_KEY, task.id).exec();
+  return deadLettered;
+}
+
+/** Dead-lettered tasks, most recent failure first. */
+export async function listDeadLetters(): Promise<DeadLetter[]> {
+  const raw = await redis.lrange(DEAD_LETTER_KEY, 0, -1);
+  return raw.map((item) => JSON.parse(item) as DeadLetter);
+}
+
+/**
+ * Puts dead-lettered tasks back on the stream with their attempts reset: the ones with the
+ * given ids, or all of them. Resolves how many were requeued.
+ */
+export async function retryDeadLetters(ids?: string[]): Promise<number> {
+  const raw = await redis.lrange(DEAD_LETTER_KEY, 0, -1);
+  let requeued = 0;
+  for (const item of raw) {
+    const deadLetter = JSON.parse(item) as DeadLetter;
+    if (ids && !ids.includes(deadLetter.id)) continue;
+    const task: ReplicationTask = {
+      op: deadLetter.op,
+      key: deadLetter.key,
+      attempts: 0,
+      enqueuedAt: Date.now(),
+    };
+    requeued += Number(
+      await redis.eval(
+        REQUEUE_FROM_DEAD_LETTER,
+        2,
+        DEAD_LETTER_KEY,
+        OUTBOX_KEY,
+        item,
+        ...toFields(task)
+      )
+    );
+  }
+  return requeued;
+}
+
+export async function getReplicationStatus(): Promise<ReplicationStatus> {
+  const [queued, retrying, deadLetters] = await Promise.all([
+    redis.xlen(OUTBOX_KEY),
+    redis.zcard(RETRY_KEY),
+    redis.llen(DEAD_LETTER_KEY),
+  ]);
+  return { queued, retrying, deadLetters };
+}
@@ -1,16 +1,37 @@
-import { PutObjectCommand, DeleteObjectCommand, ListObjectsV2Command } from "@aws-sdk/client-s3";
-import { Readable } from "stream";
+import {
+  CopyObjectCommand,
+  PutObjectCommand,
+  DeleteObjectCommand,
+  DeleteObjectsCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+} from "@aws-sdk/client-s3";
+import { Upload } from "@aws-sdk/lib-storage";
+import { Readable, Transform } from "stream";
 
 import { cacheValues } from "./cache";
+import { invalidateDiskCache } from "./diskCache";
+import { getAvifFilename } from "./file";
+import { isCacheableSize, releaseCachedFiles, trackCachedFile } from "./fileCache";
+import { ImagePlaceholder } from "./imageCompressor";
 import redis from "./redis";
+import { enqueueReplication, ReplicationOp } from "./replicationOutbox";
 import s3Client from "./s3";
+import { headObject, isNotFoundError } from "./storageRead";
+import { recordObjectRemoved, recordObjectStored } from "./storageUsage";
 import yandexS3 from "./ys3";
 
+/**
+ * Writes an object to AWS and queues its Yandex copy on the replication outbox, so the upload
+ * succeeds as soon as the primary has it.
+ */
 export async function uploadToBothBuckets(
   username: string,
   buffer: Buffer,
   outputFilename: string,
-  contentType: string
+  contentType: string,
+  metadata?: Record<string, string>
 ): Promise<string> {
   const s3Key = `${username}/${outputFilename}`;
   const commonParams = {
@@ -18,15 +39,14 @@ export async function uploadToBothBuckets(
     Body: buffer,
     ContentType: contentType,
     CacheControl: "public, max-age=31536000, immutable",
+    Metadata: metadata,
   };
 
   const primaryBucket = process.env.ACTIVE_ENV === "prod" ? "korner-pro" : "korner-lol";
-  const yandexBucket = process.env.ACTIVE_ENV === "prod" ? "korner-pro" : "korner-lol";
 
-  await Promise.all([
-    s3Client.send(new PutObjectCommand({ ...commonParams, Bucket: primaryBucket })),
-    yandexS3.send(new PutObjectCommand({ ...commonParams, Bucket: yandexBucket })),
-  ]);
+  await s3Client.send(new PutObjectCommand({ ...commonParams, Bucket: primaryBucket }));
+  await recordObjectStored(s3Key, buffer.length);
+  await queueReplication("put", s3Key);
 
   const baseUrl =
     process.env.ACTIVE_ENV === "prod" ? "https://cdn.korner.pro" : "https://cdn.korner.lol";
@@ -34,19 +54,247 @@ export async function uploadToBothBuckets(
   return `${baseUrl}/${s3Key}`;
 }
 
+export class UploadSizeLimitError extends Error {
+  limit: number;
+
+  constructor(limit: number) {
+    super(`Upload exceeds ${limit} bytes`);
+    this.limit = limit;
+  }
+}
+
+const STREAM_PART_SIZE = 5 * 1024 * 1024;
+const STREAM_QUEUE_SIZE = 2;
+
+/**
+ * Streaming counterpart of uploadToBothBuckets. The body goes through one managed upload to
+ * AWS, so memory stays at a few parts regardless of file size, and the Yandex copy is queued on
+ * the replication outbox. Fails with UploadSizeLimitError as soon as more than `maxSize` bytes
+ * arrive.
+ */
+export async function streamToBothBuckets(
+  username: string,
+  body: Readable,
+  outputFilename: string,
+  contentType: string,
+  maxSize: number
+): Promise<{ url: string; size: number }> {
+  const s3Key = `${username}/${outputFilename}`;
+  const primaryBucket = process.env.ACTIVE_ENV === "prod" ? "korner-pro" : "korner-lol";
+
+  let size = 0;
+  const limiter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      size += chunk.length;
+      if (size > maxSize) {
+        callback(new UploadSizeLimitError(maxSize));
+        return;
+      }
+      callback(null, chunk);
+    },
+  });
+  body.on("error", (error) => limiter.destroy(error));
+  body.pipe(limiter);
+
+  try {
+    await new Upload({
+      client: s3Client,
+      params: {
+        Bucket: primaryBucket,
+        Key: s3Key,
+        Body: limiter,
+        ContentType: contentType,
+        CacheControl: "public, max-age=31536000, immutable",
+      },
+      queueSize: STREAM_QUEUE_SIZE,
+      partSize: STREAM_PART_SIZE,
+    }).done();
+  } catch (error) {
+    // The managed upload aborts its own parts; only the source has to stop
+    body.unpipe(limiter);
+    body.destroy();
+    throw error;
+  }
+  await recordObjectStored(s3Key, size);
+  await queueReplication("put", s3Key);
+
+  const baseUrl =
+    process.env.ACTIVE_ENV === "prod" ? "https://cdn.korner.pro" : "https://cdn.korner.lol";
+
+  return { url: `${baseUrl}/${s3Key}`, size };
+}
+
+/** Copies an object between the public buckets of two providers, streaming the body. */
+export async function replicateObject(
+  key: string,
+  from: typeof s3Client,
+  to: typeof s3Client
+): Promise<void> {
+  const bucket = process.env.ACTIVE_ENV === "prod" ? "korner-pro" : "korner-lol";
+
+  const source = await from.send(new GetObjectCommand({ Bucket: bucket, Key: key }));
+
+  const upload = new Upload({
+    client: to,
+    params: {
+      Bucket: bucket,
+      Key: key,
+      Body: source.Body as Readable,
+      ContentType: source.ContentType,
+      CacheControl: source.CacheControl || "public, max-age=31536000, immutable",
+      Metadata: source.Metadata,
+    },
+    queueSize: 2,
+    partSize: 10 * 1024 * 1024,
+  });
+  await upload.done();
+}
+
+/** Deletes an object from AWS and queues the Yandex delete on the replication outbox. */
 export async function deleteFromBothBuckets(username: string, key: string): Promise<void> {
   const primaryBucket = process.env.ACTIVE_ENV === "prod" ? "korner-pro" : "korner-lol";
-  const yandexBucket = process.env.ACTIVE_ENV === "prod" ? "korner-pro" : "korner-lol";
 
-  await Promise.all([
-    s3Client.send(new DeleteObjectCommand({ Bucket: primaryBucket, Key: key })),
-    yandexS3.send(new DeleteObjectCommand({ Bucket: yandexBucket, Key: key })),
-  ]);
+  // The size is only needed for the usage counters; a missing object has nothing to subtract
+  const size = await s3Client
+    .send(new HeadObjectCommand({ Bucket: primaryBucket, Key: key }))
+    .then((head) => head.ContentLength || 0)
+    .catch(() => 0);
+
+  await s3Client.send(new DeleteObjectCommand({ Bucket: primaryBucket, Key: key }));
+  if (size > 0) await recordObjectRemoved(key, size);
+  await queueReplication("delete", key);
+  await evictCachedFile(key);
+}
+
+/**
+ * Brings the Yandex copy of a key in line with AWS: copies the object over when AWS has it and
+ * deletes it otherwise. Working from the primary's current state rather than the queued
+ * operation keeps retries safe in any order, e.g. a stale delete after the key was re-uploaded.
+ */
+export async function syncToYandex(key: string): Promise<void> {
+  const bucket = process.env.ACTIVE_ENV === "prod" ? "korner-pro" : "korner-lol";
+
+  const exists = await s3Client
+    .send(new HeadObjectCommand({ Bucket: bucket, Key: key }))
+    .then(() => true)
+    .catch((error) => {
+      if (isNotFoundError(error)) return false;
+      throw error;
+    });
+
+  if (exists) await replicateObject(key, s3Client, yandexS3);
+  else await yandexS3.send(new DeleteObjectCommand({ Bucket: bucket, Key: key }));
+  // Reads prefer Yandex, so its old state may have been cached while the task was queued
+  await evictCachedFile(key);
+}
+
+/**
+ * Queues the Yandex side of a write or delete that has landed on AWS. Should Redis refuse the
+ * entry, Yandex is synced right away instead so the buckets still converge.
+ */
+export async function queueReplication(op: ReplicationOp, key: string): Promise<void> {
+  try {
+    await enqueueReplication(op, key);
+  } catch (error) {
+    console.error(
+      `[replication] Failed to queue ${op} of ${key}, syncing now:`,
+      error instanceof Error ? error.message : error
+    );
+    await syncToYandex(key).catch((syncError) =>
+      console.error(
+        `[replication] Failed to sync ${key}:`,
+        syncError instanceof Error ? syncError.message : syncError
+      )
+    );
+  }
+}
+
+/**
+ * Copies an object to a new key on AWS and queues the Yandex copy. Resolves false when AWS has
+ * no source object.
+ */
+export async function copyInBothBuckets(fromKey: string, toKey: string): Promise<boolean> {
+  const primaryBucket = process.env.ACTIVE_ENV === "prod" ? "korner-pro" : "korner-lol";
+
+  const copied = await s3Client
+    .send(
+      new CopyObjectCommand({
+        Bucket: primaryBucket,
+        CopySource: encodeURI(`${primaryBucket}/${fromKey}`),
+        Key: toKey,
+      })
+    )
+    .then(() => true)
+    .catch((error: any) => {
+      if (error.name === "NoSuchKey" || error.$metadata?.httpStatusCode === 404) return false;
+      throw error;
+    });
+
+  if (copied) await queueReplication("put", toKey);
+  return copied;
+}
+
+/**
+ * Moves an object to a new key on AWS (copy, then delete the original), queues both keys for
+ * Yandex and evicts the old key from the cache. Resolves false when AWS has no source object.
+ */
+export async function moveInBothBuckets(fromKey: string, toKey: string): Promise<boolean> {
+  const primaryBucket = process.env.ACTIVE_ENV === "prod" ? "korner-pro" : "korner-lol";
+
+  if (!(await copyInBothBuckets(fromKey, toKey))) return false;
+
+  await s3Client.send(new DeleteObjectCommand({ Bucket: primaryBucket, Key: fromKey }));
+  await queueReplication("delete", fromKey);
+  await evictCachedFile(fromKey);
+  return true;
+}
+
+// DeleteObjects accepts at most this many keys per request
+const DELETE_OBJECTS_BATCH = 1000;
+
+/**
+ * Deletes keys from AWS with DeleteObjects, queues the Yandex deletes and evicts the keys from
+ * the cache. Usage counters are left alone, so callers that remove data for good record it
+ * themselves. Resolves with the error message for each key AWS failed to delete.
+ */
+export async function deleteManyFromBothBuckets(keys: string[]): Promise<Map<string, string>> {
+  const primaryBucket = process.env.ACTIVE_ENV === "prod" ? "korner-pro" : "korner-lol";
+  const failures = new Map<string, string>();
+
+  for (let i = 0; i < keys.length; i += DELETE_OBJECTS_BATCH) {
+    const batch = keys.slice(i, i + DELETE_OBJECTS_BATCH);
+    const primary = await s3Client.send(
+      new DeleteObjectsCommand({
+        Bucket: primaryBucket,
+        Delete: { Objects: batch.map((key) => ({ Key: key })), Quiet: true },
+      })
+    );
+
+    for (const error of primary.Errors || []) {
+      if (error.Key) failures.set(error.Key, error.Message || "Failed to delete object");
+    }
+  }
+
+  const deleted = keys.filter((key) => !failures.has(key));
+  for (const key of deleted) await queueReplication("delete", key);
+  await Promise.all(deleted.map(evictCachedFile));
+  return failures;
+}
 
-  // Clear cache
+/**
+ * Clears a file's cache entries, including any transformed renditions derived from it, from
+ * Redis and from the disk cache of every instance.
+ */
+export async function evictCachedFile(key: string): Promise<void> {
   const cacheKey = `file:${key}`;
   const metadataKey = `metadata:${key}`;
-  await redis.del([cacheKey, metadataKey]);
+  const transformsKey = `transforms:${key}`;
+  const transformed = await redis.smembers(transformsKey);
+  const keysToDelete = [cacheKey, metadataKey, transformsKey, `avif:${key}`];
+  for (const id of transformed) keysToDelete.push(`file:${id}`, `metadata:${id}`);
+  await redis.del(keysToDelete);
+  await releaseCachedFiles([key, ...transformed]);
+  await invalidateDiskCache([key]);
 }
 
 export async function streamToBuffer(stream: Readable): Promise<Buffer> {
@@ -57,13 +305,19 @@ export async function streamToBuffer(stream: Readable): Promise<Buffer> {
   return Buffer.concat(chunks);
 }
 
+/**
+ * Caches a file body with its metadata, within the size limits of the file cache. Bodies over
+ * the per-object limit are skipped; others may evict the least recently used entries.
+ */
 export async function cacheFileToRedis(
   key: string,
   buffer: Buffer,
   contentType?: string,
   contentLength?: number,
-  lastModified?: Date
+  lastModified?: Date,
+  etag?: string
 ): Promise<void> {
+  if (!isCacheableSize(buffer.length)) return;
   const cacheKey = `file:${key}`;
   const metadataKey = `metadata:${key}`;
 
@@ -73,49 +327,175 @@ export async function cacheFileToRedis(
       ContentType: contentType || "",
       ContentLength: contentLength?.toString() || buffer.length.toString(),
       LastModified: lastModified?.toUTCString() || "",
+      ETag: etag || "",
     }),
     redis.expire(metadataKey, cacheValues.day),
   ]);
+
+  try {
+    const evicted = await trackCachedFile(key, buffer.length);
+    const keysToDelete: string[] = [];
+    for (const id of evicted) keysToDelete.push(`file:${id}`, `metadata:${id}`);
+    if (keysToDelete.length > 0) await redis.del(keysToDelete);
+  } catch (error) {
+    // Unaccounted entries still expire with their TTL
+    console.error(
+      "[fileCache] Failed to account cached file",
+      key,
+      error instanceof Error ? error.message : error
+    );
+  }
 }
 
-export async function getUserStorageUsage(username: string): Promise<{
+export async function cacheTransformToRedis(
+  key: string,
+  serializedTransform: string,
+  buffer: Buffer,
+  contentType: string
+): Promise<void> {
+  const transformId = `${key}?${serializedTransform}`;
+  const transformsKey = `transforms:${key}`;
+
+  await Promise.all([
+    cacheFileToRedis(transformId, buffer, contentType, buffer.length, new Date()),
+    redis.sadd(transformsKey, transformId),
+    redis.expire(transformsKey, cacheValues.day),
+  ]);
+}
+
+export function placeholderToMetadata(placeholder: ImagePlaceholder): Record<string, string> {
+  return {
+    blurhash: placeholder.blurhash,
+    lqip: placeholder.lqip,
+    "dominant-color": placeholder.dominantColor,
+  };
+}
+
+export function placeholderFromMetadata(
+  metadata: Record<string, string> | undefined
+): ImagePlaceholder | undefined {
+  if (!metadata?.blurhash) return undefined;
+
+  return {
+    blurhash: metadata.blurhash,
+    lqip: metadata.lqip || "",
+    dominantColor: metadata["dominant-color"] || "",
+  };
+}
+
+const AVIF_NEGOTIABLE_EXTENSIONS = /\.(webp|jpe?g|png)$/i;
+
+export function isAvifNegotiable(key: string): boolean {
+  return AVIF_NEGOTIABLE_EXTENSIONS.test(key);
+}
+
+export function acceptsAvif(accept: string | undefined): boolean {
+  if (!accept) return false;
+
+  return accept.split(",").some((part) => {
+    const [mediaType, ...params] = part.split(";").map((value) => value.trim());
+    if (mediaType.toLowerCase() !== "image/avif") return false;
+    const quality = params.find((param) => param.startsWith("q="));
+    return !quality || Number(quality.slice(2)) > 0;
+  });
+}
+
+export async function markAvifAvailable(key: string): Promise<void> {
+  await redis.setex(`avif:${key}`, cacheValues.week, "1");
+}
+
+/**
+ * Returns the AVIF sibling of `key` when the client accepts AVIF and one was stored at
+ * upload time, otherwise `key` itself. Availability is remembered in Redis so older uploads
+ * without an AVIF copy don't cost a HEAD request on every hit. When neither provider can
+ * answer the HEAD, the original is served and nothing is remembered.
+ */
+export async function resolveNegotiatedKey(key: string, accept: string | undefined) {
+  if (!isAvifNegotiable(key) || !acceptsAvif(accept)) return key;
+
+  const avifKey = getAvifFilename(key);
+  const marker = await redis.get(`avif:${key}`);
+  if (marker === "1") return avifKey;
+  if (marker === "0") return key;
+
+  try {
+    await headObject(avifKey);
+    await markAvifAvailable(key);
+    return avifKey;
+  } catch (error) {
+    if (isNotFoundError(error)) {
+      await redis.setex(`avif:${key}`, cacheValues.day, "0");
+    } else {
+      console.error(
+        `[s3.utils] Failed to check for ${avifKey}:`,
+        error instanceof Error ? error.message : error
+      );
+    }
+    return key;
+  }
+}
+
+export interface StoredObject {
+  key: string;
+  size: number;
+  lastModified?: Date;
+}
+
+/**
+ * Lists one page of the user's prefix. Empty objects are skipped, so a page can hold fewer
+ * than `maxKeys` entries even when more follow.
+ */
+export async function listUserObjectsPage(
+  username: string,
+  options: {
+    bucket?: string;
+    prefix?: string;
+    startAfter?: string;
+    continuationToken?: string;
+    maxKeys?: number;
+  } = {}
+): Promise<{ files: StoredObject[]; nextContinuationToken?: string }> {
+  const response = await s3Client.send(
+    new ListObjectsV2Command({
+      Bucket: options.bucket || process.env.AWS_BUCKET!,
+      Prefix: `${username}/${options.prefix || ""}`,
+      StartAfter: options.startAfter,
+      ContinuationToken: options.continuationToken,
+      MaxKeys: options.maxKeys,
+    })
+  );
+
+  const files: StoredObject[] = [];
+  for (const object of response.Contents || []) {
+    if (object.Key && object.Size) {
+      files.push({ key: object.Key, size: object.Size, lastModified: object.LastModified });
+    }
+  }
+
+  return { files, nextContinuationToken: response.NextContinuationToken };
+}
+
+export async function getUserStorageUsage(
+  username: string,
+  bucket: string = process.env.AWS_BUCKET!
+): Promise<{
   totalSize: number;
   fileCount: number;
-  files: Array<{ key: string; size: number; lastModified?: Date }>;
+  files: StoredObject[];
 }> {
-  const prefix = `${username}/`;
   let totalSize = 0;
-  let fileCount = 0;
-  const files: Array<{ key: string; size: number; lastModified?: Date }> = [];
+  const files: StoredObject[] = [];
 
-  const primaryBucket = process.env.AWS_BUCKET!;
   let continuationToken: string | undefined;
 
   do {
-    const command = new ListObjectsV2Command({
-      Bucket: primaryBucket,
-      Prefix: prefix,
-      ContinuationToken: continuationToken,
-    });
-
-    const response = await s3Client.send(command);
-
-    if (response.Contents) {
-      for (const object of response.Contents) {
-        if (object.Key && object.Size) {
-          totalSize += object.Size;
-          fileCount++;
-          files.push({
-            key: object.Key,
-            size: object.Size,
-            lastModified: object.LastModified,
-          });
-        }
-      }
+    const page = await listUserObjectsPage(username, { bucket, continuationToken });
+    for (const file of page.files) {
+      totalSize += file.size;
+      files.push(file);
     }
-
-    continuationToken = response.NextContinuationToken;
+    continuationToken = page.nextContinuationToken;
   } while (continuationToken);
 
-  return { totalSize, fileCount, files };
+  return { totalSize, fileCount: files.length, files };
 }
@@ -0,0 +1,122 @@
+import { getActiveSubscriptionInfo } from "./billingServiceClient";
+import { getStorageUsage } from "./storageUsage";
+
+export interface UploadOwner {
+  id: number;
+  username: string;
+}
+
+interface PlanQuota {
+  bytes: number;
+  files: number;
+}
+
+export interface StorageQuotaStatus {
+  plan: string;
+  limit: number;
+  used: number;
+  remaining: number;
+  percentUsed: number;
+  fileLimit: number;
+  fileCount: number;
+  filesRemaining: number;
+}
+
+const GB = 1024 * 1024 * 1024;
+
+// "free" applies without an active subscription, "default" to plans missing from STORAGE_QUOTAS
+const DEFAULT_QUOTAS: { [plan: string]: PlanQuota } = {
+  free: { bytes: 1 * GB, files: 1000 },
+  default: { bytes: 50 * GB, files: 50000 },
+};
+
+function getConfiguredQuotas(): { [plan: string]: PlanQuota } {
+  if (!process.env.STORAGE_QUOTAS) return DEFAULT_QUOTAS;
+  try {
+    return { ...DEFAULT_QUOTAS, ...JSON.parse(process.env.STORAGE_QUOTAS) };
+  } catch {
+    console.error("[storageQuota] STORAGE_QUOTAS is not valid JSON, using defaults");
+    return DEFAULT_QUOTAS;
+  }
+}
+
+async function getPlanQuota(userId: number): Promise<{ plan: string; quota: PlanQuota }> {
+  const quotas = getConfiguredQuotas();
+  const subscription = await getActiveSubscriptionInfo(userId);
+
+  if (!subscription.hasActiveSubscription) return { plan: "free", quota: quotas.free };
+
+  const plan = subscription.subscriptionPlan || "default";
+  return { plan, quota: quotas[plan] || quotas.default };
+}
+
+/**
+ * Bytes and files stored under the user's prefix in the public and private buckets.
+ */
+export async function getQuotaUsage(username: string): Promise<{ bytes: number; files: number }> {
+  const usage = await getStorageUsage(username);
+  return {
+    bytes: usage.public.bytes + usage.private.bytes,
+    files: usage.public.files + usage.private.files,
+  };
+}
+
+export async function getStorageQuotaStatus(owner: UploadOwner): Promise<StorageQuotaStatus> {
+  const [{ plan, quota }, usage] = await Promise.all([
+    getPlanQuota(owner.id),
+    getQuotaUsage(owner.username),
+  ]);
+
+  return {
+    plan,
+    limit: quota.bytes,
+    used: usage.bytes,
+    remaining: Math.max(quota.bytes - usage.bytes, 0),
+    percentUsed: Math.round((usage.bytes / quota.bytes) * 10000) / 100,
+    fileLimit: quota.files,
+    fileCount: usage.files,
+    filesRemaining: Math.max(quota.files - usage.files, 0),
+  };
+}
+
+/**
+ * Checks whether `bytes` more in `files` more objects fit in the owner's plan. Uploads of
+ * unknown size pass 1 byte and cap their stream at the returned `remaining`; checks on an
+ * object that is already stored pass 0 and 0.
+ * If billing is unreachable the upload is allowed: an outage should not block every upload.
+ */
+export async function checkStorageQuota(
+  owner: UploadOwner,
+  bytes: number,
+  files = 1
+): Promise<{ allowed: boolean; message?: string; status?: StorageQuotaStatus }> {
+  let status: StorageQuotaStatus;
+  try {
+    status = await getStorageQuotaStatus(owner);
+  } catch (error) {
+    console.error(
+      "[storageQuota] Skipping quota check for",
+      owner.username,
+      error instanceof Error ? error.message : error
+    );
+    return { allowed: true };
+  }
+
+  if (status.fileCount + files > status.fileLimit) {
+    return {
+      allowed: false,
+      message: `File limit of ${status.fileLimit} files reached for the ${status.plan} plan`,
+      status,
+    };
+  }
+
+  if (status.used + bytes > status.limit) {
+    return {
+      allowed: false,
+      message: `Storage quota of ${status.limit} bytes exceeded for the ${status.plan} plan`,
+      status,
+    };
+  }
+
+  return { allowed: true, status };
+}
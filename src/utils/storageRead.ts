@@ -0,0 +1,182 @@
+import {
+  GetObjectCommand,
+  GetObjectCommandOutput,
+  HeadObjectCommand,
+  HeadObjectCommandOutput,
+  S3Client,
+} from "@aws-sdk/client-s3";
+
+import { logger } from "./logger";
+import redis from "./redis";
+import s3Client from "./s3";
+import { replicateObject } from "./s3.utils";
+import yandexS3 from "./ys3";
+
+/**
+ * Reads from the public buckets with failover. The preferred provider (READ_PREFERRED_PROVIDER,
+ * Yandex by default) is asked first; when it errors, does not answer within
+ * READ_PROVIDER_TIMEOUT_MS or lacks the object, the other provider is asked instead. With
+ * READ_REPAIR_ENABLED=true an object that only the fallback had is copied back in the background.
+ */
+export type StorageProvider = "yandex" | "aws";
+
+export interface StorageRead<T> {
+  output: T;
+  provider: StorageProvider;
+  failover: boolean;
+}
+
+export interface StorageReadStats {
+  yandex: number;
+  aws: number;
+  failovers: number;
+  repairs: number;
+}
+
+const STATS_KEY = "storage-reads:stats";
+// Repairs are not retried for a key within this window, whether they succeeded or not
+const REPAIR_LOCK_TTL_SECONDS = 60 * 60;
+
+export class ProviderTimeoutError extends Error {
+  provider: StorageProvider;
+
+  constructor(provider: StorageProvider, timeoutMs: number) {
+    super(`${provider} did not answer within ${timeoutMs}ms`);
+    this.name = "ProviderTimeoutError";
+    this.provider = provider;
+  }
+}
+
+export function getPreferredProvider(): StorageProvider {
+  return process.env.READ_PREFERRED_PROVIDER === "aws" ? "aws" : "yandex";
+}
+
+export function getProviderTimeoutMs(): number {
+  return Number(process.env.READ_PROVIDER_TIMEOUT_MS) || 5000;
+}
+
+function getClient(provider: StorageProvider): S3Client {
+  return provider === "aws" ? s3Client : yandexS3;
+}
+
+function getBucket(): string {
+  return process.env.ACTIVE_ENV === "prod" ? "korner-pro" : "korner-lol";
+}
+
+export function isNotFoundError(error: any): boolean {
+  return (
+    error?.name === "NotFound" ||
+    error?.name === "NoSuchKey" ||
+    error?.$metadata?.httpStatusCode === 404
+  );
+}
+
+export function isInvalidRangeError(error: any): boolean {
+  return error?.name === "InvalidRange" || error?.$metadata?.httpStatusCode === 416;
+}
+
+function logFailure(action: string, error: unknown): void {
+  logger.error(`[storageRead] Failed to ${action}`, { error: String(error) });
+}
+
+function recordRead(provider: StorageProvider, failover: boolean): void {
+  const fields = failover ? [provider, "failovers"] : [provider];
+  for (const field of fields) {
+    redis.hincrby(STATS_KEY, field, 1).catch((error) => logFailure("record read", error));
+  }
+}
+
+/** Sends a command to one provider, giving up once it has not answered within the timeout. */
+async function sendWithTimeout<T>(
+  provider: StorageProvider,
+  command: GetObjectCommand | HeadObjectCommand
+): Promise<T> {
+  const timeoutMs = getProviderTimeoutMs();
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return (await getClient(provider).send(command as GetObjectCommand, {
+      abortSignal: controller.signal,
+    })) as T;
+  } catch (error) {
+    if (controller.signal.aborted) throw new ProviderTimeoutError(provider, timeoutMs);
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function repairObject(
+  key: string,
+  source: StorageProvider,
+  target: StorageProvider
+): Promise<void> {
+  const locked = await redis.set(`storage-repair:${key}`, "1", "EX", REPAIR_LOCK_TTL_SECONDS, "NX");
+  if (!locked) return;
+  await replicateObject(key, getClient(source), getClient(target));
+  await redis.hincrby(STATS_KEY, "repairs", 1);
+  logger.info(`[storageRead] Repaired ${key} in ${target} from ${source}`);
+}
+
+async function readWithFailover<T>(
+  key: string,
+  createCommand: () => GetObjectCommand | HeadObjectCommand
+): Promise<StorageRead<T>> {
+  const preferred = getPreferredProvider();
+  const fallback: StorageProvider = preferred === "aws" ? "yandex" : "aws";
+
+  let preferredError: unknown;
+  try {
+    const output = await sendWithTimeout<T>(preferred, createCommand());
+    recordRead(preferred, false);
+    return { output, provider: preferred, failover: false };
+  } catch (error) {
+    // A range past the end is an answer about an object that exists, not a failure
+    if (isInvalidRangeError(error)) throw error;
+    preferredError = error;
+  }
+
+  let output: T;
+  try {
+    output = await sendWithTimeout<T>(fallback, createCommand());
+  } catch (fallbackError) {
+    // The object only counts as missing when neither provider has it
+    throw isNotFoundError(fallbackError) && !isNotFoundError(preferredError)
+      ? preferredError
+      : fallbackError;
+  }
+
+  logger.warn(`[storageRead] Served ${key} from ${fallback} after ${preferred} failed`, {
+    error: String(preferredError),
+  });
+  recordRead(fallback, true);
+  if (isNotFoundError(preferredError) && process.env.READ_REPAIR_ENABLED === "true") {
+    repairObject(key, fallback, preferred).catch((error) => logFailure(`repair ${key}`, error));
+  }
+  return { output, provider: fallback, failover: true };
+}
+
+/** GETs an object from the public buckets, optionally a `bytes=` range of it. */
+export function readObject(
+  key: string,
+  range?: string
+): Promise<StorageRead<GetObjectCommandOutput>> {
+  return readWithFailover(
+    key,
+    () => new GetObjectCommand({ Bucket: getBucket(), Key: key, Range: range })
+  );
+}
+
+export function headObject(key: string): Promise<StorageRead<HeadObjectCommandOutput>> {
+  return readWithFailover(key, () => new HeadObjectCommand({ Bucket: getBucket(), Key: key }));
+}
+
+export async function getStorageReadStats(): Promise<StorageReadStats> {
+  const counters = await redis.hgetall(STATS_KEY);
+  return {
+    yandex: Number(counters?.yandex) || 0,
+    aws: Number(counters?.aws) || 0,
+    failovers: Number(counters?.failovers) || 0,
+    repairs: Number(counters?.repairs) || 0,
+  };
+}
@@ -0,0 +1,203 @@
+import { getMediaKind, isImageRendition, MediaKind } from "./file";
+import redis from "./redis";
+import { getUserStorageUsage, StoredObject } from "./s3.utils";
+
+export type StorageVisibility = "public" | "private";
+
+/** Media kinds from the stored filename; "other" covers names generateSafeFilename did not make. */
+export type UsageKind = MediaKind | "other";
+
+export const USAGE_KINDS: UsageKind[] = ["image", "audio", "video", "file", "other"];
+
+export interface StorageUsageTotals {
+  bytes: number;
+  files: number;
+}
+
+export interface VisibilityUsage extends StorageUsageTotals {
+  byKind: Record<UsageKind, StorageUsageTotals>;
+}
+
+export interface StorageUsage {
+  public: VisibilityUsage;
+  private: VisibilityUsage;
+  reconciledAt: number;
+}
+
+/** Sorted set of usernames with counters, scored by when their counters were last reconciled. */
+export const STORAGE_USAGE_USERS_KEY = "storage-usage:users";
+
+// Bumped whenever the hash gains fields, so counters written by older code get recomputed
+const USAGE_VERSION = "2";
+
+// Only adjust counters that exist: a missing hash means usage has never been read, and the
+// first read reconciles from a listing anyway. ARGV holds field/delta pairs.
+const INCREMENT_IF_PRESENT = `
+if redis.call("EXISTS", KEYS[1]) == 0 then return 0 end
+for i = 1, #ARGV, 2 do
+  redis.call("HINCRBY", KEYS[1], ARGV[i], ARGV[i + 1])
+end
+return 1
+`;
+
+function getUsageKey(username: string): string {
+  return `storage-usage:${username}`;
+}
+
+function getPrivateBucket(): string {
+  return process.env.ACTIVE_ENV === "prod" ? "korner-pro-private" : "korner-lol-private";
+}
+
+function getUsageKind(key: string): UsageKind {
+  return getMediaKind(key) || "other";
+}
+
+function emptyVisibilityUsage(): VisibilityUsage {
+  const byKind = {} as Record<UsageKind, StorageUsageTotals>;
+  for (const kind of USAGE_KINDS) byKind[kind] = { bytes: 0, files: 0 };
+  return { bytes: 0, files: 0, byKind };
+}
+
+function summarize(objects: StoredObject[]): VisibilityUsage {
+  const usage = emptyVisibilityUsage();
+  for (const object of objects) {
+    // Renditions count towards bytes but not files
+    const files = isImageRendition(object.key) ? 0 : 1;
+    const kind = usage.byKind[getUsageKind(object.key)];
+    usage.bytes += object.size;
+    usage.files += files;
+    kind.bytes += object.size;
+    kind.files += files;
+  }
+  return usage;
+}
+
+function toHashFields(visibility: StorageVisibility, usage: VisibilityUsage) {
+  const fields: Record<string, number> = {
+    [`${visibility}:bytes`]: usage.bytes,
+    [`${visibility}:files`]: usage.files,
+  };
+  for (const kind of USAGE_KINDS) {
+    fields[`${visibility}:${kind}:bytes`] = usage.byKind[kind].bytes;
+    fields[`${visibility}:${kind}:files`] = usage.byKind[kind].files;
+  }
+  return fields;
+}
+
+function fromHashFields(
+  visibility: StorageVisibility,
+  counters: Record<string, string>
+): VisibilityUsage {
+  const read = (field: string) => Number(counters[`${visibility}:${field}`]) || 0;
+  const usage = emptyVisibilityUsage();
+  usage.bytes = read("bytes");
+  usage.files = read("files");
+  for (const kind of USAGE_KINDS) {
+    usage.byKind[kind] = { bytes: read(`${kind}:bytes`), files: read(`${kind}:files`) };
+  }
+  return usage;
+}
+
+async function applyUsageDelta(
+  key: string,
+  bytes: number,
+  visibility: StorageVisibility
+): Promise<void> {
+  // Staging prefixes such as `.incoming/` belong to no user
+  const slash = key.indexOf("/");
+  if (slash <= 0 || key.startsWith(".")) return;
+  const username = key.slice(0, slash);
+  const files = isImageRendition(key) ? 0 : Math.sign(bytes);
+  const kind = getUsageKind(key);
+
+  try {
+    await redis.eval(
+      INCREMENT_IF_PRESENT,
+      1,
+      getUsageKey(username),
+      `${visibility}:bytes`,
+      bytes,
+      `${visibility}:files`,
+      files,
+      `${visibility}:${kind}:bytes`,
+      bytes,
+      `${visibility}:${kind}:files`,
+      files
+    );
+  } catch (error) {
+    // Drift is corrected by the next reconciliation, so a counter failure never fails the upload
+    console.error(
+      "[storageUsage] Failed to update counters for",
+      key,
+      error instanceof Error ? error.message : error
+    );
+  }
+}
+
+export function recordObjectStored(
+  key: string,
+  size: number,
+  visibility: StorageVisibility = "public"
+): Promise<void> {
+  return applyUsageDelta(key, size, visibility);
+}
+
+export function recordObjectRemoved(
+  key: string,
+  size: number,
+  visibility: StorageVisibility = "public"
+): Promise<void> {
+  return applyUsageDelta(key, -size, visibility);
+}
+
+/**
+ * Recomputes the user's counters from a full listing of both buckets. Changes recorded while
+ * the listing runs can be lost, which the next reconciliation corrects.
+ */
+export async function reconcileStorageUsage(username: string): Promise<StorageUsage> {
+  const [publicUsage, privateUsage] = await Promise.all([
+    getUserStorageUsage(username),
+    getUserStorageUsage(username, getPrivateBucket()),
+  ]);
+
+  const usage: StorageUsage = {
+    public: summarize(publicUsage.files),
+    private: summarize(privateUsage.files),
+    reconciledAt: Date.now(),
+  };
+
+  await redis
+    .multi()
+    .hset(getUsageKey(username), {
+      ...toHashFields("public", usage.public),
+      ...toHashFields("private", usage.private),
+      version: USAGE_VERSION,
+      reconciledAt: usage.reconciledAt,
+    })
+    .zadd(STORAGE_USAGE_USERS_KEY, usage.reconciledAt, username)
+    .exec();
+
+  return usage;
+}
+
+/**
+ * Reads the user's counters, reconciling first if they have never been computed or were
+ * written by an older layout.
+ */
+export async function getStorageUsage(username: string): Promise<StorageUsage> {
+  const counters = await redis.hgetall(getUsageKey(username));
+  if (!counters || counters.version !== USAGE_VERSION) return reconcileStorageUsage(username);
+
+  return {
+    public: fromHashFields("public", counters),
+    private: fromHashFields("private", counters),
+    reconciledAt: Number(counters.reconciledAt),
+  };
+}
+
+/**
+ * Drops the user's counters, e.g. after their prefix was renamed; the next read reconciles.
+ */
+export async function invalidateStorageUsage(username: string): Promise<void> {
+  await redis.multi().del(getUsageKey(username)).zrem(STORAGE_USAGE_USERS_KEY, username).exec();
+}
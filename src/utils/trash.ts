@@ -0,0 +1,171 @@
+import { isImageRendition } from "./file";
+import { logger } from "./logger";
+import redis from "./redis";
+import { listUserObjectsPage } from "./s3.utils";
+import { StorageVisibility } from "./storageUsage";
+
+/**
+ * Deleted files move to `<username>/.trash/<deletedAt>/<filename>`. They stay in the user's
+ * prefix, so they keep counting towards usage until purged (by the
+ * retention sweep or the user's `/trash/purge`) and follow the user on rename.
+ */
+const TRASH_DIR = ".trash";
+
+export interface TrashedFile {
+  key: string;
+  originalKey: string;
+  size: number;
+  deletedAt: number;
+  expiresAt: number;
+}
+
+export function getTrashRetentionMs(): number {
+  return (Number(process.env.TRASH_RETENTION_DAYS) || 30) * 24 * 60 * 60 * 1000;
+}
+
+export function isTrashKey(key: string): boolean {
+  return key.split("/")[1] === TRASH_DIR;
+}
+
+export function getTrashKey(key: string, deletedAt: number): string {
+  const slash = key.indexOf("/");
+  return `${key.slice(0, slash)}/${TRASH_DIR}/${deletedAt}/${key.slice(slash + 1)}`;
+}
+
+export function parseTrashKey(key: string): { originalKey: string; deletedAt: number } | null {
+  const [username, dir, timestamp, ...rest] = key.split("/");
+  const deletedAt = Number(timestamp);
+  if (!username || dir !== TRASH_DIR || !Number.isInteger(deletedAt) || rest.length === 0) {
+    return null;
+  }
+  return { originalKey: `${username}/${rest.join("/")}`, deletedAt };
+}
+
+function getTrashIndexKey(visibility: StorageVisibility): string {
+  return `trash:${visibility}`;
+}
+
+export async function addToTrashIndex(
+  visibility: StorageVisibility,
+  key: string,
+  deletedAt: number
+): Promise<void> {
+  await redis.zadd(getTrashIndexKey(visibility), deletedAt, key);
+}
+
+export async function removeFromTrashIndex(
+  visibility: StorageVisibility,
+  key: string
+): Promise<void> {
+  await redis.zrem(getTrashIndexKey(visibility), key);
+}
+
+/**
+ * Re-keys the user's trash entries after their prefix was renamed, keeping each deletion time.
+ */
+export async function renameTrashIndex(oldUsername: string, newUsername: string): Promise<void> {
+  const pattern = `${oldUsername.replace(/[*?[\]\\]/g, "\\$&")}/*`;
+  for (const visibility of ["public", "private"] as StorageVisibility[]) {
+    const indexKey = getTrashIndexKey(visibility);
+    let cursor = "0";
+    do {
+      const [next, entries] = await redis.zscan(indexKey, cursor, "MATCH", pattern, "COUNT", 500);
+      cursor = next;
+      for (let i = 0; i < entries.length; i += 2) {
+        const key = entries[i];
+        await redis
+          .multi()
+          .zrem(indexKey, key)
+          .zadd(indexKey, entries[i + 1], `${newUsername}${key.slice(oldUsername.length)}`)
+          .exec();
+      }
+    } while (cursor !== "0");
+  }
+}
+
+/**
+ * Returns trash keys past the retention period. ZREM decides which instance owns a key, so
+ * concurrent purges never delete the same item twice.
+ */
+export async function claimExpiredTrash(visibility: StorageVisibility): Promise<string[]> {
+  const indexKey = getTrashIndexKey(visibility);
+  const cutoff = Date.now() - getTrashRetentionMs();
+  const keys = await redis.zrangebyscore(indexKey, 0, cutoff, "LIMIT", 0, 500);
+
+  const claimed: string[] = [];
+  for (const key of keys) {
+    if ((await redis.zrem(indexKey, key)) > 0) claimed.push(key);
+  }
+  return claimed;
+}
+
+/**
+ * Permanently deletes trashed files with `deleteFile`, which resolves false for a file that was
+ * already gone. Each leaves the retention index first so the sweep does not claim it again.
+ */
+export async function purgeTrashedFiles(
+  visibility: StorageVisibility,
+  keys: string[],
+  deleteFile: (_trashKey: string) => Promise<boolean>
+): Promise<number> {
+  let purged = 0;
+  for (const key of keys) {
+    await removeFromTrashIndex(visibility, key);
+    if (await deleteFile(key)) purged++;
+  }
+  return purged;
+}
+
+/**
+ * Deletes the files past the retention period with `deleteFile`. A file that fails to delete
+ * goes back in the index, so the next run retries it instead of leaving it in the bucket forever.
+ */
+export async function purgeExpiredTrashedFiles(
+  visibility: StorageVisibility,
+  deleteFile: (_trashKey: string) => Promise<boolean>
+): Promise<number> {
+  let purged = 0;
+  for (const key of await claimExpiredTrash(visibility)) {
+    const parsed = parseTrashKey(key);
+    if (!parsed) continue;
+    try {
+      if (await deleteFile(key)) purged++;
+    } catch (error) {
+      await addToTrashIndex(visibility, key, parsed.deletedAt);
+      logger.error(`[trash] Failed to purge ${key}`, { error: String(error) });
+    }
+  }
+  return purged;
+}
+
+/**
+ * Lists the user's trash in one bucket, newest deletion first. Image renditions travel with
+ * their original and are left out.
+ */
+export async function listTrash(username: string, bucket: string): Promise<TrashedFile[]> {
+  const retention = getTrashRetentionMs();
+  const files: TrashedFile[] = [];
+  let continuationToken: string | undefined;
+
+  do {
+    const page = await listUserObjectsPage(username, {
+      bucket,
+      prefix: `${TRASH_DIR}/`,
+      continuationToken,
+    });
+    for (const object of page.files) {
+      const parsed = parseTrashKey(object.key);
+      if (!parsed || isImageRendition(object.key)) continue;
+      files.push({
+        key: object.key,
+        originalKey: parsed.originalKey,
+        size: object.size,
+        deletedAt: parsed.deletedAt,
+        expiresAt: parsed.deletedAt + retention,
+      });
+    }
+    continuationToken = page.nextContinuationToken;
+  } while (continuationToken);
+
+  return files.sort((a, b) => b.deletedAt - a.deletedAt);
+}
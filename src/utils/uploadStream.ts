@@ -0,0 +1,66 @@
+import busboy from "busboy";
+import { Request } from "express";
+import { Readable } from "stream";
+
+export interface IncomingFileStream {
+  originalname: string;
+  mimetype: string;
+  stream: Readable;
+  size?: number;
+}
+
+/**
+ * Stops feeding a request's body to the form parser and lets the rest drain, so a rejected
+ * upload neither stalls the client on backpressure nor keeps its bytes around.
+ */
+export function discardRequestBody(req: Request): void {
+  req.unpipe();
+  req.resume();
+}
+
+/**
+ * Resolves with the `fieldName` file of a multipart/form-data request as soon as its headers
+ * arrive, leaving the body unread so the caller can stream it onwards. Resolves null when the
+ * request is not multipart or carries no such file.
+ */
+export function receiveFileStream(
+  req: Request,
+  fieldName: string
+): Promise<IncomingFileStream | null> {
+  return new Promise((resolve, reject) => {
+    let parser: busboy.Busboy;
+    try {
+      parser = busboy({ headers: req.headers, defParamCharset: "utf8", limits: { files: 1 } });
+    } catch {
+      discardRequestBody(req);
+      resolve(null);
+      return;
+    }
+
+    let received = false;
+
+    parser.on("file", (name, stream, info) => {
+      if (received || name !== fieldName) {
+        stream.resume();
+        return;
+      }
+      received = true;
+      resolve({ originalname: info.filename || "", mimetype: info.mimeType, stream });
+    });
+    parser.on("error", (error) => {
+      if (received) return;
+      discardRequestBody(req);
+      reject(error);
+    });
+    parser.on("close", () => {
+      if (!received) resolve(null);
+    });
+
+    // A dropped connection never ends the form, so fail the file stream instead of hanging
+    req.on("close", () => {
+      if (!req.complete) parser.destroy(new Error("Request aborted before upload finished"));
+    });
+
+    req.pipe(parser);
+  });
+}
@@ -0,0 +1,111 @@
+import { listUserObjectsPage, StoredObject } from "./s3.utils";
+
+/**
+ * Replaced files keep their previous content under
+ * `<username>/.versions/<filename>/<versionId>/`, next to any image renditions it had. Like the
+ * trash, versions stay in the user's prefix: they count towards usage and follow a rename.
+ */
+const VERSIONS_DIR = ".versions";
+
+export interface FileVersion {
+  versionId: string;
+  /** Every stored object of the version, the file itself first, then its renditions. */
+  keys: string[];
+  size: number;
+  createdAt: number;
+}
+
+export function getVersionLimit(): number {
+  return Number(process.env.MAX_FILE_VERSIONS) || 20;
+}
+
+export function isVersionKey(key: string): boolean {
+  return key.split("/")[1] === VERSIONS_DIR;
+}
+
+function basename(key: string): string {
+  return key.slice(key.lastIndexOf("/") + 1);
+}
+
+function getVersionsPrefix(key: string): string {
+  return `${VERSIONS_DIR}/${key.slice(key.indexOf("/") + 1)}/`;
+}
+
+/**
+ * Where `file` (the key itself or one of its renditions) is kept for the given version of `key`.
+ */
+export function getVersionKey(key: string, versionId: string, file: string = key): string {
+  return `${key.slice(0, key.indexOf("/"))}/${getVersionsPrefix(key)}${versionId}/${basename(file)}`;
+}
+
+let lastVersionId = 0;
+
+/** Millisecond timestamps, bumped when needed so two saves never share a version. */
+export function createVersionId(): string {
+  lastVersionId = Math.max(Date.now(), lastVersionId + 1);
+  return String(lastVersionId);
+}
+
+async function listAll(username: string, prefix: string): Promise<StoredObject[]> {
+  const objects: StoredObject[] = [];
+  let continuationToken: string | undefined;
+  do {
+    const page = await listUserObjectsPage(username, { prefix, continuationToken });
+    objects.push(...page.files);
+    continuationToken = page.nextContinuationToken;
+  } while (continuationToken);
+  return objects;
+}
+
+/**
+ * Groups version objects by the file and version they belong to. The prefix a version lives
+ * under ends in `/<versionId>/<filename>`, which is all that is needed to tell them apart.
+ */
+function groupVersions(
+  objects: StoredObject[]
+): Map<string, FileVersion & { originalKey: string }> {
+  const versions = new Map<string, FileVersion & { originalKey: string }>();
+  for (const object of objects) {
+    const parts = object.key.split("/");
+    if (parts.length < 5 || parts[1] !== VERSIONS_DIR) continue;
+    const versionId = parts[parts.length - 2];
+    const originalKey = `${parts[0]}/${parts.slice(2, -2).join("/")}`;
+    const id = `${originalKey}/${versionId}`;
+
+    const version = versions.get(id) || {
+      originalKey,
+      versionId,
+      keys: [],
+      size: 0,
+      createdAt: Number(versionId),
+    };
+    if (basename(object.key) === basename(originalKey)) {
+      version.keys.unshift(object.key);
+      version.size = object.size;
+    } else {
+      version.keys.push(object.key);
+    }
+    versions.set(id, version);
+  }
+  return versions;
+}
+
+/** Lists the stored versions of a file, newest first. */
+export async function listFileVersions(key: string): Promise<FileVersion[]> {
+  const username = key.slice(0, key.indexOf("/"));
+  const versions = Array.from(
+    groupVersions(await listAll(username, getVersionsPrefix(key))).values()
+  );
+  return versions
+    .filter((version) => version.size > 0)
+    .map(({ versionId, keys, size, createdAt }) => ({ versionId, keys, size, createdAt }))
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/** Lists every version the user keeps, across all their files, oldest first. */
+export async function listUserVersions(
+  username: string
+): Promise<Array<FileVersion & { originalKey: string }>> {
+  const versions = Array.from(groupVersions(await listAll(username, `${VERSIONS_DIR}/`)).values());
+  return versions.sort((a, b) => a.createdAt - b.createdAt);
+}